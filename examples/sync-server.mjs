@@ -0,0 +1,236 @@
+/**
+ * Saharos Kanban - Reference WebSocket sync server
+ *
+ * A minimal, dependency-free server for the `websocket` option, meant for
+ * trying the protocol locally end to end. It keeps the board history in
+ * memory only: restart it and the first client to reconnect seeds it again.
+ *
+ *   node examples/sync-server.mjs [port]
+ *
+ * Protocol (JSON text frames):
+ *   client -> server
+ *     { type: 'hello', clientId, epoch, version, user }
+ *     { type: 'ops', id, operations }
+ *     { type: 'presence', presence: { cardId, mode: 'focus' | 'drag' } | null }
+ *   server -> client
+ *     { type: 'welcome', epoch, version, batches, peers }
+ *     { type: 'ops', version, clientId, id, operations }
+ *     { type: 'ack', id, version }
+ *     { type: 'presence', clientId, user, presence }
+ *     { type: 'leave', clientId }
+ */
+
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Identifies this run of the server; versions from another run mean nothing here
+const epoch = randomUUID();
+let version = 0;
+// Accepted batches since the last full state (older ones are dropped)
+let batches = [];
+
+/** @type {Map<import('node:net').Socket, { clientId: string, user: object, presence: object | null }>} */
+const clients = new Map();
+
+// ==================== Protocol ====================
+
+function handleMessage(socket, message) {
+  if (message.type === 'hello') {
+    const client = { clientId: String(message.clientId), user: message.user ?? {}, presence: null };
+    clients.set(socket, client);
+
+    // Same run and still covered by the history: send only what the client missed
+    const first = batches[0]?.version ?? version + 1;
+    const since =
+      message.epoch === epoch && message.version >= first - 1 && message.version <= version
+        ? message.version
+        : 0;
+
+    send(socket, {
+      type: 'welcome',
+      epoch,
+      version,
+      batches: batches.filter((batch) => batch.version > since),
+      peers: others(socket).map(([, peer]) => peer),
+    });
+    broadcast(socket, { type: 'presence', ...client });
+    log(`${client.clientId} joined at version ${since} (now ${version})`);
+    return;
+  }
+
+  const client = clients.get(socket);
+  if (!client) return;
+
+  if (message.type === 'ops' && Array.isArray(message.operations)) {
+    // Resent after a reconnect although it already arrived
+    const known = batches.find((batch) => batch.id === message.id);
+    if (known) {
+      send(socket, { type: 'ack', id: known.id, version: known.version });
+      return;
+    }
+
+    const batch = {
+      version: ++version,
+      clientId: client.clientId,
+      id: String(message.id),
+      operations: message.operations,
+    };
+    if (batch.operations.some((operation) => operation.type === 'state:load')) {
+      batches = [];
+    }
+    batches.push(batch);
+
+    send(socket, { type: 'ack', id: batch.id, version: batch.version });
+    broadcast(socket, { type: 'ops', ...batch });
+    log(`${client.clientId} -> version ${version} (${batch.operations.length} operation(s))`);
+    return;
+  }
+
+  if (message.type === 'presence') {
+    client.presence = message.presence ?? null;
+    broadcast(socket, { type: 'presence', ...client });
+  }
+}
+
+function handleClose(socket) {
+  const client = clients.get(socket);
+  if (!client) return;
+
+  clients.delete(socket);
+  broadcast(socket, { type: 'leave', clientId: client.clientId });
+  log(`${client.clientId} left`);
+}
+
+function others(socket) {
+  return Array.from(clients.entries()).filter(([other]) => other !== socket);
+}
+
+function broadcast(from, message) {
+  others(from).forEach(([socket]) => send(socket, message));
+}
+
+function log(text) {
+  console.log(`[Saharos] ${text}`);
+}
+
+// ==================== WebSocket framing (RFC 6455) ====================
+
+function send(socket, message) {
+  if (socket.destroyed) return;
+  socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+}
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Read complete frames from the buffer; returns the unread rest
+ */
+function decodeFrames(buffer, onFrame) {
+  while (buffer.length >= 2) {
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+    }
+
+    onFrame(fin, opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+
+  return buffer;
+}
+
+function accept(request, socket) {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const digest = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${digest}\r\n\r\n`
+  );
+
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+
+  socket.on('data', (chunk) => {
+    pending = decodeFrames(Buffer.concat([pending, chunk]), (fin, opcode, payload) => {
+      switch (opcode) {
+        case 0x0: // continuation
+        case 0x1: // text
+          fragments.push(payload);
+          if (!fin) return;
+          try {
+            handleMessage(socket, JSON.parse(Buffer.concat(fragments).toString('utf8')));
+          } catch (error) {
+            console.error('[Saharos] Ignoring malformed message:', error);
+          }
+          fragments = [];
+          return;
+        case 0x8: // close
+          socket.end(encodeFrame(0x8, payload.subarray(0, 2)));
+          return;
+        case 0x9: // ping
+          socket.write(encodeFrame(0xa, payload));
+          return;
+      }
+    });
+  });
+  socket.on('close', () => handleClose(socket));
+  socket.on('error', () => socket.destroy());
+}
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Saharos sync server: connect with a WebSocket\n');
+});
+server.on('upgrade', accept);
+server.listen(PORT, () => log(`Sync server listening on ws://localhost:${PORT}`));
@@ -1,14 +1,42 @@
 /**
  * Saharos Kanban - Main Class
- * The primary entry point for the Kanban board
+ * The primary entry point for the Kanban board: a DOM view of a KanbanModel
  */
 
-import type { SaharosKanbanOptions, KanbanState, ID, Card, Column, Lane } from './types';
+import type {
+  SaharosKanbanOptions,
+  KanbanState,
+  KanbanOperation,
+  JsonPatchOperation,
+  ApplyOperationsOptions,
+  StateMigration,
+  SaharosEventHandlers,
+  SaharosKanbanPlugin,
+  ColumnRuleViolation,
+  MoveCardOptions,
+  AddItemOptions,
+  UpdateItemOptions,
+  RemoveColumnOptions,
+  RemoveLaneOptions,
+  ID,
+  Card,
+  Column,
+  Lane,
+  RemotePresence,
+  CardFilter,
+  HtmlExportOptions,
+  SvgExportOptions,
+  SvgExportColors,
+} from './types';
 import { EventBus } from './events';
 import { StateManager } from './state';
 import { DragAndDropManager } from './dnd';
-import { StorageManager } from './storage';
+import { KanbanModel } from './model';
+import { OperationLog } from './log';
+import { escapeSelector, parseId } from './types';
 import { AccessibilityManager } from '../dom/a11y';
+import { exportBoardHTML, exportBoardSVG, DEFAULT_SVG_COLORS } from '../dom/export';
+import type { BoardSnapshot } from '../dom/export';
 import {
   renderBoard,
   addCardToDOM,
@@ -19,21 +47,31 @@ import {
 
 /**
  * SaharosKanban - Main class
- * Framework-agnostic, zero-dependency Kanban board
+ * Framework-agnostic, zero-dependency Kanban board. State, mutations and
+ * events live in a KanbanModel; this class renders it and forwards its API.
  */
 export class SaharosKanban {
   private container: HTMLElement;
   private options: SaharosKanbanOptions;
+  private model: KanbanModel;
   private eventBus: EventBus;
   private stateManager: StateManager;
   private dndManager: DragAndDropManager | null;
-  private storageManager: StorageManager | null;
   private a11yManager: AccessibilityManager | null;
   private destroyed: boolean;
 
+  // The model is destroyed with the board unless it was passed in
+  private ownsModel: boolean;
+  private detachView: () => void;
+
   // Debounced rendering
   private renderScheduled: boolean = false;
 
+  // Bound so it can be removed from a shared model on destroy
+  private handlePresenceChange = (): void => {
+    this.renderPresence();
+  };
+
   constructor(containerOrSelector: string | HTMLElement, options: SaharosKanbanOptions = {}) {
     // Get container element
     if (typeof containerOrSelector === 'string') {
@@ -60,46 +98,37 @@ export class SaharosKanban {
       ...options,
     };
 
-    // Initialize event bus
-    this.eventBus = new EventBus(this.options.debug);
+    // board:ready is emitted below, once the board is rendered
+    const { 'board:ready': onReady, ...handlers } = this.options.on ?? {};
 
-    // Register event handlers from options
-    if (this.options.on) {
-      Object.entries(this.options.on).forEach(([event, handler]) => {
+    // Attach to the given model, or create one; plugins run with the board below
+    this.ownsModel = !this.options.model;
+    if (this.options.model) {
+      this.model = this.options.model;
+      Object.entries(handlers).forEach(([event, handler]) => {
         if (handler) {
-          this.eventBus.on(event as never, handler as never);
+          this.model.on(event as never, handler as never);
         }
       });
-    }
-
-    // Initialize storage if enabled
-    this.storageManager = null;
-    if (this.options.storageKey && StorageManager.isAvailable()) {
-      this.storageManager = new StorageManager(this.options.storageKey);
-    }
-
-    // Initialize state - try loading from storage first
-    let initialState: KanbanState;
-    if (this.storageManager) {
-      const savedState = this.storageManager.load();
-      initialState = savedState ?? {
-        lanes: this.options.lanes ?? [],
-        columns: this.options.columns ?? [],
-        cards: this.options.cards ?? [],
-      };
     } else {
-      initialState = this.options.initialState ?? {
-        lanes: this.options.lanes ?? [],
-        columns: this.options.columns ?? [],
-        cards: this.options.cards ?? [],
-      };
+      this.model = new KanbanModel({ ...this.options, on: handlers, plugins: undefined });
+    }
+    if (onReady) {
+      this.model.on('board:ready', onReady);
     }
 
-    this.stateManager = new StateManager(initialState);
+    this.eventBus = this.model.getEventBus();
+    this.stateManager = this.model.getStateManager();
     this.destroyed = false;
     this.dndManager = null;
     this.a11yManager = null;
 
+    this.detachView = this.model.attachView({
+      render: (immediate) => (immediate ? this.render() : this.scheduleRender()),
+      patch: (operations) => this.patchChanges(operations),
+      setCardPending: (cardId, pending) => this.setCardPending(cardId, pending),
+    });
+
     // Initial render (synchronous for immediate display)
     this.render();
 
@@ -109,6 +138,12 @@ export class SaharosKanban {
     // Initialize accessibility
     this.initializeAccessibility();
 
+    // Show where other users are
+    if (this.model.getOptions().websocket) {
+      this.eventBus.on('sync:presence', this.handlePresenceChange);
+      this.eventBus.on('state:change', this.handlePresenceChange);
+    }
+
     // Initialize plugins
     if (this.options.plugins) {
       this.options.plugins.forEach((plugin) => this.use(plugin));
@@ -118,23 +153,149 @@ export class SaharosKanban {
     this.eventBus.emit('board:ready');
   }
 
+  /**
+   * Get the model the board renders
+   */
+  getModel(): KanbanModel {
+    return this.model;
+  }
+
+  /**
+   * Check if the board is still loading its saved state
+   */
+  isLoading(): boolean {
+    return this.model.isLoading();
+  }
+
+  /**
+   * Resolve once the saved state has been loaded (immediately without storage)
+   */
+  whenLoaded(): Promise<void> {
+    return this.model.whenLoaded();
+  }
+
   /**
    * Get current state
    */
   getState(): KanbanState {
-    return this.stateManager.getState();
+    return this.model.getState();
+  }
+
+  /**
+   * Get a frozen snapshot of the current state
+   * Unlike getState() this does not copy the board: unchanged cards, columns
+   * and lanes are shared between snapshots, so they can be compared by reference.
+   */
+  getSnapshot(): KanbanState {
+    return this.model.getSnapshot();
   }
 
   /**
    * Load a new state
    */
   loadState(state: KanbanState, opts?: { silent?: boolean }): void {
-    this.stateManager.setState(state);
-    this.scheduleRender();
+    this.model.loadState(state, opts);
+  }
 
-    if (!opts?.silent) {
-      this.eventBus.emit('state:change', { state: this.getState() });
-    }
+  /**
+   * Apply serializable operations (e.g. from state:change payloads of another board)
+   * DOM updates are incremental for card operations. Operations that do not fit
+   * the current state are skipped; the applied ones are returned.
+   */
+  applyOperations(operations: KanbanOperation[], opts?: ApplyOperationsOptions): KanbanOperation[] {
+    return this.model.applyOperations(operations, opts);
+  }
+
+  /**
+   * Compute the JSON Patch that turns one state into another
+   * Entities are addressed by ID (`/cards/42/title`), so the patch can be
+   * applied to a board whose arrays are in a different order.
+   */
+  diff(prevState: KanbanState, nextState: KanbanState): JsonPatchOperation[] {
+    return this.model.diff(prevState, nextState);
+  }
+
+  /**
+   * Apply a JSON Patch (e.g. from the `patch` of another board's state:change)
+   * The patch is applied atomically: if an operation fails, an error is thrown
+   * and the board is left untouched. Card changes are patched into the DOM
+   * incrementally. Returns the applied change described as operations.
+   */
+  applyPatch(patch: JsonPatchOperation[], opts?: ApplyOperationsOptions): KanbanOperation[] {
+    return this.model.applyPatch(patch, opts);
+  }
+
+  // ==================== History Methods ====================
+
+  /**
+   * Revert the last mutation
+   */
+  undo(): boolean {
+    return this.model.undo();
+  }
+
+  /**
+   * Re-apply the last reverted mutation
+   */
+  redo(): boolean {
+    return this.model.redo();
+  }
+
+  /**
+   * Check if there is a mutation to undo
+   */
+  canUndo(): boolean {
+    return this.model.canUndo();
+  }
+
+  /**
+   * Check if there is a mutation to redo
+   */
+  canRedo(): boolean {
+    return this.model.canRedo();
+  }
+
+  /**
+   * Drop all undo/redo steps, keeping the current state
+   */
+  clearHistory(): void {
+    this.model.clearHistory();
+  }
+
+  /**
+   * Get the operation log (null unless the `operationLog` option is set)
+   */
+  getOperationLog(): OperationLog | null {
+    return this.model.getOperationLog();
+  }
+
+  /**
+   * Get the presence of other users connected through the `websocket` option
+   */
+  getPresence(): RemotePresence[] {
+    return this.model.getPresence();
+  }
+
+  // ==================== Batch Methods ====================
+
+  /**
+   * Apply several mutations as one transaction
+   *
+   * All mutations made inside `fn` are rendered once, recorded as a single
+   * history step and reported by a single `state:change` whose `operations`
+   * lists every change. Item events (`card:add`, ...) are delivered when the
+   * batch commits. If `fn` throws, the board is rolled back and the error is
+   * rethrown. `fn` must be synchronous; nested batches join the outer one.
+   */
+  batch<T>(fn: (board: this) => T): T {
+    return this.model.batch(() => fn(this));
+  }
+
+  /**
+   * Check if a batch is currently open
+   */
+  isBatching(): boolean {
+    return this.model.isBatching();
   }
 
   /**
@@ -147,39 +308,30 @@ export class SaharosKanban {
   /**
    * Register an event handler
    */
-  on<K extends keyof import('./types').SaharosEventHandlers>(
-    event: K,
-    handler: import('./types').SaharosEventHandlers[K]
-  ): void {
-    this.eventBus.on(event, handler as never);
+  on<K extends keyof SaharosEventHandlers>(event: K, handler: SaharosEventHandlers[K]): void {
+    this.model.on(event, handler);
   }
 
   /**
    * Unregister an event handler
    */
-  off<K extends keyof import('./types').SaharosEventHandlers>(
-    event: K,
-    handler: import('./types').SaharosEventHandlers[K]
-  ): void {
-    this.eventBus.off(event, handler as never);
+  off<K extends keyof SaharosEventHandlers>(event: K, handler: SaharosEventHandlers[K]): void {
+    this.model.off(event, handler);
   }
 
   /**
    * Register a one-time event handler
    */
-  once<K extends keyof import('./types').SaharosEventHandlers>(
-    event: K,
-    handler: import('./types').SaharosEventHandlers[K]
-  ): void {
-    this.eventBus.once(event, handler as never);
+  once<K extends keyof SaharosEventHandlers>(event: K, handler: SaharosEventHandlers[K]): void {
+    this.model.once(event, handler);
   }
 
   /**
    * Emit an event (internal use)
    */
-  private emit<K extends keyof import('./types').SaharosEventHandlers>(
+  private emit<K extends keyof SaharosEventHandlers>(
     event: K,
-    data?: Parameters<import('./types').SaharosEventHandlers[K]>[0]
+    data?: Parameters<SaharosEventHandlers[K]>[0]
   ): void {
     this.eventBus.emit(event, data);
   }
@@ -187,7 +339,7 @@ export class SaharosKanban {
   /**
    * Use a plugin
    */
-  use(plugin: import('./types').SaharosKanbanPlugin): void {
+  use(plugin: SaharosKanbanPlugin): void {
     const context = {
       board: this,
       getState: () => this.getState(),
@@ -195,16 +347,29 @@ export class SaharosKanban {
       on: this.on.bind(this),
       off: this.off.bind(this),
       emit: this.emit.bind(this),
+      registerMigration: (migration: StateMigration) => this.registerMigration(migration),
       options: this.options,
     };
     plugin(context);
   }
 
+  /**
+   * Register a state migration
+   * The current board is upgraded right away; saved state is upgraded when it loads.
+   */
+  registerMigration(migration: StateMigration): void {
+    this.model.registerMigration(migration);
+  }
+
   /**
    * Update options
    */
   setOptions(patch: Partial<SaharosKanbanOptions>): void {
     this.options = { ...this.options, ...patch };
+    this.model.setOptions(patch);
+    if (patch.sortable !== undefined) {
+      this.dndManager?.setSortable(patch.sortable);
+    }
     this.scheduleRender();
   }
 
@@ -212,73 +377,24 @@ export class SaharosKanban {
 
   /**
    * Add a new card
+   * Returns null if `card:add:before` vetoes it or a column rule rejects it.
    */
-  addCard(card: Omit<Card, 'order'>, opts?: import('./types').AddItemOptions): Card {
-    // Validate required fields
-    if (!card.title || (typeof card.title === 'string' && card.title.trim().length === 0)) {
-      throw new Error('[Saharos] Card must have a non-empty title');
-    }
-    if (card.id === undefined || card.id === null || (typeof card.id === 'string' && card.id.length === 0)) {
-      throw new Error('[Saharos] Card must have a valid ID');
-    }
-    if (!card.columnId || (typeof card.columnId === 'string' && card.columnId.length === 0)) {
-      throw new Error('[Saharos] Card must have a valid columnId');
-    }
-
-    const newCard = this.stateManager.addCard(card as Card, opts?.index);
-
-    // Use incremental rendering for single card addition
-    addCardToDOM(this.container, newCard, this.options.renderCard);
-
-    // Enhance only the new card with accessibility
-    if (this.a11yManager) {
-      const cardEl = this.container.querySelector(`.sk-card[data-card-id="${newCard.id}"]`) as HTMLElement;
-      if (cardEl) {
-        this.a11yManager.enhanceCard(cardEl, newCard);
-      }
-    }
-
-    this.eventBus.emit('card:add', { card: newCard });
-    this.eventBus.emit('state:change', { state: this.getState() });
-    return newCard;
+  addCard(card: Omit<Card, 'order'>, opts?: AddItemOptions): Card | null {
+    return this.model.addCard(card, opts);
   }
 
   /**
    * Update an existing card
    */
-  updateCard(cardId: ID, patch: Partial<Card>): Card | null {
-    const updatedCard = this.stateManager.updateCard(cardId, patch);
-    if (updatedCard) {
-      // Use incremental rendering for single card update
-      updateCardInDOM(this.container, updatedCard, this.options.renderCard);
-
-      // Enhance only the updated card with accessibility
-      if (this.a11yManager) {
-        const cardEl = this.container.querySelector(`.sk-card[data-card-id="${updatedCard.id}"]`) as HTMLElement;
-        if (cardEl) {
-          this.a11yManager.enhanceCard(cardEl, updatedCard);
-        }
-      }
-
-      this.eventBus.emit('card:update', { card: updatedCard });
-      this.eventBus.emit('state:change', { state: this.getState() });
-    }
-    return updatedCard;
+  updateCard(cardId: ID, patch: Partial<Card>, opts?: UpdateItemOptions): Card | null {
+    return this.model.updateCard(cardId, patch, opts);
   }
 
   /**
    * Remove a card
    */
   removeCard(cardId: ID): boolean {
-    const success = this.stateManager.removeCard(cardId);
-    if (success) {
-      // Use incremental rendering for single card removal
-      removeCardFromDOM(this.container, cardId);
-
-      this.eventBus.emit('card:remove', { cardId });
-      this.eventBus.emit('state:change', { state: this.getState() });
-    }
-    return success;
+    return this.model.removeCard(cardId);
   }
 
   /**
@@ -287,45 +403,9 @@ export class SaharosKanban {
   moveCard(
     cardId: ID,
     to: { columnId: ID; laneId?: ID | null; index?: number },
-    opts?: import('./types').MoveCardOptions
+    opts?: MoveCardOptions
   ): boolean {
-    const card = this.stateManager.getCard(cardId);
-    if (!card) return false;
-
-    const fromColumn = this.stateManager.getColumn(card.columnId);
-    const toColumn = this.stateManager.getColumn(to.columnId);
-    if (!toColumn) return false;
-
-    const success = this.stateManager.moveCard(cardId, to.columnId, to.laneId, to.index);
-    if (success) {
-      const movedCard = this.stateManager.getCard(cardId);
-      if (!movedCard) return false;
-
-      // Use incremental rendering for card move
-      moveCardInDOM(this.container, movedCard, to.columnId, this.options.renderCard);
-
-      // Enhance only the moved card with accessibility
-      if (this.a11yManager) {
-        const cardEl = this.container.querySelector(`.sk-card[data-card-id="${movedCard.id}"]`) as HTMLElement;
-        if (cardEl) {
-          this.a11yManager.enhanceCard(cardEl, movedCard);
-        }
-      }
-
-      // Only emit drag event if caused by API call (not pointer/keyboard)
-      if (!opts?.cause || opts.cause === 'api') {
-        if (fromColumn) {
-          this.eventBus.emit('card:drag:end', {
-            card: movedCard,
-            from: fromColumn,
-            to: toColumn,
-          });
-        }
-      }
-
-      this.eventBus.emit('state:change', { state: this.getState() });
-    }
-    return success;
+    return this.model.moveCard(cardId, to, opts);
   }
 
   /**
@@ -347,64 +427,31 @@ export class SaharosKanban {
   /**
    * Add a new column
    */
-  addColumn(column: Column, opts?: import('./types').AddItemOptions): Column {
-    // Validate required fields
-    if (!column.title || (typeof column.title === 'string' && column.title.trim().length === 0)) {
-      throw new Error('[Saharos] Column must have a non-empty title');
-    }
-    if (column.id === undefined || column.id === null || (typeof column.id === 'string' && column.id.length === 0)) {
-      throw new Error('[Saharos] Column must have a valid ID');
-    }
-
-    const newColumn = this.stateManager.addColumn(column, opts?.index);
-    this.scheduleRender();
-    this.eventBus.emit('column:add', { column: newColumn });
-    this.eventBus.emit('state:change', { state: this.getState() });
-    return newColumn;
+  addColumn(column: Column, opts?: AddItemOptions): Column | null {
+    return this.model.addColumn(column, opts);
   }
 
   /**
    * Update an existing column
    */
-  updateColumn(columnId: ID, patch: Partial<Column>): Column | null {
-    const updatedColumn = this.stateManager.updateColumn(columnId, patch);
-    if (updatedColumn) {
-      this.scheduleRender();
-      this.eventBus.emit('column:update', { column: updatedColumn });
-      this.eventBus.emit('state:change', { state: this.getState() });
-    }
-    return updatedColumn;
+  updateColumn(columnId: ID, patch: Partial<Column>, opts?: UpdateItemOptions): Column | null {
+    return this.model.updateColumn(columnId, patch, opts);
   }
 
   /**
    * Remove a column
+   * Its cards are removed too unless another policy is given; returns false
+   * if the policy refuses the removal.
    */
-  removeColumn(columnId: ID): boolean {
-    const success = this.stateManager.removeColumn(columnId);
-    if (success) {
-      this.scheduleRender();
-      this.eventBus.emit('column:remove', { columnId });
-      this.eventBus.emit('state:change', { state: this.getState() });
-    }
-    return success;
+  removeColumn(columnId: ID, opts?: RemoveColumnOptions): boolean {
+    return this.model.removeColumn(columnId, opts);
   }
 
   /**
    * Move a column to a new position
    */
   moveColumn(columnId: ID, toIndex: number): boolean {
-    const column = this.stateManager.getColumn(columnId);
-    if (!column) return false;
-
-    // Update column order
-    const updatedColumn = this.stateManager.updateColumn(columnId, { order: toIndex });
-    if (updatedColumn) {
-      this.scheduleRender();
-      this.eventBus.emit('column:move', { column: updatedColumn, toIndex });
-      this.eventBus.emit('state:change', { state: this.getState() });
-      return true;
-    }
-    return false;
+    return this.model.moveColumn(columnId, toIndex);
   }
 
   // ==================== Lane CRUD Methods ====================
@@ -412,82 +459,124 @@ export class SaharosKanban {
   /**
    * Add a new lane
    */
-  addLane(lane: Lane, opts?: import('./types').AddItemOptions): Lane {
-    // Validate required fields
-    if (!lane.title || (typeof lane.title === 'string' && lane.title.trim().length === 0)) {
-      throw new Error('[Saharos] Lane must have a non-empty title');
-    }
-    if (lane.id === undefined || lane.id === null || (typeof lane.id === 'string' && lane.id.length === 0)) {
-      throw new Error('[Saharos] Lane must have a valid ID');
-    }
-
-    const newLane = this.stateManager.addLane(lane, opts?.index);
-    this.scheduleRender();
-    this.eventBus.emit('lane:add', { lane: newLane });
-    this.eventBus.emit('state:change', { state: this.getState() });
-    return newLane;
+  addLane(lane: Lane, opts?: AddItemOptions): Lane | null {
+    return this.model.addLane(lane, opts);
   }
 
   /**
    * Update an existing lane
    */
-  updateLane(laneId: ID, patch: Partial<Lane>): Lane | null {
-    const updatedLane = this.stateManager.updateLane(laneId, patch);
-    if (updatedLane) {
-      this.scheduleRender();
-      this.eventBus.emit('lane:update', { lane: updatedLane });
-      this.eventBus.emit('state:change', { state: this.getState() });
-    }
-    return updatedLane;
+  updateLane(laneId: ID, patch: Partial<Lane>, opts?: UpdateItemOptions): Lane | null {
+    return this.model.updateLane(laneId, patch, opts);
   }
 
   /**
    * Remove a lane
+   * Its columns and cards are removed too unless another policy is given;
+   * returns false if the policy refuses the removal.
    */
-  removeLane(laneId: ID): boolean {
-    const success = this.stateManager.removeLane(laneId);
-    if (success) {
-      this.scheduleRender();
-      this.eventBus.emit('lane:remove', { laneId });
-      this.eventBus.emit('state:change', { state: this.getState() });
-    }
-    return success;
+  removeLane(laneId: ID, opts?: RemoveLaneOptions): boolean {
+    return this.model.removeLane(laneId, opts);
   }
 
   /**
    * Move a lane to a new position
    */
   moveLane(laneId: ID, toIndex: number): boolean {
-    const lane = this.stateManager.getLane(laneId);
-    if (!lane) return false;
-
-    // Update lane order
-    const updatedLane = this.stateManager.updateLane(laneId, { order: toIndex });
-    if (updatedLane) {
-      this.scheduleRender();
-      this.eventBus.emit('lane:move', { lane: updatedLane, toIndex });
-      this.eventBus.emit('state:change', { state: this.getState() });
-      return true;
-    }
-    return false;
+    return this.model.moveLane(laneId, toIndex);
+  }
+
+  /**
+   * Check if there are changes that have not been saved yet
+   */
+  isDirty(): boolean {
+    return this.model.isDirty();
+  }
+
+  /**
+   * Save pending changes immediately instead of waiting for the autosave delay
+   * Resolves to false if the save failed (see the `storage:error` event).
+   */
+  flush(): Promise<boolean> {
+    return this.model.flush();
   }
 
   /**
-   * Clear saved state from localStorage
+   * Clear saved state from the storage adapter
    */
-  clearStorage(): boolean {
-    if (!this.storageManager) return false;
-    return this.storageManager.clear();
+  clearStorage(): Promise<boolean> {
+    return this.model.clearStorage();
+  }
+
+  // ==================== Filter & Export Methods ====================
+
+  /**
+   * Show only the cards a predicate accepts; `null` shows all cards
+   * Hidden cards stay in the state and keep their positions.
+   */
+  setFilter(filter: CardFilter | null): void {
+    this.options.filter = filter;
+    this.applyFilter();
+
+    const total = this.stateManager.getCards().length;
+    this.emit('filter:change', {
+      active: filter !== null,
+      visible: filter ? this.getVisibleCards().length : total,
+      total,
+    });
+  }
+
+  /**
+   * Get the current card filter
+   */
+  getFilter(): CardFilter | null {
+    return this.options.filter ?? null;
+  }
+
+  /**
+   * Get the cards the current filter shows, in board order
+   */
+  getVisibleCards(): Card[] {
+    const cards = this.stateManager.getCards();
+    const filter = this.options.filter;
+    return filter ? cards.filter((card) => filter(card)) : cards;
+  }
+
+  /**
+   * Export the board as a self-contained, read-only HTML document
+   * Uses the custom render hooks and the current filter; the library styles
+   * and the board's theme are inlined, including the print stylesheet.
+   */
+  exportHTML(opts: HtmlExportOptions = {}): string {
+    return exportBoardHTML(this.getExportSnapshot(), { theme: this.getTheme(), ...opts });
+  }
+
+  /**
+   * Export the board as an SVG image
+   * Colors default to the board's current `--sk-*` CSS variables.
+   */
+  exportSVG(opts: SvgExportOptions = {}): string {
+    return exportBoardSVG(this.getExportSnapshot(), {
+      ...opts,
+      colors: { ...this.getThemeColors(), ...opts.colors },
+    });
   }
 
   /**
    * Destroy the board
+   * A model passed in through the `model` option is left running.
    */
   destroy(): void {
     if (this.destroyed) return;
 
-    this.eventBus.emit('board:destroy');
-    
+    this.eventBus.off('sync:presence', this.handlePresenceChange);
+    this.eventBus.off('state:change', this.handlePresenceChange);
+    this.detachView();
+
+    if (this.ownsModel) {
+      this.model.destroy();
+    }
+
     // Destroy drag and drop
     if (this.dndManager) {
       this.dndManager.destroy();
@@ -499,15 +588,11 @@ export class SaharosKanban {
       this.a11yManager.destroy();
       this.a11yManager = null;
     }
-    
-    this.eventBus.clear();
+
     this.container.innerHTML = '';
     this.destroyed = true;
   }
 
-  /**
-   * Render the board
-   */
   /**
    * Schedule a render (debounced with requestAnimationFrame)
    * Multiple calls are batched into a single render for performance
@@ -526,6 +611,8 @@ export class SaharosKanban {
    * Perform the actual render
    */
   private render(): void {
+    if (this.destroyed) return;
+
     const lanes = this.stateManager.getLanes();
     const columns = this.stateManager.getColumns();
     const allCards = this.stateManager.getCards();
@@ -542,8 +629,21 @@ export class SaharosKanban {
 
     // Enhance with accessibility features after rendering
     this.enhanceAccessibility();
-  }
 
+    // renderBoard resets the container class, so re-apply the loading state
+    const loading = this.model.isLoading();
+    this.container.classList.toggle('sk-board--loading', loading);
+    if (loading) {
+      this.container.setAttribute('aria-busy', 'true');
+    } else {
+      this.container.removeAttribute('aria-busy');
+    }
+
+    // Re-apply markers for moves still awaiting confirmation
+    this.model.getPendingMoves().forEach((cardId) => this.setCardPending(cardId, true));
+    this.renderPresence();
+    this.applyFilter();
+  }
 
   /**
    * Check if board is destroyed
@@ -565,26 +665,17 @@ export class SaharosKanban {
       this.eventBus,
       this.options.drag,
       this.options.readonly,
-      this.options.draggable
+      this.options.draggable,
+      this.model.getOptions().sortable
     );
 
     // Enhance DnD manager with state access
     this.enhanceDndManager();
-
-    // Listen to drag events and update state
-    this.setupDragEventHandlers();
-
-    // Setup autosave
-    if (this.storageManager) {
-      this.eventBus.on('state:change', (data) => {
-        const { state } = data as { state: KanbanState };
-        this.storageManager?.save(state);
-      });
-    }
   }
 
   /**
    * Enhance DnD manager with state manager access
+   * Drops are reported as card:drag:end and applied by the model.
    */
   private enhanceDndManager(): void {
     if (!this.dndManager) return;
@@ -597,27 +688,17 @@ export class SaharosKanban {
     this.dndManager.setColumnDataGetter((columnId: ID) => {
       return this.stateManager.getColumn(columnId);
     });
+
+    this.dndManager.setDropValidator((card: Card, column: Column) => {
+      return this.checkMove(card, column.id);
+    });
   }
 
   /**
-   * Setup drag event handlers
+   * Check the configured column rules for a card entering a column
    */
-  private setupDragEventHandlers(): void {
-    // Handle drag end - update state
-    this.eventBus.on('card:drag:end', (data) => {
-      const { card, from, to } = data as { card: Card; from: Column; to: Column };
-      if (from.id === to.id) {
-        // Same column - just re-render to update positions
-        this.scheduleRender();
-      } else {
-        // Different column - move card
-        const success = this.stateManager.moveCard(card.id, to.id, card.laneId);
-        if (success) {
-          this.scheduleRender();
-          this.eventBus.emit('state:change', { state: this.getState() });
-        }
-      }
-    });
+  checkMove(card: Card, toColumnId: ID): ColumnRuleViolation | null {
+    return this.model.checkMove(card, toColumnId);
   }
 
   /**
@@ -629,6 +710,7 @@ export class SaharosKanban {
 
   /**
    * Initialize accessibility features
+   * Keyboard moves are reported as a11y:move:card and applied by the model.
    */
   private initializeAccessibility(): void {
     if (this.a11yManager) {
@@ -644,8 +726,9 @@ export class SaharosKanban {
 
     this.a11yManager.init();
 
-    // Listen to a11y move events and update state
-    this.setupA11yEventHandlers();
+    this.a11yManager.setDropValidator((card: Card, column: Column) => {
+      return this.checkMove(card, column.id);
+    });
   }
 
   /**
@@ -654,7 +737,7 @@ export class SaharosKanban {
   private enhanceAccessibility(): void {
     if (!this.a11yManager) return;
 
-    const state = this.getState();
+    const state = this.getSnapshot();
 
     // Enhance all lanes
     if (state.lanes && this.a11yManager) {
@@ -688,17 +771,189 @@ export class SaharosKanban {
   }
 
   /**
-   * Setup accessibility event handlers
+   * Mark the cards other users are on with their name and color
    */
-  private setupA11yEventHandlers(): void {
-    // Handle keyboard card moves
-    this.eventBus.on('a11y:move:card', (data) => {
-      const { card, to } = data as { card: Card; from: Column; to: Column };
-      const success = this.stateManager.moveCard(card.id, to.id, card.laneId);
-      if (success) {
-        this.scheduleRender();
-        this.eventBus.emit('state:change', { state: this.getState() });
+  private renderPresence(): void {
+    if (!this.model.getOptions().websocket) return;
+
+    this.container.querySelectorAll<HTMLElement>('.sk-card--presence').forEach((el) => {
+      el.classList.remove('sk-card--presence', 'sk-card--presence-drag');
+      el.removeAttribute('data-presence');
+      el.style.removeProperty('--sk-presence-color');
+    });
+
+    this.getPresence().forEach(({ user, presence }) => {
+      if (!presence) return;
+      const cardEl = this.container.querySelector<HTMLElement>(
+        `.sk-card[data-card-id="${escapeSelector(presence.cardId)}"]`
+      );
+      if (!cardEl) return;
+
+      const names = cardEl.dataset.presence ? cardEl.dataset.presence.split(', ') : [];
+      names.push(user.name ?? 'Anonymous');
+      cardEl.dataset.presence = names.join(', ');
+      cardEl.classList.add('sk-card--presence');
+      cardEl.classList.toggle('sk-card--presence-drag', presence.mode === 'drag');
+      if (user.color) {
+        cardEl.style.setProperty('--sk-presence-color', user.color);
+      }
+    });
+  }
+
+  /**
+   * Hide the card elements the current filter rejects
+   */
+  private applyFilter(): void {
+    const filter = this.options.filter;
+    this.container.classList.toggle('sk-board--filtered', Boolean(filter));
+
+    this.container.querySelectorAll<HTMLElement>('.sk-card').forEach((el) => {
+      const cardId = el.dataset.cardId;
+      const card = cardId === undefined ? null : this.stateManager.getCard(parseId(cardId));
+      const hidden = Boolean(filter && card && !filter(card));
+      el.classList.toggle('sk-card--filtered', hidden);
+      if (hidden) {
+        el.setAttribute('aria-hidden', 'true');
+      } else {
+        el.removeAttribute('aria-hidden');
+      }
+    });
+  }
+
+  /**
+   * What exportHTML/exportSVG render: the visible part of the board
+   */
+  private getExportSnapshot(): BoardSnapshot {
+    return {
+      lanes: this.stateManager.getLanes(),
+      columns: this.stateManager.getColumns(),
+      cards: this.getVisibleCards(),
+      renderCard: this.options.renderCard,
+      renderColumnHeader: this.options.renderColumnHeader,
+      renderLaneHeader: this.options.renderLaneHeader,
+    };
+  }
+
+  /**
+   * Theme applied to the board through an `sk-theme-*` class on it or an ancestor
+   */
+  private getTheme(): HtmlExportOptions['theme'] {
+    const themed = this.container.closest('.sk-theme-light, .sk-theme-dark, .sk-theme-colorful');
+    const match = themed ? /\bsk-theme-(light|dark|colorful)\b/.exec(themed.className) : null;
+    return (match?.[1] as HtmlExportOptions['theme']) ?? null;
+  }
+
+  /**
+   * Current values of the color variables, for SVG export
+   * Values SVG cannot use as a fill (e.g. gradients) keep their defaults.
+   */
+  private getThemeColors(): SvgExportColors {
+    const colors = { ...DEFAULT_SVG_COLORS };
+    if (!this.container.isConnected) return colors;
+
+    const style = getComputedStyle(this.container);
+    const variables: Record<keyof SvgExportColors, string> = {
+      board: '--sk-board-bg',
+      column: '--sk-column-bg',
+      columnBorder: '--sk-border-color',
+      card: '--sk-card-bg',
+      cardBorder: '--sk-card-border-color',
+      text: '--sk-text-primary',
+      textSecondary: '--sk-text-secondary',
+      accent: '--sk-accent-color',
+      accentBackground: '--sk-accent-bg',
+    };
+    (Object.keys(variables) as Array<keyof SvgExportColors>).forEach((key) => {
+      const value = style.getPropertyValue(variables[key]).trim();
+      if (/^(#[\da-f]{3,8}|(rgb|hsl)a?\([^)]*\)|[a-z]+)$/i.test(value)) {
+        colors[key] = value;
+      }
+    });
+    return colors;
+  }
+
+  /**
+   * Toggle the pending (awaiting confirmation) marker on a card element
+   */
+  private setCardPending(cardId: ID, pending: boolean): void {
+    const cardEl = this.container.querySelector(`.sk-card[data-card-id="${escapeSelector(cardId)}"]`);
+    if (!cardEl) return;
+
+    cardEl.classList.toggle('sk-card--pending', pending);
+    if (pending) {
+      cardEl.setAttribute('aria-busy', 'true');
+    } else {
+      cardEl.removeAttribute('aria-busy');
+    }
+  }
+
+  /**
+   * Reflect card operations applied by the model in the DOM
+   * Card positions are taken from the current state, so the affected columns
+   * are put in order after all cards are in place.
+   */
+  private patchChanges(operations: KanbanOperation[]): void {
+    const columnIds = new Set<ID>();
+    const cardIds: ID[] = [];
+
+    operations.forEach((op) => {
+      if (op.type === 'card:remove') {
+        removeCardFromDOM(this.container, op.cardId);
+        return;
+      }
+      if (op.type !== 'card:add' && op.type !== 'card:update' && op.type !== 'card:move') return;
+
+      const cardId = op.type === 'card:add' ? op.card.id : op.cardId;
+      const card = this.stateManager.getCard(cardId);
+      if (!card) return;
+
+      if (op.type === 'card:add') {
+        addCardToDOM(this.container, card, this.options.renderCard);
+        columnIds.add(card.columnId);
+      } else if (op.type === 'card:update') {
+        updateCardInDOM(this.container, card, this.options.renderCard);
+      } else {
+        columnIds.add(card.columnId);
       }
+      cardIds.push(cardId);
+    });
+
+    columnIds.forEach((columnId) => this.sortColumnInDOM(columnId));
+
+    if (this.a11yManager) {
+      cardIds.forEach((cardId) => {
+        const card = this.stateManager.getCard(cardId);
+        const cardEl = this.container.querySelector(`.sk-card[data-card-id="${escapeSelector(cardId)}"]`) as HTMLElement;
+        if (card && cardEl) {
+          this.a11yManager?.enhanceCard(cardEl, card);
+        }
+      });
+    }
+
+    // Patched card elements are new, without presence or filter markers
+    this.renderPresence();
+    this.applyFilter();
+  }
+
+  /**
+   * Move the card elements of a column into state order, touching only misplaced ones
+   */
+  private sortColumnInDOM(columnId: ID): void {
+    const cardsContainer = this.container.querySelector(
+      `.sk-column[data-column-id="${escapeSelector(columnId)}"] .sk-cards`
+    );
+    if (!cardsContainer) return;
+
+    const cardElementIds = () =>
+      Array.from(cardsContainer.children)
+        .filter((el) => el.classList.contains('sk-card'))
+        .map((el) => (el as HTMLElement).dataset.cardId);
+
+    let current = cardElementIds();
+    this.stateManager.getCards(columnId).forEach((card, index) => {
+      if (current[index] === String(card.id)) return;
+      moveCardInDOM(this.container, card, columnId, this.options.renderCard, index);
+      current = cardElementIds();
     });
   }
 }
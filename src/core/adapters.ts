@@ -0,0 +1,92 @@
+/**
+ * Saharos Kanban - Storage Adapters
+ * Built-in persistence backends for StorageManager
+ */
+
+import type { KanbanState, StorageAdapter } from './types';
+
+/**
+ * Adapter for the Web Storage API (localStorage / sessionStorage)
+ * The storage object is resolved lazily so the adapter can be created
+ * in environments without a DOM.
+ */
+class WebStorageAdapter implements StorageAdapter {
+  private key: string;
+  private getStorage: () => Storage;
+
+  constructor(key: string, getStorage: () => Storage) {
+    this.key = key;
+    this.getStorage = getStorage;
+  }
+
+  load(): Promise<KanbanState | null> {
+    try {
+      const serialized = this.getStorage().getItem(this.key);
+      return Promise.resolve(serialized ? (JSON.parse(serialized) as KanbanState) : null);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  save(state: KanbanState): Promise<void> {
+    try {
+      this.getStorage().setItem(this.key, JSON.stringify(state));
+      return Promise.resolve();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  clear(): Promise<void> {
+    try {
+      this.getStorage().removeItem(this.key);
+      return Promise.resolve();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+}
+
+/**
+ * Persist the board in localStorage under a single key
+ */
+export class LocalStorageAdapter extends WebStorageAdapter {
+  constructor(key: string) {
+    super(key, () => localStorage);
+  }
+}
+
+/**
+ * Persist the board in sessionStorage under a single key
+ */
+export class SessionStorageAdapter extends WebStorageAdapter {
+  constructor(key: string) {
+    super(key, () => sessionStorage);
+  }
+}
+
+/**
+ * Keep the board in memory - useful for tests and server-side usage
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private serialized: string | null;
+
+  constructor(initialState?: KanbanState) {
+    this.serialized = initialState ? JSON.stringify(initialState) : null;
+  }
+
+  load(): Promise<KanbanState | null> {
+    return Promise.resolve(this.serialized ? (JSON.parse(this.serialized) as KanbanState) : null);
+  }
+
+  save(state: KanbanState): Promise<void> {
+    // Stored serialized so later mutations of `state` do not leak in
+    this.serialized = JSON.stringify(state);
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.serialized = null;
+    return Promise.resolve();
+  }
+}
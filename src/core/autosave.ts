@@ -0,0 +1,132 @@
+/**
+ * Saharos Kanban - Autosave
+ * Debounced/throttled persistence with dirty tracking
+ */
+
+import type { KanbanState, AutosaveOptions } from './types';
+import type { StorageManager } from './storage';
+
+interface AutosaveCallbacks {
+  onSaved: (state: KanbanState) => void;
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Autosaver - Coalesces state changes into as few saves as possible
+ *
+ * In 'debounce' mode a save runs once changes have settled for `delay` ms,
+ * but never later than `maxWait` ms after the first unsaved change.
+ * In 'throttle' mode a save runs `delay` ms after the first unsaved change,
+ * no matter how many changes follow. With autosave disabled changes are only
+ * tracked and saved on flush().
+ */
+export class Autosaver {
+  private storageManager: StorageManager;
+  private getState: () => KanbanState;
+  private callbacks: AutosaveCallbacks;
+  private delay: number;
+  private maxWait: number;
+  private mode: 'debounce' | 'throttle';
+  private enabled: boolean;
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private maxTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Incremented on every change; compared against the last saved version
+  private version: number = 0;
+  private savedVersion: number = 0;
+  private inFlight: Promise<boolean> | null = null;
+
+  constructor(
+    storageManager: StorageManager,
+    getState: () => KanbanState,
+    options: AutosaveOptions | false,
+    callbacks: AutosaveCallbacks
+  ) {
+    this.storageManager = storageManager;
+    this.getState = getState;
+    this.callbacks = callbacks;
+    this.enabled = options !== false;
+
+    const timing = options || {};
+    this.delay = Math.max(0, timing.delay ?? 300);
+    this.maxWait = Math.max(this.delay, timing.maxWait ?? 2000);
+    this.mode = timing.mode ?? 'debounce';
+  }
+
+  /**
+   * Record that the board changed and schedule a save
+   */
+  markDirty(): void {
+    this.version++;
+    if (!this.enabled) return;
+
+    if (this.mode === 'throttle') {
+      if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.delay);
+      }
+      return;
+    }
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.flush(), this.delay);
+
+    if (!this.maxTimer) {
+      this.maxTimer = setTimeout(() => void this.flush(), this.maxWait);
+    }
+  }
+
+  /**
+   * Check if there are changes that have not been saved yet
+   */
+  isDirty(): boolean {
+    return this.version !== this.savedVersion;
+  }
+
+  /**
+   * Save pending changes now
+   * The state is captured synchronously, so the save still reflects the board
+   * when it is flushed right before teardown.
+   */
+  flush(): Promise<boolean> {
+    this.cancel();
+    if (!this.isDirty()) return this.inFlight ?? Promise.resolve(true);
+
+    const state = this.getState();
+    const version = this.version;
+
+    // Start immediately when idle so synchronous adapters finish before unload
+    const previous = this.inFlight;
+    const run = previous
+      ? previous.then(() => this.write(state, version))
+      : this.write(state, version);
+
+    const tracked = run.finally(() => {
+      if (this.inFlight === tracked) this.inFlight = null;
+    });
+    this.inFlight = tracked;
+    return tracked;
+  }
+
+  /**
+   * Cancel scheduled saves without saving
+   */
+  cancel(): void {
+    if (this.timer) clearTimeout(this.timer);
+    if (this.maxTimer) clearTimeout(this.maxTimer);
+    this.timer = null;
+    this.maxTimer = null;
+  }
+
+  private async write(state: KanbanState, version: number): Promise<boolean> {
+    // A newer flush may already have saved this version or a later one
+    if (version <= this.savedVersion) return true;
+
+    const saved = await this.storageManager.save(state, this.callbacks.onError);
+    if (!saved) return false;
+
+    this.savedVersion = Math.max(this.savedVersion, version);
+    this.callbacks.onSaved(state);
+    return true;
+  }
+}
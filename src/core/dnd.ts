@@ -3,7 +3,7 @@
  * Pointer-based drag and drop implementation
  */
 
-import type { Card, Column, ID, DragOptions } from './types';
+import type { Card, Column, ID, DragOptions, ColumnRuleViolation } from './types';
 import { parseId } from './types';
 import { EventBus } from './events';
 
@@ -14,7 +14,10 @@ interface DragState {
   mirrorElement: HTMLElement | null;
   sourceColumn: Column | null;
   targetColumn: Column | null;
+  targetIndex: number;
+  targetLaneId: ID | null | undefined;
   placeholder: HTMLElement | null;
+  rejectedColumns: Map<ID, ColumnRuleViolation>;
   startX: number;
   startY: number;
   offsetX: number;
@@ -26,6 +29,7 @@ interface DragState {
 interface DropTarget {
   column: Column;
   columnElement: HTMLElement;
+  laneId: ID | null | undefined;
   insertIndex: number;
   insertBefore: HTMLElement | null;
 }
@@ -40,8 +44,12 @@ export class DragAndDropManager {
   private state: DragState;
   private readonly: boolean;
   private draggable: boolean;
+  private sortable: boolean;
   private getCardDataCallback: ((cardId: ID) => Card | null) | null = null;
   private getColumnDataCallback: ((columnId: ID) => Column | null) | null = null;
+  private dropValidatorCallback:
+    | ((card: Card, column: Column) => ColumnRuleViolation | null)
+    | null = null;
 
   private boundHandlePointerDown: (e: PointerEvent) => void;
   private boundHandlePointerMove: (e: PointerEvent) => void;
@@ -53,18 +61,21 @@ export class DragAndDropManager {
     eventBus: EventBus,
     options: DragOptions = {},
     readonly: boolean = false,
-    draggable: boolean = true
+    draggable: boolean = true,
+    sortable: boolean = true
   ) {
     this.container = container;
     this.eventBus = eventBus;
     this.readonly = readonly;
     this.draggable = draggable;
+    this.sortable = sortable;
 
     this.options = {
       handleSelector: options.handleSelector ?? null,
       mirrorClass: options.mirrorClass ?? 'sk-card--mirror',
       hoverClassColumn: options.hoverClassColumn ?? 'sk-column--drag-over',
       hoverClassCardPlaceholder: options.hoverClassCardPlaceholder ?? 'sk-card-placeholder',
+      disabledClassColumn: options.disabledClassColumn ?? 'sk-column--drop-not-allowed',
       pointerTolerance: options.pointerTolerance ?? 5,
     };
 
@@ -90,7 +101,10 @@ export class DragAndDropManager {
       mirrorElement: null,
       sourceColumn: null,
       targetColumn: null,
+      targetIndex: -1,
+      targetLaneId: undefined,
       placeholder: null,
+      rejectedColumns: new Map(),
       startX: 0,
       startY: 0,
       offsetX: 0,
@@ -155,7 +169,10 @@ export class DragAndDropManager {
       mirrorElement: null,
       sourceColumn: column,
       targetColumn: column,
+      targetIndex: -1,
+      targetLaneId: undefined,
       placeholder: null,
+      rejectedColumns: new Map(),
       startX: e.clientX,
       startY: e.clientY,
       offsetX: e.clientX - rect.left,
@@ -230,6 +247,9 @@ export class DragAndDropManager {
     // Add dragging class to original element
     this.state.draggedElement.classList.add('sk-card--dragging');
 
+    // Flag columns whose rules reject this card
+    this.markRejectedColumns();
+
     // Emit drag start event
     this.eventBus.emit('card:drag:start', {
       card: this.state.draggedCard,
@@ -276,12 +296,43 @@ export class DragAndDropManager {
       this.eventBus.emit('card:drag:cancel', {
         card: this.state.draggedCard,
       });
-    } else {
-      // Emit drag end event with source and target columns
-      this.eventBus.emit('card:drag:end', {
+    } else if (this.state.targetColumn && this.state.rejectedColumns.has(this.state.targetColumn.id)) {
+      // Dropped on a column that does not accept the card - snap back
+      const reason = this.state.rejectedColumns.get(this.state.targetColumn.id);
+      if (reason) {
+        this.eventBus.emit('card:move:rejected', {
+          card: this.state.draggedCard,
+          from: this.state.sourceColumn,
+          to: this.state.targetColumn,
+          reason,
+          cause: 'pointer',
+        });
+      }
+      this.eventBus.emit('card:drag:cancel', {
+        card: this.state.draggedCard,
+      });
+    } else if (this.state.targetIndex !== -1) {
+      // Emit drag end event with source and target columns and drop position
+      const dropEvent: {
+        card: Card;
+        from: Column;
+        to: Column;
+        index: number;
+        laneId?: ID | null;
+      } = {
         card: this.state.draggedCard,
         from: this.state.sourceColumn,
         to: this.state.targetColumn ?? this.state.sourceColumn,
+        index: this.state.targetIndex,
+      };
+      if (this.state.targetLaneId !== undefined) {
+        dropEvent.laneId = this.state.targetLaneId;
+      }
+      this.eventBus.emit('card:drag:end', dropEvent);
+    } else {
+      // Released without ever hovering a column - nothing to drop
+      this.eventBus.emit('card:drag:cancel', {
+        card: this.state.draggedCard,
       });
     }
 
@@ -360,11 +411,21 @@ export class DragAndDropManager {
     const cardsContainer = columnElement.querySelector('.sk-cards');
     if (!cardsContainer) return null;
 
+    // Lane the column belongs to (undefined when the board has no lanes)
+    const laneElement = columnElement.closest<HTMLElement>('.sk-lane');
+    const laneIdRaw = laneElement?.dataset.laneId;
+    const laneId = laneElement ? (laneIdRaw ? parseId(laneIdRaw) : null) : undefined;
+
     // Find insertion point
     const cards = Array.from(cardsContainer.querySelectorAll('.sk-card:not(.sk-card--dragging)'));
     let insertIndex = cards.length;
     let insertBefore: HTMLElement | null = null;
 
+    // Without sorting, cards can only be appended to other columns
+    if (!this.sortable) {
+      return { column, columnElement, laneId, insertIndex, insertBefore };
+    }
+
     for (let i = 0; i < cards.length; i++) {
       const card = cards[i] as HTMLElement;
       const rect = card.getBoundingClientRect();
@@ -380,6 +441,7 @@ export class DragAndDropManager {
     return {
       column,
       columnElement,
+      laneId,
       insertIndex,
       insertBefore,
     };
@@ -392,23 +454,31 @@ export class DragAndDropManager {
     if (!this.state.placeholder) return;
 
     this.state.targetColumn = target.column;
+    this.state.targetIndex = target.insertIndex;
+    this.state.targetLaneId = target.laneId;
 
     // Remove old hover classes
     const oldHoverColumns = this.container.querySelectorAll(`.${this.options.hoverClassColumn}`);
     oldHoverColumns.forEach((el) => el.classList.remove(this.options.hoverClassColumn ?? ''));
 
+    // Remove placeholder from old location
+    if (this.state.placeholder.parentElement) {
+      this.state.placeholder.remove();
+    }
+
+    // Rejecting columns keep their "not allowed" state and get no placeholder
+    if (this.state.rejectedColumns.has(target.column.id)) return;
+
     // Add hover class to new column
     target.columnElement.classList.add(this.options.hoverClassColumn ?? 'sk-column--drag-over');
 
+    // Without sorting, the source column shows no drop position
+    if (!this.sortable && target.column.id === this.state.sourceColumn?.id) return;
+
     // Move placeholder
     const cardsContainer = target.columnElement.querySelector('.sk-cards');
     if (!cardsContainer) return;
 
-    // Remove placeholder from old location
-    if (this.state.placeholder.parentElement) {
-      this.state.placeholder.remove();
-    }
-
     // Insert placeholder at new location
     if (target.insertBefore) {
       cardsContainer.insertBefore(this.state.placeholder, target.insertBefore);
@@ -440,6 +510,10 @@ export class DragAndDropManager {
     const hoverColumns = this.container.querySelectorAll(`.${this.options.hoverClassColumn}`);
     hoverColumns.forEach((el) => el.classList.remove(this.options.hoverClassColumn ?? ''));
 
+    // Remove "not allowed" classes
+    const disabledColumns = this.container.querySelectorAll(`.${this.options.disabledClassColumn}`);
+    disabledColumns.forEach((el) => el.classList.remove(this.options.disabledClassColumn ?? ''));
+
     // Remove global listeners
     document.removeEventListener('pointermove', this.boundHandlePointerMove);
     document.removeEventListener('pointerup', this.boundHandlePointerUp);
@@ -449,6 +523,29 @@ export class DragAndDropManager {
     this.state = this.getInitialState();
   }
 
+  /**
+   * Mark every column that would reject the dragged card
+   */
+  private markRejectedColumns(): void {
+    const card = this.state.draggedCard;
+    if (!card || !this.dropValidatorCallback) return;
+
+    const columnElements = this.container.querySelectorAll<HTMLElement>('.sk-column');
+    columnElements.forEach((columnElement) => {
+      const columnIdRaw = columnElement.dataset.columnId;
+      if (!columnIdRaw) return;
+
+      const column = this.getColumnData(parseId(columnIdRaw));
+      if (!column || !this.dropValidatorCallback) return;
+
+      const violation = this.dropValidatorCallback(card, column);
+      if (violation) {
+        this.state.rejectedColumns.set(column.id, violation);
+        columnElement.classList.add(this.options.disabledClassColumn ?? 'sk-column--drop-not-allowed');
+      }
+    });
+  }
+
   /**
    * Find card element from target
    */
@@ -507,6 +604,13 @@ export class DragAndDropManager {
     this.getColumnDataCallback = callback;
   }
 
+  /**
+   * Set callback for validating drops against column rules
+   */
+  setDropValidator(callback: (card: Card, column: Column) => ColumnRuleViolation | null): void {
+    this.dropValidatorCallback = callback;
+  }
+
   /**
    * Destroy and cleanup
    */
@@ -537,6 +641,13 @@ export class DragAndDropManager {
     }
   }
 
+  /**
+   * Enable/disable in-column sorting
+   */
+  setSortable(sortable: boolean): void {
+    this.sortable = sortable;
+  }
+
   /**
    * Set readonly mode
    */
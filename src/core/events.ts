@@ -80,6 +80,51 @@ export class EventBus {
     }
   }
 
+  /**
+   * Emit a cancelable event
+   *
+   * Handlers may veto by calling `preventDefault()` on the payload or by
+   * returning `false`; they may also modify the payload in place. A handler
+   * that throws is treated as a veto so failing checks never let an
+   * operation through. Returns false if the event was vetoed.
+   */
+  emitCancelable<T extends object>(event: SaharosEvent, data: T): boolean {
+    let prevented = false;
+
+    Object.defineProperties(data, {
+      preventDefault: {
+        value: () => {
+          prevented = true;
+        },
+        configurable: true,
+      },
+      defaultPrevented: {
+        get: () => prevented,
+        configurable: true,
+      },
+    });
+
+    const eventHandlers = this.handlers.get(event);
+    if (eventHandlers) {
+      eventHandlers.forEach((handler) => {
+        try {
+          if ((handler as (payload: T) => unknown)(data) === false) {
+            prevented = true;
+          }
+        } catch (error) {
+          prevented = true;
+          console.error(`[Saharos] Error in event handler for "${event}":`, error);
+        }
+      });
+    }
+
+    if (this.debug) {
+      console.warn(`[Saharos] Event emitted: ${event}`, data, prevented ? '(prevented)' : '');
+    }
+
+    return !prevented;
+  }
+
   /**
    * Remove all event handlers
    */
@@ -0,0 +1,187 @@
+/**
+ * Saharos Kanban - Undo/Redo History
+ * Snapshot-based history of board mutations
+ */
+
+import type { KanbanState, HistoryOptions } from './types';
+
+interface HistoryEntry {
+  state: KanbanState;
+  label: string;
+  mergeKey: string | null;
+  timestamp: number;
+  /** Number of records up to and including this one */
+  seq: number;
+}
+
+/**
+ * HistoryManager - Keeps past/present/future snapshots of the board state
+ *
+ * Every committed mutation pushes the previous snapshot onto the undo stack.
+ * Consecutive records sharing a merge key within the merge window replace the
+ * present snapshot instead, so e.g. typing into a title becomes a single step.
+ */
+export class HistoryManager {
+  private past: HistoryEntry[];
+  private present: HistoryEntry;
+  private future: HistoryEntry[];
+  private limit: number;
+  private mergeWindow: number;
+  private sequence: number = 0;
+
+  constructor(initialState: KanbanState, options: HistoryOptions = {}) {
+    this.limit = Math.max(1, options.limit ?? 100);
+    this.mergeWindow = options.mergeWindow ?? 1000;
+    this.past = [];
+    this.future = [];
+    this.present = this.createEntry(initialState, 'initial');
+  }
+
+  /**
+   * Record a new snapshot after a mutation
+   */
+  record(state: KanbanState, label: string, mergeKey?: string): void {
+    const now = Date.now();
+    this.sequence++;
+
+    if (
+      mergeKey &&
+      this.past.length > 0 &&
+      this.present.mergeKey === mergeKey &&
+      now - this.present.timestamp <= this.mergeWindow
+    ) {
+      this.present = { state, label, mergeKey, timestamp: now, seq: this.sequence };
+      this.future = [];
+      return;
+    }
+
+    this.past.push(this.present);
+    if (this.past.length > this.limit) {
+      this.past.splice(0, this.past.length - this.limit);
+    }
+
+    this.present = this.createEntry(state, label, mergeKey);
+    this.future = [];
+  }
+
+  /**
+   * Replace the present snapshot without creating an undo step
+   * Used for changes that should not be undoable on their own (e.g. silent loads)
+   */
+  replacePresent(state: KanbanState): void {
+    this.present = { ...this.present, state, mergeKey: null };
+  }
+
+  /**
+   * Rewrite every past and future snapshot, e.g. to fold in changes made
+   * elsewhere so that undo does not revert them
+   */
+  transform(fn: (state: KanbanState) => KanbanState): void {
+    this.past = this.past.map((entry) => ({ ...entry, state: fn(entry.state) }));
+    this.future = this.future.map((entry) => ({ ...entry, state: fn(entry.state) }));
+  }
+
+  /**
+   * Number of snapshots recorded so far, to address later ones with revise()
+   */
+  getPosition(): number {
+    return this.sequence;
+  }
+
+  /**
+   * Rewrite the snapshots recorded after `position`, e.g. to take back a change
+   * that was declined later, and drop the steps that no longer change anything
+   */
+  revise(
+    position: number,
+    fn: (state: KanbanState) => KanbanState,
+    isSame: (a: KanbanState, b: KanbanState) => boolean
+  ): void {
+    const chain = [...this.past, this.present, ...[...this.future].reverse()];
+    const revised: HistoryEntry[] = [];
+    let presentIndex = this.past.length;
+
+    chain.forEach((entry, index) => {
+      if (entry.seq <= position) {
+        revised.push(entry);
+        return;
+      }
+      const next = { ...entry, state: fn(entry.state) };
+      const previous = revised[revised.length - 1];
+      if (previous && isSame(previous.state, next.state)) {
+        if (index <= this.past.length) presentIndex--;
+        return;
+      }
+      revised.push(next);
+    });
+
+    this.past = revised.slice(0, presentIndex);
+    this.present = { ...(revised[presentIndex] as HistoryEntry), mergeKey: null };
+    this.future = revised.slice(presentIndex + 1).reverse();
+  }
+
+  /**
+   * Step back, returning the snapshot to restore
+   */
+  undo(): KanbanState | null {
+    const previous = this.past.pop();
+    if (!previous) return null;
+
+    this.future.push(this.present);
+    this.present = { ...previous, mergeKey: null };
+    return previous.state;
+  }
+
+  /**
+   * Step forward, returning the snapshot to restore
+   */
+  redo(): KanbanState | null {
+    const next = this.future.pop();
+    if (!next) return null;
+
+    this.past.push(this.present);
+    this.present = { ...next, mergeKey: null };
+    return next.state;
+  }
+
+  canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Label of the mutation that would be reverted by undo()
+   */
+  getUndoLabel(): string | null {
+    return this.canUndo() ? this.present.label : null;
+  }
+
+  /**
+   * Label of the mutation that would be re-applied by redo()
+   */
+  getRedoLabel(): string | null {
+    return this.future[this.future.length - 1]?.label ?? null;
+  }
+
+  /**
+   * Drop all undo/redo steps and start over from the given state
+   */
+  reset(state: KanbanState): void {
+    this.past = [];
+    this.future = [];
+    this.present = this.createEntry(state, 'initial');
+  }
+
+  private createEntry(state: KanbanState, label: string, mergeKey?: string): HistoryEntry {
+    return {
+      state,
+      label,
+      mergeKey: mergeKey ?? null,
+      timestamp: Date.now(),
+      seq: this.sequence,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Saharos Kanban - Core Entry Point
+ * Board logic without DOM or CSS imports, for servers and workers:
+ * `import { KanbanModel } from 'saharos-kanban/core'`
+ */
+
+// Headless board
+export { KanbanModel } from './model';
+
+// Export types for TypeScript users
+export type {
+  ID,
+  Lane,
+  Column,
+  Card,
+  KanbanState,
+  KanbanOperation,
+  JsonPatchOperation,
+  ColumnRule,
+  SaharosEvent,
+  EventHandler,
+  SaharosEventHandlers,
+  PluginContext,
+  SaharosKanbanPlugin,
+  KanbanModelOptions,
+  KanbanView,
+  MoveCardOptions,
+  LoadStateOptions,
+  AddItemOptions,
+  UpdateItemOptions,
+  HistoryOptions,
+  OperationLogOptions,
+  OperationLogEntry,
+  SerializedOperationLog,
+  ColumnRuleViolation,
+  MoveRejectionReason,
+  BeforeEvent,
+  BeforeEventHandler,
+  MoveContext,
+  BeforeMoveGuard,
+  StorageAdapter,
+  AutosaveOptions,
+  SyncStamp,
+  SyncConflictResolver,
+  CrossTabSyncOptions,
+  ApplyOperationsOptions,
+  ReplicaStamp,
+  ReplicaChange,
+  ReplicaMessage,
+  ReplicaTransport,
+  ReplicaOptions,
+  PresenceUser,
+  CardPresence,
+  RemotePresence,
+  WebSocketSyncStatus,
+  WebSocketConstructor,
+  WebSocketSyncOptions,
+  RestRequest,
+  RestEndpoints,
+  RestSyncStatus,
+  RestSyncOptions,
+  CsvFieldMapping,
+  CsvExportOptions,
+  CsvImportOptions,
+  CsvImportReport,
+  CsvImportResult,
+  MarkdownExportOptions,
+  TrelloBoard,
+  TrelloList,
+  TrelloLabel,
+  TrelloCard,
+  TrelloChecklist,
+  TrelloImportOptions,
+  TrelloImportIssue,
+  TrelloImportReport,
+  TrelloImportResult,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationReport,
+  ValidationOptions,
+  RepairOptions,
+  StateMigration,
+  MigrationStep,
+  RemovalPolicy,
+  LaneRemovalPolicy,
+  RemoveColumnOptions,
+  RemoveLaneOptions,
+  CardOrdering,
+  StateManagerOptions,
+} from './types';
+
+// Export utility functions
+export { parseId, escapeSelector } from './types';
+
+// Export utilities
+export { EventBus } from './events';
+export { StateManager } from './state';
+export { StorageManager } from './storage';
+export { validateState, repairState } from './validation';
+export { checkColumnRules } from './rules';
+export { applyOperation, applyOperations } from './operations';
+export { MigrationRegistry, CURRENT_SCHEMA_VERSION } from './migrations';
+export { diffStates, patchState } from './patch';
+export { OperationLog } from './log';
+export { Replica, MemoryNetwork } from './replica';
+export { WebSocketSync } from './websocket';
+export { restSyncPlugin, RestSyncQueue, collapseOperation } from './rest';
+
+// Export import/export formats
+export { exportCSV, importCSV, parseCSV, detectDelimiter } from '../io/csv';
+export { exportMarkdown, importMarkdown } from '../io/markdown';
+export { importTrello } from '../io/trello';
+export {
+  compareOrder,
+  isOrderKey,
+  generateKeyBetween,
+  generateNKeysBetween,
+  convertCardOrders,
+} from './ordering';
+export { LocalStorageAdapter, SessionStorageAdapter, MemoryStorageAdapter } from './adapters';
+export { IndexedDBAdapter } from './indexeddb';
+export type { IndexedDBAdapterOptions } from './indexeddb';
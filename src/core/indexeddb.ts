@@ -0,0 +1,293 @@
+/**
+ * Saharos Kanban - IndexedDB Storage Adapter
+ * Stores lanes, columns and cards as separate records for large boards
+ */
+
+import type { ID, Lane, Column, Card, KanbanState, StorageAdapter } from './types';
+
+type EntityStore = 'lanes' | 'columns' | 'cards';
+
+const ENTITY_STORES: EntityStore[] = ['lanes', 'columns', 'cards'];
+const META_STORE = 'meta';
+const META_KEY = 'board';
+const DB_VERSION = 1;
+
+/**
+ * IndexedDB adapter configuration options
+ */
+export interface IndexedDBAdapterOptions {
+  /** Database name (default: 'saharos-kanban') - use one per board */
+  dbName?: string;
+  /** IndexedDB implementation (default: global indexedDB); pass a shim in tests */
+  indexedDB?: IDBFactory;
+  /** IDBKeyRange implementation matching `indexedDB` (default: global IDBKeyRange) */
+  IDBKeyRange?: typeof IDBKeyRange;
+  /** Number of records read per request while loading (default: 500) */
+  chunkSize?: number;
+  /** Called after each loaded chunk */
+  onLoadProgress?: (progress: { store: EntityStore; loaded: number }) => void;
+}
+
+/**
+ * Board-level record: schema versions and the array position of every entity
+ * Records come back from a store in key order, so their positions are kept here.
+ */
+interface BoardMeta extends Pick<KanbanState, 'schemaVersion' | 'metaVersions'> {
+  savedAt: number;
+  positions?: Record<EntityStore, ID[]>;
+}
+
+/**
+ * Put loaded records back in the order they were saved in
+ * Records without a position (saves from older versions) keep their key order at the end.
+ */
+function sortByPosition<T extends { id: ID }>(records: T[], positions?: ID[]): T[] {
+  if (!positions) return records;
+  const index = new Map(positions.map((id, position) => [id, position]));
+  const position = (record: T) => index.get(record.id) ?? positions.length;
+  return records
+    .map((record, keyOrder) => ({ record, keyOrder }))
+    .sort((a, b) => position(a.record) - position(b.record) || a.keyOrder - b.keyOrder)
+    .map(({ record }) => record);
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Resolve when a transaction commits, reject when it errors or aborts
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * IndexedDBAdapter - Persist the board as one record per lane, column and card
+ *
+ * Only entities that changed since the last successful save are written, and
+ * every save runs in a single transaction: if it fails (e.g. with a
+ * QuotaExceededError) the previous save stays intact and the next save
+ * retries the same changes.
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  private dbName: string;
+  private factory: IDBFactory | null;
+  private keyRange: typeof IDBKeyRange | null;
+  private chunkSize: number;
+  private onLoadProgress: IndexedDBAdapterOptions['onLoadProgress'];
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Serialized records as of the last successful save/load, per store
+  private lastSaved: Record<EntityStore, Map<ID, string>> = {
+    lanes: new Map(),
+    columns: new Map(),
+    cards: new Map(),
+  };
+
+  // Saves run one at a time so each diff is taken against settled data
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: IndexedDBAdapterOptions = {}) {
+    this.dbName = options.dbName ?? 'saharos-kanban';
+    this.factory = options.indexedDB ?? (typeof indexedDB !== 'undefined' ? indexedDB : null);
+    this.keyRange =
+      options.IDBKeyRange ?? (typeof IDBKeyRange !== 'undefined' ? IDBKeyRange : null);
+    this.chunkSize = Math.max(1, options.chunkSize ?? 500);
+    this.onLoadProgress = options.onLoadProgress;
+  }
+
+  /**
+   * Check if IndexedDB is available in this environment
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async load(): Promise<KanbanState | null> {
+    await this.queue;
+    const db = await this.open();
+
+    const meta = (await promisifyRequest(
+      db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(META_KEY)
+    )) as BoardMeta | undefined;
+    if (!meta) return null;
+
+    const lanes = sortByPosition(await this.loadStore<Lane>(db, 'lanes'), meta.positions?.lanes);
+    const columns = sortByPosition(
+      await this.loadStore<Column>(db, 'columns'),
+      meta.positions?.columns
+    );
+    const cards = sortByPosition(await this.loadStore<Card>(db, 'cards'), meta.positions?.cards);
+
+    const state: KanbanState = lanes.length > 0 ? { lanes, columns, cards } : { columns, cards };
+    if (meta.schemaVersion !== undefined) state.schemaVersion = meta.schemaVersion;
+    if (meta.metaVersions !== undefined) state.metaVersions = meta.metaVersions;
+    return state;
+  }
+
+  save(state: KanbanState): Promise<void> {
+    const run = this.queue.then(() => this.write(state));
+    // Keep the queue alive after a failed save; the caller still sees the error
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async clear(): Promise<void> {
+    await this.queue;
+    const db = await this.open();
+    const tx = db.transaction([...ENTITY_STORES, META_STORE], 'readwrite');
+    ENTITY_STORES.forEach((store) => tx.objectStore(store).clear());
+    tx.objectStore(META_STORE).clear();
+    await transactionDone(tx);
+
+    ENTITY_STORES.forEach((store) => this.lastSaved[store].clear());
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    if (!this.dbPromise) return;
+    const db = await this.dbPromise;
+    db.close();
+    this.dbPromise = null;
+  }
+
+  /**
+   * Write the entities that changed since the last successful save
+   */
+  private async write(state: KanbanState): Promise<void> {
+    const db = await this.open();
+    const next: Record<EntityStore, Map<ID, string>> = {
+      lanes: this.serialize(state.lanes ?? []),
+      columns: this.serialize(state.columns),
+      cards: this.serialize(state.cards),
+    };
+
+    const tx = db.transaction([...ENTITY_STORES, META_STORE], 'readwrite');
+    const done = transactionDone(tx);
+
+    try {
+      ENTITY_STORES.forEach((store) => {
+        const objectStore = tx.objectStore(store);
+        const previous = this.lastSaved[store];
+
+        next[store].forEach((serialized, id) => {
+          if (previous.get(id) !== serialized) {
+            objectStore.put(JSON.parse(serialized));
+          }
+        });
+
+        previous.forEach((_serialized, id) => {
+          if (!next[store].has(id)) {
+            objectStore.delete(id);
+          }
+        });
+      });
+
+      const meta: BoardMeta = {
+        savedAt: Date.now(),
+        schemaVersion: state.schemaVersion,
+        metaVersions: state.metaVersions,
+        positions: {
+          lanes: (state.lanes ?? []).map((lane) => lane.id),
+          columns: state.columns.map((column) => column.id),
+          cards: state.cards.map((card) => card.id),
+        },
+      };
+      tx.objectStore(META_STORE).put(meta, META_KEY);
+    } catch (error) {
+      // put() throws synchronously for records that cannot be cloned
+      tx.abort();
+      await done.catch(() => undefined);
+      throw error;
+    }
+
+    await done;
+    this.lastSaved = next;
+  }
+
+  /**
+   * Read a store in chunks so large boards do not need one huge request
+   */
+  private async loadStore<T extends { id: ID }>(db: IDBDatabase, store: EntityStore): Promise<T[]> {
+    const records: T[] = [];
+    const saved = new Map<ID, string>();
+    let lastKey: ID | null = null;
+
+    // Without IDBKeyRange there is no way to resume, so read everything at once
+    const count = this.keyRange ? this.chunkSize : undefined;
+
+    for (;;) {
+      const range: IDBKeyRange | null =
+        lastKey === null || !this.keyRange ? null : this.keyRange.lowerBound(lastKey, true);
+      const chunk = (await promisifyRequest(
+        db.transaction(store, 'readonly').objectStore(store).getAll(range, count)
+      )) as T[];
+
+      chunk.forEach((record) => {
+        records.push(record);
+        saved.set(record.id, JSON.stringify(record));
+      });
+      this.onLoadProgress?.({ store, loaded: records.length });
+
+      const last = chunk[chunk.length - 1];
+      if (!last || count === undefined || chunk.length < count) break;
+      lastKey = last.id;
+    }
+
+    // What was just read is what is on disk - the next save only writes changes
+    this.lastSaved[store] = saved;
+    return records;
+  }
+
+  private serialize(items: Array<{ id: ID }>): Map<ID, string> {
+    const map = new Map<ID, string>();
+    items.forEach((item) => map.set(item.id, JSON.stringify(item)));
+    return map;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    const factory = this.factory;
+    if (!factory) {
+      return Promise.reject(new Error('[Saharos] IndexedDB is not available'));
+    }
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        ENTITY_STORES.forEach((store) => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+    });
+
+    // Allow a later call to retry after a failed open
+    this.dbPromise.catch(() => {
+      this.dbPromise = null;
+    });
+
+    return this.dbPromise;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Saharos Kanban - Operation Log
+ * Append-only, event-sourced record of board mutations
+ */
+
+import type {
+  KanbanOperation,
+  KanbanState,
+  OperationLogEntry,
+  OperationLogOptions,
+  SerializedOperationLog,
+} from './types';
+import { StateManager } from './state';
+import { applyOperation } from './operations';
+
+const LOG_VERSION = 1;
+
+/**
+ * OperationLog - Records every operation applied to a board
+ *
+ * The log keeps the state it started from and each operation with its time
+ * and actor, so any earlier state can be rebuilt by replaying it: for audits,
+ * or to reproduce a bug from an exported log. Entries are never changed or
+ * removed once appended.
+ */
+export class OperationLog {
+  private base: KanbanState;
+  private entries: OperationLogEntry[];
+  private options: OperationLogOptions;
+
+  constructor(base: KanbanState, options: OperationLogOptions = {}) {
+    this.base = base;
+    this.entries = [];
+    this.options = options;
+  }
+
+  /**
+   * Restore a log exported with export()
+   */
+  static import(data: SerializedOperationLog, options: OperationLogOptions = {}): OperationLog {
+    if (data.version !== LOG_VERSION) {
+      throw new Error(`[Saharos] Unsupported operation log version ${String(data.version)}`);
+    }
+    if (!Array.isArray(data.entries)) {
+      throw new Error('[Saharos] Operation log entries must be an array');
+    }
+
+    const log = new OperationLog(data.base, options);
+    log.entries = data.entries.map((entry) => ({ ...entry }));
+    return log;
+  }
+
+  /**
+   * Append applied operations
+   * Local changes are attributed to the configured actor unless one is given.
+   */
+  append(
+    operations: KanbanOperation[],
+    meta: { actor?: string; origin?: string; at?: number } = {}
+  ): OperationLogEntry[] {
+    if (operations.length === 0) return [];
+
+    const at = meta.at ?? Date.now();
+    const actor = meta.actor ?? (meta.origin === undefined ? this.getActor() : undefined);
+    const added = operations.map((operation, index): OperationLogEntry => {
+      const entry: OperationLogEntry = { ...operation, seq: this.entries.length + index + 1, at };
+      if (actor !== undefined) entry.actor = actor;
+      if (meta.origin !== undefined) entry.origin = meta.origin;
+      return entry;
+    });
+
+    this.entries.push(...added);
+    this.options.onAppend?.(added);
+    return added;
+  }
+
+  /**
+   * Get the logged entries, oldest first
+   */
+  getEntries(): OperationLogEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Get the state the log starts from
+   */
+  getBase(): KanbanState {
+    return this.base;
+  }
+
+  /**
+   * Number of logged entries
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Rebuild the state by replaying the log from its base
+   * Stop after entry `seq` and/or after the last entry applied at or before
+   * `at` to get the board as it was at that point.
+   */
+  replay(until: { seq?: number; at?: number } = {}): KanbanState {
+    const stateManager = new StateManager(this.base, { ordering: this.options.ordering });
+
+    for (const entry of this.entries) {
+      if (until.seq !== undefined && entry.seq > until.seq) break;
+      if (until.at !== undefined && entry.at > until.at) break;
+      applyOperation(stateManager, entry);
+    }
+
+    return stateManager.getSnapshot();
+  }
+
+  /**
+   * Export the log as plain JSON data, e.g. to persist it or attach it to a bug report
+   */
+  export(): SerializedOperationLog {
+    return JSON.parse(
+      JSON.stringify({ version: LOG_VERSION, base: this.base, entries: this.entries })
+    ) as SerializedOperationLog;
+  }
+
+  private getActor(): string | undefined {
+    const { actor } = this.options;
+    return typeof actor === 'function' ? actor() : actor;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Saharos Kanban - State Migrations
+ * Upgrades persisted board state to the current schema, step by step
+ */
+
+import type { KanbanState, StateMigration, MigrationStep } from './types';
+
+/**
+ * Schema version written by this release
+ * States without a `schemaVersion` are treated as version 0.
+ */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+/**
+ * Built-in core schema migrations
+ */
+const CORE_MIGRATIONS: StateMigration[] = [
+  {
+    version: 1,
+    description: 'Add schemaVersion to the serialized state',
+    migrate: (state) => state,
+  },
+];
+
+/**
+ * MigrationRegistry - Holds core and plugin migrations and applies them in order
+ *
+ * Core migrations upgrade `schemaVersion`. Migrations with a `namespace`
+ * belong to a plugin and upgrade `metaVersions[namespace]`, independently of
+ * the core schema, so plugins can evolve the meta data they own.
+ */
+export class MigrationRegistry {
+  private migrations: Map<string, Map<number, StateMigration>> = new Map();
+
+  constructor(migrations: StateMigration[] = []) {
+    CORE_MIGRATIONS.forEach((migration) => this.register(migration));
+    migrations.forEach((migration) => this.register(migration));
+  }
+
+  /**
+   * Register a migration
+   * Throws if a migration for the same namespace and version already exists.
+   */
+  register(migration: StateMigration): void {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new Error(
+        `[Saharos] Migration version must be a positive integer, got ${migration.version}`
+      );
+    }
+
+    const key = migration.namespace ?? '';
+    const byVersion = this.migrations.get(key) ?? new Map<number, StateMigration>();
+    if (byVersion.has(migration.version)) {
+      throw new Error(
+        `[Saharos] Duplicate migration for ${this.describeNamespace(migration.namespace)} version ${migration.version}`
+      );
+    }
+
+    byVersion.set(migration.version, migration);
+    this.migrations.set(key, byVersion);
+  }
+
+  /**
+   * Latest known version for the core schema or a plugin namespace
+   */
+  getLatestVersion(namespace?: string): number {
+    const versions = Array.from(this.migrations.get(namespace ?? '')?.keys() ?? []);
+    const latest = versions.length > 0 ? Math.max(...versions) : 0;
+    return namespace === undefined ? Math.max(CURRENT_SCHEMA_VERSION, latest) : latest;
+  }
+
+  /**
+   * Upgrade a state to the latest versions
+   * The input is not modified. Throws if a step is missing or a migration fails.
+   */
+  migrate(state: KanbanState): { state: KanbanState; steps: MigrationStep[] } {
+    let current = JSON.parse(JSON.stringify(state)) as KanbanState;
+    const steps: MigrationStep[] = [];
+
+    // Core schema first, so plugin migrations always see the current shape
+    const namespaces = Array.from(this.migrations.keys()).sort((a, b) =>
+      a === '' ? -1 : b === '' ? 1 : a.localeCompare(b)
+    );
+
+    namespaces.forEach((key) => {
+      const namespace = key === '' ? undefined : key;
+      const latest = this.getLatestVersion(namespace);
+      let version = this.getVersion(current, namespace);
+
+      if (version > latest) {
+        console.warn(
+          `[Saharos] State ${this.describeNamespace(namespace)} version ${version} is newer than this release supports (${latest})`
+        );
+        return;
+      }
+
+      while (version < latest) {
+        const migration = this.migrations.get(key)?.get(version + 1);
+        if (!migration) {
+          throw new Error(
+            `[Saharos] No migration for ${this.describeNamespace(namespace)} from version ${version} to ${version + 1}`
+          );
+        }
+
+        try {
+          current = migration.migrate(current);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new Error(
+            `[Saharos] Migration of ${this.describeNamespace(namespace)} to version ${migration.version} failed: ${reason}`
+          );
+        }
+
+        current = this.setVersion(current, namespace, migration.version);
+        steps.push({
+          namespace: namespace ?? null,
+          from: version,
+          to: migration.version,
+          description: migration.description,
+        });
+        version = migration.version;
+      }
+    });
+
+    return { state: current, steps };
+  }
+
+  private getVersion(state: KanbanState, namespace?: string): number {
+    if (namespace === undefined) return state.schemaVersion ?? 0;
+    return state.metaVersions?.[namespace] ?? 0;
+  }
+
+  private setVersion(
+    state: KanbanState,
+    namespace: string | undefined,
+    version: number
+  ): KanbanState {
+    if (namespace === undefined) return { ...state, schemaVersion: version };
+    return { ...state, metaVersions: { ...state.metaVersions, [namespace]: version } };
+  }
+
+  private describeNamespace(namespace?: string): string {
+    return namespace === undefined ? 'core schema' : `"${namespace}" meta`;
+  }
+}
@@ -0,0 +1,1490 @@
+/**
+ * Saharos Kanban - Headless Model
+ * Board state, mutations, rules and events without a DOM; views attach to it
+ */
+
+import type {
+  KanbanModelOptions,
+  KanbanView,
+  KanbanState,
+  KanbanOperation,
+  JsonPatchOperation,
+  ApplyOperationsOptions,
+  StateMigration,
+  RemovalPolicy,
+  LaneRemovalPolicy,
+  SaharosEventHandlers,
+  SaharosKanbanPlugin,
+  ColumnRuleViolation,
+  MoveContext,
+  MoveCardOptions,
+  AddItemOptions,
+  UpdateItemOptions,
+  RemoveColumnOptions,
+  RemoveLaneOptions,
+  ID,
+  Card,
+  Column,
+  Lane,
+  RemotePresence,
+} from './types';
+import { EventBus } from './events';
+import { StateManager } from './state';
+import { StorageManager } from './storage';
+import { Autosaver } from './autosave';
+import { CrossTabSync } from './sync';
+import { Replica } from './replica';
+import { WebSocketSync } from './websocket';
+import { applyOperation, applyOperations } from './operations';
+import { diffStates, patchState, operationsBetween } from './patch';
+import { validateState, repairState } from './validation';
+import { MigrationRegistry } from './migrations';
+import { HistoryManager } from './history';
+import { OperationLog } from './log';
+import { checkColumnRules } from './rules';
+
+/**
+ * KanbanModel - the board without its DOM
+ * Has the mutation API and events of SaharosKanban, so moves can be validated
+ * and applied with the same semantics on a server. SaharosKanban renders a model.
+ */
+export class KanbanModel {
+  private options: KanbanModelOptions;
+  private eventBus: EventBus;
+  private stateManager: StateManager;
+  private storageManager: StorageManager | null;
+  private autosaver: Autosaver | null;
+  private sync: CrossTabSync | null;
+  private replica: Replica | null;
+  private websocket: WebSocketSync | null;
+  private history: HistoryManager | null;
+  private operationLog: OperationLog | null;
+  private migrations: MigrationRegistry;
+  private views: Set<KanbanView> = new Set();
+  private destroyed: boolean;
+
+  // Pending initial load from the storage adapter
+  private loading: boolean = false;
+  private loadPromise: Promise<void> = Promise.resolve();
+  // Saved state that could not be restored is kept until storage is cleared
+  private restoreFailed: boolean = false;
+
+  // Changes from other tabs received while loading, applied once loaded
+  private pendingRemote: Array<{ operations: KanbanOperation[]; origin: string }> = [];
+
+  // Set while API mutations emit card:drag:end so the drop handler does not apply them twice
+  private applyingApiMove: boolean = false;
+
+  // Batch/transaction bookkeeping
+  private batchDepth: number = 0;
+  private batchOperations: KanbanOperation[] = [];
+  private batchEvents: Array<{ event: keyof SaharosEventHandlers; data: unknown }> = [];
+  private batchNeedsRender: boolean = false;
+
+  // Moves awaiting onBeforeMove confirmation, keyed by card
+  private pendingMoves: Map<ID, symbol> = new Map();
+
+  // State the next state:change patch is diffed against
+  private changeBaseline: KanbanState;
+
+  // Bound so it can be removed again on destroy
+  private handleBeforeUnload = (): void => {
+    void this.flush();
+  };
+
+  constructor(options: KanbanModelOptions = {}) {
+    // Set default options
+    this.options = {
+      id: options.id ?? 'saharos-kanban',
+      storageKey: options.storageKey ?? null,
+      sortable: options.sortable ?? true,
+      debug: options.debug ?? false,
+      ...options,
+    };
+
+    // Initialize event bus
+    this.eventBus = new EventBus(this.options.debug);
+
+    // Register event handlers from options
+    if (this.options.on) {
+      Object.entries(this.options.on).forEach(([event, handler]) => {
+        if (handler) {
+          this.eventBus.on(event as never, handler as never);
+        }
+      });
+    }
+
+    this.migrations = new MigrationRegistry(this.options.migrations);
+
+    // Initialize storage if enabled - an explicit adapter wins over storageKey
+    this.storageManager = null;
+    if (this.options.storage) {
+      this.storageManager = new StorageManager(this.options.storage);
+    } else if (this.options.storageKey && StorageManager.isAvailable()) {
+      this.storageManager = new StorageManager(this.options.storageKey);
+    }
+
+    this.autosaver = null;
+    if (this.storageManager) {
+      this.autosaver = new Autosaver(
+        this.storageManager,
+        () => this.getSnapshot(),
+        this.options.autosave ?? {},
+        {
+          onSaved: (state) => this.eventBus.emit('storage:saved', { state }),
+          onError: (error) => this.eventBus.emit('storage:error', { error }),
+        }
+      );
+    }
+
+    // Start from the provided state; saved state is loaded asynchronously below
+    const initialState = this.prepareState(
+      this.options.initialState ?? {
+        lanes: this.options.lanes ?? [],
+        columns: this.options.columns ?? [],
+        cards: this.options.cards ?? [],
+      },
+      'options'
+    );
+
+    this.stateManager = new StateManager(initialState, { ordering: this.options.ordering });
+    this.changeBaseline = this.getSnapshot();
+    this.history =
+      this.options.history === false
+        ? null
+        : new HistoryManager(this.getSnapshot(), this.options.history);
+    this.operationLog = this.options.operationLog
+      ? new OperationLog(this.getSnapshot(), {
+          ...(this.options.operationLog === true ? {} : this.options.operationLog),
+          ordering: this.options.ordering,
+        })
+      : null;
+    this.destroyed = false;
+    this.loading = this.storageManager !== null;
+
+    // Apply drops and keyboard moves reported by views
+    this.setupMoveHandlers();
+
+    // Setup autosave - skipped while loading so defaults never overwrite saved state
+    if (this.autosaver) {
+      this.eventBus.on('state:change', () => {
+        if (this.loading || this.restoreFailed) return;
+        this.autosaver?.markDirty();
+      });
+    }
+
+    // Initialize plugins
+    if (this.options.plugins) {
+      this.options.plugins.forEach((plugin) => this.use(plugin));
+    }
+
+    // Emit ready event
+    this.eventBus.emit('board:ready');
+
+    // Share changes with other tabs
+    this.sync = null;
+    if (this.options.sync) {
+      const syncOptions = this.options.sync === true ? {} : this.options.sync;
+      const channel =
+        syncOptions.channel ?? `saharos-kanban:${this.options.storageKey ?? this.options.id}`;
+
+      this.sync = new CrossTabSync(channel, syncOptions, (operations, origin) => {
+        if (this.loading) {
+          this.pendingRemote.push({ operations, origin });
+          return;
+        }
+        this.applyOperations(operations, { origin });
+      });
+
+      // Remote changes never emit state:change, so nothing is echoed back
+      this.eventBus.on('state:change', (data) => {
+        const { operations } = data as { operations: KanbanOperation[] };
+        this.sync?.broadcast(operations);
+      });
+    }
+
+    // Merge edits with other replicas; remote changes arrive as patches
+    this.replica = null;
+    if (this.options.replica) {
+      const { transport, ...replicaOptions } = this.options.replica;
+      this.replica = new Replica(this.stateManager, transport, replicaOptions, (patch, origin) =>
+        this.applyPatch(patch, { origin })
+      );
+    }
+
+    // Restore saved state without blocking the constructor
+    if (this.storageManager) {
+      this.loadPromise = this.loadFromStorage(this.storageManager);
+    }
+
+    // Sync through a server; connecting waits for saved state so it is not overwritten
+    this.websocket = null;
+    if (this.options.websocket) {
+      this.websocket = new WebSocketSync(this.options.websocket, {
+        getState: () => this.getSnapshot(),
+        apply: (operations, origin) => this.applyOperations(operations, { origin }),
+        reapply: (operations) => this.reapplyOperations(operations),
+        onStatus: (status) => this.eventBus.emit('sync:status', { status }),
+        onPresence: (peer, left) => this.eventBus.emit('sync:presence', { ...peer, left }),
+      });
+      void this.loadPromise
+        .then(() => this.websocket?.connect())
+        .catch((error: unknown) => {
+          console.error('[Saharos] Failed to connect to the sync server:', error);
+          this.eventBus.emit('sync:error', { error });
+        });
+
+      this.eventBus.on('state:change', (data) => {
+        const { operations } = data as { operations: KanbanOperation[] };
+        this.websocket?.send(operations);
+      });
+      this.eventBus.on('a11y:focus:card', (data) => {
+        const { card } = data as { card: Card };
+        this.websocket?.setPresence({ cardId: card.id, mode: 'focus' });
+      });
+      this.eventBus.on('card:drag:start', (data) => {
+        const { card } = data as { card: Card };
+        this.websocket?.setPresence({ cardId: card.id, mode: 'drag' });
+      });
+      const endDrag = (data: unknown) => {
+        const { card } = data as { card: Card };
+        this.websocket?.setPresence({ cardId: card.id, mode: 'focus' });
+      };
+      this.eventBus.on('card:drag:end', endDrag);
+      this.eventBus.on('card:drag:cancel', endDrag);
+    }
+
+    // Save pending changes when the page goes away
+    if (this.autosaver && typeof window !== 'undefined') {
+      window.addEventListener('beforeunload', this.handleBeforeUnload);
+    }
+  }
+
+  /**
+   * Load the saved state from the storage adapter
+   * Views show a loading state until the adapter resolves. If the saved
+   * board cannot be restored, autosave stays off so it is not overwritten.
+   */
+  private async loadFromStorage(storageManager: StorageManager): Promise<void> {
+    const repair = this.options.validation?.mode === 'repair';
+    let savedState: KanbanState | null = null;
+    try {
+      savedState = await storageManager.load({
+        repair,
+        migrate: (state) => this.migrateState(state, 'storage'),
+      });
+      if (savedState) savedState = this.prepareState(savedState, 'storage');
+    } catch (error) {
+      console.error('[Saharos] Failed to restore saved state, autosave is disabled:', error);
+      savedState = null;
+      this.restoreFailed = true;
+      this.autosaver?.cancel();
+      this.eventBus.emit('storage:error', { error });
+    }
+    if (this.destroyed) return;
+
+    if (savedState) {
+      this.stateManager.setState(savedState);
+      // Loaded state is the new baseline - nothing before it can be undone
+      this.history?.reset(this.getSnapshot());
+      this.emitHistoryChange('clear');
+      this.rebase();
+    }
+
+    this.loading = false;
+    this.views.forEach((view) => view.render(true));
+    this.eventBus.emit('storage:load', {
+      state: this.getSnapshot(),
+      restored: savedState !== null,
+    });
+
+    // Other tabs may have changed the board while it was loading
+    const pending = this.pendingRemote;
+    this.pendingRemote = [];
+    pending.forEach(({ operations, origin }) => this.applyOperations(operations, { origin }));
+  }
+
+  /**
+   * Check if the model is still loading its saved state
+   */
+  isLoading(): boolean {
+    return this.loading;
+  }
+
+  /**
+   * Resolve once the saved state has been loaded (immediately without storage)
+   */
+  whenLoaded(): Promise<void> {
+    return this.loadPromise;
+  }
+
+  // ==================== View Methods ====================
+
+  /**
+   * Attach a view that reflects every change of the model
+   * Returns a function that detaches it again.
+   */
+  attachView(view: KanbanView): () => void {
+    this.views.add(view);
+    return () => {
+      this.views.delete(view);
+    };
+  }
+
+  /**
+   * Get the event bus (views emit their drag and keyboard events on it)
+   */
+  getEventBus(): EventBus {
+    return this.eventBus;
+  }
+
+  /**
+   * Get the options the model was created with
+   */
+  getOptions(): KanbanModelOptions {
+    return this.options;
+  }
+
+  /**
+   * Check the configured column rules for a card entering a column
+   * Returns the violated rule, or null if the column accepts the card.
+   */
+  checkMove(card: Card, toColumnId: ID): ColumnRuleViolation | null {
+    if (!this.options.columnRules) return null;
+    return checkColumnRules(
+      card,
+      toColumnId,
+      this.stateManager.getCards(toColumnId),
+      this.options.columnRules
+    );
+  }
+
+  /**
+   * Get the cards with a move awaiting onBeforeMove confirmation
+   */
+  getPendingMoves(): ID[] {
+    return Array.from(this.pendingMoves.keys());
+  }
+
+  // ==================== State Methods ====================
+
+  /**
+   * Get current state
+   */
+  getState(): KanbanState {
+    return this.stateManager.getState();
+  }
+
+  /**
+   * Get a frozen snapshot of the current state
+   * Unlike getState() this does not copy the board: unchanged cards, columns
+   * and lanes are shared between snapshots, so they can be compared by reference.
+   */
+  getSnapshot(): KanbanState {
+    return this.stateManager.getSnapshot();
+  }
+
+  /**
+   * Load a new state
+   */
+  loadState(state: KanbanState, opts?: { silent?: boolean }): void {
+    state = this.prepareState(state, 'loadState');
+    this.stateManager.setState(state);
+    this.renderViews();
+
+    if (!opts?.silent) {
+      this.commitChange({ type: 'state:load', state: this.getSnapshot() });
+    } else {
+      // Silent loads (e.g. plugin annotations) are folded into the current step
+      this.history?.replacePresent(this.getSnapshot());
+      this.rebase();
+    }
+  }
+
+  /**
+   * Apply serializable operations (e.g. from state:change payloads of another board)
+   * Views are patched incrementally for card operations. Operations that do not
+   * fit the current state are skipped; the applied ones are returned.
+   */
+  applyOperations(operations: KanbanOperation[], opts?: ApplyOperationsOptions): KanbanOperation[] {
+    const applied = operations.filter((op) => {
+      if (!applyOperation(this.stateManager, op)) return false;
+      this.patchViews([op]);
+      return true;
+    });
+    this.settleApplied(applied, 'apply', opts);
+    return applied;
+  }
+
+  /**
+   * Apply own operations again after remote ones were put underneath them
+   * They were already recorded when first made, so only the state, the views
+   * and the current undo step change: nothing is logged, sent or saved.
+   */
+  private reapplyOperations(operations: KanbanOperation[]): void {
+    const applied = operations.filter((op) => {
+      if (!applyOperation(this.stateManager, op)) return false;
+      this.patchViews([op]);
+      return true;
+    });
+    if (applied.length === 0) return;
+
+    this.history?.replacePresent(this.getSnapshot());
+    this.changeBaseline = this.getSnapshot();
+  }
+
+  /**
+   * Compute the JSON Patch that turns one state into another
+   * Entities are addressed by ID (`/cards/42/title`), so the patch can be
+   * applied to a board whose arrays are in a different order.
+   */
+  diff(prevState: KanbanState, nextState: KanbanState): JsonPatchOperation[] {
+    return diffStates(prevState, nextState);
+  }
+
+  /**
+   * Apply a JSON Patch (e.g. from the `patch` of another board's state:change)
+   * The patch is applied atomically: if an operation fails, an error is thrown
+   * and the board is left untouched. Card changes are patched into views
+   * incrementally. Returns the applied change described as operations.
+   */
+  applyPatch(patch: JsonPatchOperation[], opts?: ApplyOperationsOptions): KanbanOperation[] {
+    if (patch.length === 0) return [];
+
+    const before = this.getSnapshot();
+    this.stateManager.setState(patchState(before, patch));
+    const operations = operationsBetween(before, this.stateManager);
+    if (operations.length === 0 && diffStates(before, this.getSnapshot()).length > 0) {
+      // Only versions changed, which no finer operation describes
+      operations.push({ type: 'state:load', state: this.getSnapshot() });
+    }
+
+    this.patchViews(operations);
+    this.settleApplied(operations, 'patch', opts);
+    return operations;
+  }
+
+  // ==================== History Methods ====================
+
+  /**
+   * Revert the last mutation
+   */
+  undo(): boolean {
+    const snapshot = this.history?.undo();
+    if (!snapshot) return false;
+
+    this.restoreSnapshot(snapshot);
+    this.emitHistoryChange('undo');
+    return true;
+  }
+
+  /**
+   * Re-apply the last reverted mutation
+   */
+  redo(): boolean {
+    const snapshot = this.history?.redo();
+    if (!snapshot) return false;
+
+    this.restoreSnapshot(snapshot);
+    this.emitHistoryChange('redo');
+    return true;
+  }
+
+  /**
+   * Check if there is a mutation to undo
+   */
+  canUndo(): boolean {
+    return this.history?.canUndo() ?? false;
+  }
+
+  /**
+   * Check if there is a mutation to redo
+   */
+  canRedo(): boolean {
+    return this.history?.canRedo() ?? false;
+  }
+
+  /**
+   * Drop all undo/redo steps, keeping the current state
+   */
+  clearHistory(): void {
+    if (!this.history) return;
+    this.history.reset(this.getSnapshot());
+    this.emitHistoryChange('clear');
+  }
+
+  /**
+   * Get the operation log (null unless the `operationLog` option is set)
+   */
+  getOperationLog(): OperationLog | null {
+    return this.operationLog;
+  }
+
+  /**
+   * Get the presence of other users connected through the `websocket` option
+   */
+  getPresence(): RemotePresence[] {
+    return this.websocket?.getPeers() ?? [];
+  }
+
+  // ==================== Batch Methods ====================
+
+  /**
+   * Apply several mutations as one transaction
+   *
+   * All mutations made inside `fn` are rendered once, recorded as a single
+   * history step and reported by a single `state:change` whose `operations`
+   * lists every change. Item events (`card:add`, ...) are delivered when the
+   * batch commits. If `fn` throws, the board is rolled back and the error is
+   * rethrown. `fn` must be synchronous; nested batches join the outer one.
+   */
+  batch<T>(fn: (board: this) => T): T {
+    if (this.batchDepth > 0) {
+      return fn(this);
+    }
+
+    const snapshot = this.getSnapshot();
+    this.batchDepth = 1;
+
+    let result: T;
+    try {
+      result = fn(this);
+    } catch (error) {
+      this.batchDepth = 0;
+      this.batchOperations = [];
+      this.batchEvents = [];
+      this.batchNeedsRender = false;
+      this.stateManager.setState(snapshot);
+      this.renderViews();
+      throw error;
+    }
+
+    this.batchDepth = 0;
+    const operations = this.batchOperations;
+    const events = this.batchEvents;
+    this.batchOperations = [];
+    this.batchEvents = [];
+
+    if (this.batchNeedsRender) {
+      this.batchNeedsRender = false;
+      this.renderViews();
+    }
+
+    events.forEach(({ event, data }) => this.emitMutationEvent(event, data as never));
+
+    if (operations.length > 0) {
+      this.commitOperations(operations, 'batch');
+    }
+
+    return result;
+  }
+
+  /**
+   * Check if a batch is currently open
+   */
+  isBatching(): boolean {
+    return this.batchDepth > 0;
+  }
+
+  /**
+   * Re-render the attached views
+   */
+  refresh(): void {
+    this.renderViews();
+  }
+
+  /**
+   * Register an event handler
+   */
+  on<K extends keyof SaharosEventHandlers>(event: K, handler: SaharosEventHandlers[K]): void {
+    this.eventBus.on(event, handler as never);
+  }
+
+  /**
+   * Unregister an event handler
+   */
+  off<K extends keyof SaharosEventHandlers>(event: K, handler: SaharosEventHandlers[K]): void {
+    this.eventBus.off(event, handler as never);
+  }
+
+  /**
+   * Register a one-time event handler
+   */
+  once<K extends keyof SaharosEventHandlers>(event: K, handler: SaharosEventHandlers[K]): void {
+    this.eventBus.once(event, handler as never);
+  }
+
+  /**
+   * Emit an event (internal use)
+   */
+  private emit<K extends keyof SaharosEventHandlers>(
+    event: K,
+    data?: Parameters<SaharosEventHandlers[K]>[0]
+  ): void {
+    this.eventBus.emit(event, data);
+  }
+
+  /**
+   * Use a plugin
+   */
+  use(plugin: SaharosKanbanPlugin): void {
+    const context = {
+      board: this,
+      getState: () => this.getState(),
+      setState: (state: KanbanState, opts?: { silent?: boolean }) => this.loadState(state, opts),
+      on: this.on.bind(this),
+      off: this.off.bind(this),
+      emit: this.emit.bind(this),
+      registerMigration: (migration: StateMigration) => this.registerMigration(migration),
+      options: this.options,
+    };
+    plugin(context);
+  }
+
+  /**
+   * Register a state migration
+   * The current board is upgraded right away; saved state is upgraded when it loads.
+   */
+  registerMigration(migration: StateMigration): void {
+    this.migrations.register(migration);
+    if (this.loading) return;
+
+    const current = this.getSnapshot();
+    const migrated = this.migrateState(current, 'register');
+    if (migrated === current) return;
+
+    this.stateManager.setState(migrated);
+    this.history?.replacePresent(this.getSnapshot());
+    this.rebase();
+    this.renderViews();
+  }
+
+  /**
+   * Update options
+   */
+  setOptions(patch: Partial<KanbanModelOptions>): void {
+    this.options = { ...this.options, ...patch };
+  }
+
+  // ==================== Card CRUD Methods ====================
+
+  /**
+   * Add a new card
+   * Returns null if `card:add:before` vetoes it or a column rule rejects it.
+   */
+  addCard(card: Omit<Card, 'order'>, opts?: AddItemOptions): Card | null {
+    const request = { card: { ...card } as Card, index: opts?.index };
+    if (!this.eventBus.emitCancelable('card:add:before', request)) return null;
+    card = request.card;
+
+    // Validate required fields
+    if (!card.title || (typeof card.title === 'string' && card.title.trim().length === 0)) {
+      throw new Error('[Saharos] Card must have a non-empty title');
+    }
+    if (
+      card.id === undefined ||
+      card.id === null ||
+      (typeof card.id === 'string' && card.id.length === 0)
+    ) {
+      throw new Error('[Saharos] Card must have a valid ID');
+    }
+    if (!card.columnId || (typeof card.columnId === 'string' && card.columnId.length === 0)) {
+      throw new Error('[Saharos] Card must have a valid columnId');
+    }
+
+    const violation = this.checkMove(card as Card, card.columnId);
+    const toColumn = this.stateManager.getColumn(card.columnId);
+    if (violation && toColumn) {
+      this.eventBus.emit('card:add:rejected', {
+        card: card as Card,
+        to: toColumn,
+        reason: violation,
+      });
+      return null;
+    }
+
+    const newCard = this.stateManager.addCard(card as Card, request.index);
+    const operation: KanbanOperation = {
+      type: 'card:add',
+      card: { ...newCard },
+      index: request.index,
+    };
+    this.patchViews([operation]);
+
+    this.emitMutationEvent('card:add', { card: newCard });
+    this.commitChange(operation);
+    return newCard;
+  }
+
+  /**
+   * Update an existing card
+   */
+  updateCard(cardId: ID, patch: Partial<Card>, opts?: UpdateItemOptions): Card | null {
+    if (!this.stateManager.getCard(cardId)) return null;
+
+    const request = { cardId, patch: { ...patch } };
+    if (!this.eventBus.emitCancelable('card:update:before', request)) return null;
+    patch = request.patch;
+
+    const updatedCard = this.stateManager.updateCard(cardId, patch);
+    if (updatedCard) {
+      const operation: KanbanOperation = { type: 'card:update', cardId, patch: { ...patch } };
+      this.patchViews([operation]);
+
+      this.emitMutationEvent('card:update', { card: updatedCard });
+      this.commitChange(operation, opts?.mergeKey);
+    }
+    return updatedCard;
+  }
+
+  /**
+   * Remove a card
+   */
+  removeCard(cardId: ID): boolean {
+    const card = this.stateManager.getCard(cardId);
+    if (!card) return false;
+    if (!this.eventBus.emitCancelable('card:remove:before', { card: { ...card } })) return false;
+
+    const success = this.stateManager.removeCard(cardId);
+    if (success) {
+      const operation: KanbanOperation = { type: 'card:remove', cardId };
+      this.patchViews([operation]);
+
+      this.emitMutationEvent('card:remove', { cardId });
+      this.commitChange(operation);
+    }
+    return success;
+  }
+
+  /**
+   * Move a card to a new column/lane/position
+   */
+  moveCard(
+    cardId: ID,
+    to: { columnId: ID; laneId?: ID | null; index?: number },
+    opts?: MoveCardOptions
+  ): boolean {
+    return this.applyMove(cardId, to, opts?.cause ?? 'api');
+  }
+
+  // ==================== Column CRUD Methods ====================
+
+  /**
+   * Add a new column
+   */
+  addColumn(column: Column, opts?: AddItemOptions): Column | null {
+    const request = { column: { ...column }, index: opts?.index };
+    if (!this.eventBus.emitCancelable('column:add:before', request)) return null;
+    column = request.column;
+
+    // Validate required fields
+    if (!column.title || (typeof column.title === 'string' && column.title.trim().length === 0)) {
+      throw new Error('[Saharos] Column must have a non-empty title');
+    }
+    if (
+      column.id === undefined ||
+      column.id === null ||
+      (typeof column.id === 'string' && column.id.length === 0)
+    ) {
+      throw new Error('[Saharos] Column must have a valid ID');
+    }
+
+    const newColumn = this.stateManager.addColumn(column, request.index);
+    this.renderViews();
+    this.emitMutationEvent('column:add', { column: newColumn });
+    this.commitChange({ type: 'column:add', column: { ...newColumn }, index: request.index });
+    return newColumn;
+  }
+
+  /**
+   * Update an existing column
+   */
+  updateColumn(columnId: ID, patch: Partial<Column>, opts?: UpdateItemOptions): Column | null {
+    if (!this.stateManager.getColumn(columnId)) return null;
+
+    const request = { columnId, patch: { ...patch } };
+    if (!this.eventBus.emitCancelable('column:update:before', request)) return null;
+    patch = request.patch;
+
+    const updatedColumn = this.stateManager.updateColumn(columnId, patch);
+    if (updatedColumn) {
+      this.renderViews();
+      this.emitMutationEvent('column:update', { column: updatedColumn });
+      this.commitChange({ type: 'column:update', columnId, patch: { ...patch } }, opts?.mergeKey);
+    }
+    return updatedColumn;
+  }
+
+  /**
+   * Remove a column
+   * Its cards are removed too unless another policy is given; returns false
+   * if the policy refuses the removal.
+   */
+  removeColumn(columnId: ID, opts?: RemoveColumnOptions): boolean {
+    const column = this.stateManager.getColumn(columnId);
+    if (!column) return false;
+
+    const request = { column: { ...column }, policy: opts?.policy ?? ('cascade' as RemovalPolicy) };
+    if (!this.eventBus.emitCancelable('column:remove:before', request)) return false;
+    const policy = request.policy;
+
+    const cardIds = this.stateManager.getCards(columnId).map((card) => card.id);
+    const success = this.stateManager.removeColumn(columnId, policy);
+    if (success) {
+      this.renderViews();
+      this.emitMutationEvent('column:remove', { columnId, policy, cardIds });
+      this.commitChange({ type: 'column:remove', columnId, policy });
+    }
+    return success;
+  }
+
+  /**
+   * Move a column to a new position
+   */
+  moveColumn(columnId: ID, toIndex: number): boolean {
+    const column = this.stateManager.getColumn(columnId);
+    if (!column) return false;
+
+    const request = { column: { ...column }, toIndex };
+    if (!this.eventBus.emitCancelable('column:move:before', request)) return false;
+    toIndex = request.toIndex;
+
+    // Update column order
+    const updatedColumn = this.stateManager.updateColumn(columnId, { order: toIndex });
+    if (updatedColumn) {
+      this.renderViews();
+      this.emitMutationEvent('column:move', { column: updatedColumn, toIndex });
+      this.commitChange({ type: 'column:move', columnId, toIndex });
+      return true;
+    }
+    return false;
+  }
+
+  // ==================== Lane CRUD Methods ====================
+
+  /**
+   * Add a new lane
+   */
+  addLane(lane: Lane, opts?: AddItemOptions): Lane | null {
+    const request = { lane: { ...lane }, index: opts?.index };
+    if (!this.eventBus.emitCancelable('lane:add:before', request)) return null;
+    lane = request.lane;
+
+    // Validate required fields
+    if (!lane.title || (typeof lane.title === 'string' && lane.title.trim().length === 0)) {
+      throw new Error('[Saharos] Lane must have a non-empty title');
+    }
+    if (
+      lane.id === undefined ||
+      lane.id === null ||
+      (typeof lane.id === 'string' && lane.id.length === 0)
+    ) {
+      throw new Error('[Saharos] Lane must have a valid ID');
+    }
+
+    const newLane = this.stateManager.addLane(lane, request.index);
+    this.renderViews();
+    this.emitMutationEvent('lane:add', { lane: newLane });
+    this.commitChange({ type: 'lane:add', lane: { ...newLane }, index: request.index });
+    return newLane;
+  }
+
+  /**
+   * Update an existing lane
+   */
+  updateLane(laneId: ID, patch: Partial<Lane>, opts?: UpdateItemOptions): Lane | null {
+    if (!this.stateManager.getLane(laneId)) return null;
+
+    const request = { laneId, patch: { ...patch } };
+    if (!this.eventBus.emitCancelable('lane:update:before', request)) return null;
+    patch = request.patch;
+
+    const updatedLane = this.stateManager.updateLane(laneId, patch);
+    if (updatedLane) {
+      this.renderViews();
+      this.emitMutationEvent('lane:update', { lane: updatedLane });
+      this.commitChange({ type: 'lane:update', laneId, patch: { ...patch } }, opts?.mergeKey);
+    }
+    return updatedLane;
+  }
+
+  /**
+   * Remove a lane
+   * Its columns and cards are removed too unless another policy is given;
+   * returns false if the policy refuses the removal.
+   */
+  removeLane(laneId: ID, opts?: RemoveLaneOptions): boolean {
+    const lane = this.stateManager.getLane(laneId);
+    if (!lane) return false;
+
+    const request = { lane: { ...lane }, policy: opts?.policy ?? ('cascade' as LaneRemovalPolicy) };
+    if (!this.eventBus.emitCancelable('lane:remove:before', request)) return false;
+    const policy = request.policy;
+
+    const { columnIds, cardIds } = this.stateManager.getLaneDependents(laneId);
+    const success = this.stateManager.removeLane(laneId, policy);
+    if (success) {
+      this.renderViews();
+      this.emitMutationEvent('lane:remove', { laneId, policy, columnIds, cardIds });
+      this.commitChange({ type: 'lane:remove', laneId, policy });
+    }
+    return success;
+  }
+
+  /**
+   * Move a lane to a new position
+   */
+  moveLane(laneId: ID, toIndex: number): boolean {
+    const lane = this.stateManager.getLane(laneId);
+    if (!lane) return false;
+
+    const request = { lane: { ...lane }, toIndex };
+    if (!this.eventBus.emitCancelable('lane:move:before', request)) return false;
+    toIndex = request.toIndex;
+
+    // Update lane order
+    const updatedLane = this.stateManager.updateLane(laneId, { order: toIndex });
+    if (updatedLane) {
+      this.renderViews();
+      this.emitMutationEvent('lane:move', { lane: updatedLane, toIndex });
+      this.commitChange({ type: 'lane:move', laneId, toIndex });
+      return true;
+    }
+    return false;
+  }
+
+  // ==================== Storage Methods ====================
+
+  /**
+   * Check if there are changes that have not been saved yet
+   */
+  isDirty(): boolean {
+    return this.autosaver?.isDirty() ?? false;
+  }
+
+  /**
+   * Save pending changes immediately instead of waiting for the autosave delay
+   * Resolves to false if the save failed (see the `storage:error` event).
+   */
+  flush(): Promise<boolean> {
+    return this.autosaver?.flush() ?? Promise.resolve(true);
+  }
+
+  /**
+   * Clear saved state from the storage adapter
+   * Re-enables autosave if it was turned off because restoring failed.
+   */
+  clearStorage(): Promise<boolean> {
+    if (!this.storageManager) return Promise.resolve(false);
+    return this.storageManager.clear().then((cleared) => {
+      // Nothing is left to protect, so autosave may resume
+      if (cleared) this.restoreFailed = false;
+      return cleared;
+    });
+  }
+
+  /**
+   * Get state manager (for advanced use)
+   */
+  getStateManager(): StateManager {
+    return this.stateManager;
+  }
+
+  /**
+   * Destroy the model
+   * Stops syncing, saves pending changes and removes all event handlers.
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+
+    this.eventBus.emit('board:destroy');
+
+    if (this.sync) {
+      this.sync.destroy();
+      this.sync = null;
+    }
+
+    if (this.replica) {
+      this.replica.destroy();
+      this.replica = null;
+    }
+
+    if (this.websocket) {
+      this.websocket.destroy();
+      this.websocket = null;
+    }
+
+    // Persist anything still waiting for the autosave delay
+    if (this.autosaver) {
+      void this.autosaver.flush();
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('beforeunload', this.handleBeforeUnload);
+      }
+    }
+
+    this.views.clear();
+    this.eventBus.clear();
+    this.destroyed = true;
+  }
+
+  /**
+   * Check if the model is destroyed
+   */
+  isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  /**
+   * Apply pointer drops and keyboard moves
+   * Views report them as card:drag:end and a11y:move:card events.
+   */
+  private setupMoveHandlers(): void {
+    this.eventBus.on('card:drag:end', (data) => {
+      // Already applied by moveCard()
+      if (this.applyingApiMove) return;
+
+      const { card, to, index, laneId } = data as {
+        card: Card;
+        to: Column;
+        index: number;
+        laneId?: ID | null;
+      };
+      this.applyMove(
+        card.id,
+        { columnId: to.id, laneId: laneId !== undefined ? laneId : card.laneId, index },
+        'pointer'
+      );
+    });
+
+    this.eventBus.on('a11y:move:card', (data) => {
+      const { card, to, index } = data as { card: Card; to: Column; index: number };
+      this.applyMove(card.id, { columnId: to.id, laneId: card.laneId, index }, 'keyboard');
+    });
+  }
+
+  /**
+   * Apply a card move from any source (API, pointer drop, keyboard drop)
+   *
+   * Pointer and keyboard moves honour the `sortable` option: when it is off,
+   * cards cannot be reordered within their column and are appended elsewhere.
+   */
+  private applyMove(
+    cardId: ID,
+    to: { columnId: ID; laneId?: ID | null; index?: number },
+    cause: 'api' | 'pointer' | 'keyboard'
+  ): boolean {
+    const card = this.stateManager.getCard(cardId);
+    if (!card) return false;
+
+    const fromColumn = this.stateManager.getColumn(card.columnId);
+    if (!this.stateManager.getColumn(to.columnId)) return false;
+
+    let laneId = to.laneId !== undefined ? to.laneId : card.laneId;
+    const sameContainer = card.columnId === to.columnId && card.laneId === laneId;
+    let index = to.index;
+
+    if (cause !== 'api' && !this.options.sortable) {
+      if (sameContainer) return false;
+      index = undefined;
+    }
+
+    // Dropped where it already is
+    if (
+      sameContainer &&
+      (index === undefined || index === this.stateManager.getCardIndex(cardId))
+    ) {
+      return true;
+    }
+
+    // Let listeners veto the move or rewrite its target
+    const request = { card: { ...card }, from: fromColumn, to: { ...to, laneId, index }, cause };
+    if (!this.eventBus.emitCancelable('card:move:before', request)) {
+      const vetoedColumn = this.stateManager.getColumn(request.to.columnId);
+      if (vetoedColumn) {
+        this.eventBus.emit('card:move:rejected', {
+          card,
+          from: fromColumn,
+          to: vetoedColumn,
+          reason: 'cancelled',
+          cause,
+        });
+      }
+      return false;
+    }
+    to = request.to;
+    laneId = to.laneId !== undefined ? to.laneId : card.laneId;
+    index = to.index;
+
+    const toColumn = this.stateManager.getColumn(to.columnId);
+    if (!toColumn) return false;
+
+    const violation = this.checkMove(card, to.columnId);
+    if (violation) {
+      this.eventBus.emit('card:move:rejected', {
+        card,
+        from: fromColumn,
+        to: toColumn,
+        reason: violation,
+        cause,
+      });
+      return false;
+    }
+
+    const origin = {
+      columnId: card.columnId,
+      laneId: card.laneId,
+      index: this.stateManager.getCardIndex(cardId),
+    };
+    const success = this.stateManager.moveCard(cardId, to.columnId, laneId, index);
+    if (!success) return false;
+
+    const movedCard = this.stateManager.getCard(cardId);
+    if (!movedCard) return false;
+    const finalIndex = this.stateManager.getCardIndex(cardId);
+    const operation: KanbanOperation = {
+      type: 'card:move',
+      cardId,
+      to: { columnId: to.columnId, laneId: movedCard.laneId, index: finalIndex },
+    };
+    this.patchViews([operation]);
+
+    // Only emit drag event if caused by API call (pointer/keyboard emitted their own)
+    if (cause === 'api' && fromColumn) {
+      this.emitMutationEvent('card:drag:end', {
+        card: movedCard,
+        from: fromColumn,
+        to: toColumn,
+        index: finalIndex,
+        laneId: movedCard.laneId,
+      });
+    }
+
+    // Steps recorded from here on contain the move, should it be declined
+    const historyPosition = this.history?.getPosition() ?? 0;
+    this.commitChange(operation);
+
+    if (this.options.onBeforeMove) {
+      this.confirmMove(
+        {
+          card: { ...movedCard },
+          from: fromColumn,
+          to: toColumn,
+          index: finalIndex,
+          laneId: movedCard.laneId,
+          cause,
+        },
+        origin,
+        historyPosition
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Await the onBeforeMove guard for an optimistically applied move
+   * and roll it back if the guard declines or fails
+   */
+  private confirmMove(
+    ctx: MoveContext,
+    origin: { columnId: ID; laneId?: ID | null; index: number },
+    historyPosition: number
+  ): void {
+    const guard = this.options.onBeforeMove;
+    if (!guard) return;
+
+    const cardId = ctx.card.id;
+    const token = Symbol('pending-move');
+    this.pendingMoves.set(cardId, token);
+    this.views.forEach((view) => view.setCardPending(cardId, true));
+
+    const settle = (accepted: boolean, error?: unknown) => {
+      if (this.destroyed) return;
+
+      // A newer move of the same card owns the pending state
+      if (this.pendingMoves.get(cardId) === token) {
+        this.pendingMoves.delete(cardId);
+        this.views.forEach((view) => view.setCardPending(cardId, false));
+      }
+
+      if (!accepted) {
+        this.rollbackMove(ctx, origin, historyPosition, error);
+      }
+    };
+
+    Promise.resolve()
+      .then(() => guard(ctx))
+      .then(
+        (accepted) => settle(accepted !== false),
+        (error: unknown) => settle(false, error)
+      );
+  }
+
+  /**
+   * Put a card back where it was before a declined move
+   */
+  private rollbackMove(
+    ctx: MoveContext,
+    origin: { columnId: ID; laneId?: ID | null; index: number },
+    historyPosition: number,
+    error?: unknown
+  ): void {
+    const cardId = ctx.card.id;
+    const card = this.stateManager.getCard(cardId);
+
+    // Only roll back if nothing else moved the card in the meantime
+    if (!card || card.columnId !== ctx.to.id || card.laneId !== ctx.laneId) return;
+
+    const success = this.stateManager.moveCard(
+      cardId,
+      origin.columnId,
+      origin.laneId,
+      origin.index
+    );
+    if (!success) return;
+
+    const restoredCard = this.stateManager.getCard(cardId);
+    if (!restoredCard) return;
+    const restoredIndex = this.stateManager.getCardIndex(cardId);
+    const operation: KanbanOperation = {
+      type: 'card:move',
+      cardId,
+      to: { columnId: origin.columnId, laneId: restoredCard.laneId, index: restoredIndex },
+    };
+    this.patchViews([operation]);
+
+    this.eventBus.emit('card:move:rollback', {
+      card: restoredCard,
+      from: ctx.from,
+      to: ctx.to,
+      error,
+    });
+
+    // The declined move never happened as far as undo is concerned: take it out
+    // of the steps recorded since, dropping the move's own step
+    if (this.history) {
+      this.history.revise(
+        historyPosition,
+        (snapshot) => {
+          const replay = new StateManager(snapshot, { ordering: this.options.ordering });
+          const moved = replay.getCard(cardId);
+          if (!moved || moved.columnId !== ctx.to.id || moved.laneId !== ctx.laneId) {
+            return snapshot;
+          }
+          replay.moveCard(cardId, origin.columnId, origin.laneId, origin.index);
+          return replay.getSnapshot();
+        },
+        (a, b) => diffStates(a, b).length === 0
+      );
+      this.history.replacePresent(this.getSnapshot());
+      this.emitHistoryChange('record');
+    }
+    this.emitStateChange([operation]);
+  }
+
+  /**
+   * Re-render the attached views, or once when the open batch commits
+   */
+  private renderViews(): void {
+    if (this.batchDepth > 0) {
+      this.batchNeedsRender = true;
+      return;
+    }
+    this.views.forEach((view) => view.render());
+  }
+
+  /**
+   * Reflect applied operations in the attached views
+   * Card operations are patched in place; structural ones re-render.
+   */
+  private patchViews(operations: KanbanOperation[]): void {
+    if (this.batchDepth > 0 || operations.some((op) => !op.type.startsWith('card:'))) {
+      this.renderViews();
+      return;
+    }
+    this.views.forEach((view) => view.patch(operations));
+  }
+
+  /**
+   * Record a completed mutation, or queue it while a batch is open
+   */
+  private commitChange(operation: KanbanOperation, mergeKey?: string): void {
+    if (this.batchDepth > 0) {
+      this.batchOperations.push(operation);
+      return;
+    }
+    this.commitOperations([operation], operation.type, mergeKey);
+  }
+
+  /**
+   * Record operations in history and notify listeners with a single state:change
+   */
+  private commitOperations(operations: KanbanOperation[], label: string, mergeKey?: string): void {
+    if (this.history) {
+      this.history.record(this.getSnapshot(), label, mergeKey);
+      this.emitHistoryChange('record');
+    }
+    this.emitStateChange(operations);
+  }
+
+  /**
+   * Notify listeners of a change, with the patch since the previous notification
+   */
+  private emitStateChange(operations: KanbanOperation[]): void {
+    const state = this.getSnapshot();
+    const patch = diffStates(this.changeBaseline, state);
+    this.changeBaseline = state;
+    this.operationLog?.append(operations);
+    this.replica?.commit();
+    this.eventBus.emit('state:change', { state, operations, patch });
+  }
+
+  /**
+   * Take in a change that state:change does not report (silent loads,
+   * migrations, restored saves) so later patches and log entries build on it
+   */
+  private rebase(): void {
+    const state = this.getSnapshot();
+    this.changeBaseline = state;
+    this.operationLog?.append([{ type: 'state:load', state }]);
+    this.replica?.commit();
+  }
+
+  /**
+   * Record operations applied through applyOperations/applyPatch
+   * Local changes are committed; remote ones are folded into history instead.
+   */
+  private settleApplied(
+    applied: KanbanOperation[],
+    label: string,
+    opts?: ApplyOperationsOptions
+  ): void {
+    if (applied.length === 0) return;
+
+    if (opts?.origin === undefined) {
+      if (this.batchDepth > 0) {
+        this.batchOperations.push(...applied);
+      } else {
+        this.commitOperations(
+          applied,
+          applied.length === 1 && applied[0] ? applied[0].type : label
+        );
+      }
+      return;
+    }
+
+    // Fold remote changes into every snapshot so undo only reverts local edits
+    if (this.history) {
+      this.history.transform((snapshot) => {
+        const replay = new StateManager(snapshot, { ordering: this.options.ordering });
+        applyOperations(replay, applied);
+        return replay.getSnapshot();
+      });
+      this.history.replacePresent(this.getSnapshot());
+    }
+    this.changeBaseline = this.getSnapshot();
+    this.operationLog?.append(applied, { origin: opts.origin });
+
+    this.eventBus.emit('sync:remote-change', { operations: applied, origin: opts.origin });
+  }
+
+  /**
+   * Emit an item event, or queue it until the open batch commits
+   */
+  private emitMutationEvent<K extends keyof SaharosEventHandlers>(
+    event: K,
+    data: Parameters<SaharosEventHandlers[K]>[0]
+  ): void {
+    if (this.batchDepth > 0) {
+      this.batchEvents.push({ event, data });
+      return;
+    }
+
+    // API mutations are already applied; keep the drop handler from re-applying them
+    this.applyingApiMove = true;
+    try {
+      this.eventBus.emit(event, data);
+    } finally {
+      this.applyingApiMove = false;
+    }
+  }
+
+  /**
+   * Upgrade a state to the current schema and report the applied steps
+   */
+  private migrateState(
+    state: KanbanState,
+    source: 'options' | 'loadState' | 'storage' | 'register'
+  ): KanbanState {
+    const { state: migrated, steps } = this.migrations.migrate(state);
+    if (steps.length === 0) return state;
+
+    this.eventBus.emit('state:migrated', { steps, source });
+    return migrated;
+  }
+
+  /**
+   * Validate state entering the board and apply the configured validation mode
+   * Returns the state to load; throws in 'strict' mode if it has errors.
+   */
+  private prepareState(
+    state: KanbanState,
+    source: 'options' | 'loadState' | 'storage'
+  ): KanbanState {
+    state = this.migrateState(state, source);
+    const report = validateState(state);
+    if (report.errors.length === 0 && report.warnings.length === 0) return state;
+
+    const { mode = 'warn', ...repairOptions } = this.options.validation ?? {};
+
+    if (mode === 'repair') {
+      console.warn('[Saharos] Repaired invalid board state:', [
+        ...report.errors,
+        ...report.warnings,
+      ]);
+      this.eventBus.emit('state:integrity', { report, source, repaired: true });
+      return repairState(state, repairOptions);
+    }
+
+    this.eventBus.emit('state:integrity', { report, source, repaired: false });
+
+    if (mode === 'strict' && !report.valid) {
+      const [first] = report.errors;
+      const more = report.errors.length > 1 ? ` (and ${report.errors.length - 1} more)` : '';
+      throw new Error(`[Saharos] Invalid board state: ${first?.message ?? 'unknown error'}${more}`);
+    }
+
+    console.warn('[Saharos] Board state has integrity issues:', [
+      ...report.errors,
+      ...report.warnings,
+    ]);
+    return state;
+  }
+
+  /**
+   * Restore a history snapshot without recording a new step
+   */
+  private restoreSnapshot(snapshot: KanbanState): void {
+    const before = this.getSnapshot();
+    // Snapshots are frozen, so the state manager can adopt their entities as they are
+    this.stateManager.setState(snapshot);
+    this.renderViews();
+
+    // Report the detailed change so syncs (e.g. REST) can replay it
+    const operations = operationsBetween(before, this.stateManager);
+    if (operations.length === 0 && diffStates(before, this.getSnapshot()).length > 0) {
+      operations.push({ type: 'state:load', state: this.getSnapshot() });
+    }
+    if (operations.length > 0) this.emitStateChange(operations);
+  }
+
+  /**
+   * Notify listeners that undo/redo availability may have changed
+   */
+  private emitHistoryChange(action: 'record' | 'undo' | 'redo' | 'clear'): void {
+    this.eventBus.emit('history:change', {
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+      action,
+    });
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Saharos Kanban - Operation Application
+ * Replays serializable KanbanOperations against a StateManager
+ */
+
+import type { KanbanOperation, KanbanState } from './types';
+import type { StateManager } from './state';
+
+/**
+ * Apply a single operation to the state
+ * Returns false if the operation does not fit the current state (e.g. the
+ * card it targets no longer exists); the state is left untouched in that case.
+ * No events, rules or before-hooks are involved - callers own those.
+ */
+export function applyOperation(stateManager: StateManager, op: KanbanOperation): boolean {
+  switch (op.type) {
+    case 'card:add':
+      if (stateManager.getCard(op.card.id) || !stateManager.getColumn(op.card.columnId)) {
+        return false;
+      }
+      stateManager.addCard({ ...op.card }, op.index);
+      return true;
+
+    case 'card:update':
+      return stateManager.updateCard(op.cardId, { ...op.patch }) !== null;
+
+    case 'card:remove':
+      return stateManager.removeCard(op.cardId);
+
+    case 'card:move':
+      if (!stateManager.getColumn(op.to.columnId)) return false;
+      return stateManager.moveCard(op.cardId, op.to.columnId, op.to.laneId, op.to.index);
+
+    case 'column:add':
+      if (stateManager.getColumn(op.column.id)) return false;
+      stateManager.addColumn({ ...op.column }, op.index);
+      return true;
+
+    case 'column:update':
+      return stateManager.updateColumn(op.columnId, { ...op.patch }) !== null;
+
+    case 'column:remove':
+      return stateManager.removeColumn(op.columnId, op.policy);
+
+    case 'column:move':
+      return stateManager.updateColumn(op.columnId, { order: op.toIndex }) !== null;
+
+    case 'lane:add':
+      if (stateManager.getLane(op.lane.id)) return false;
+      stateManager.addLane({ ...op.lane }, op.index);
+      return true;
+
+    case 'lane:update':
+      return stateManager.updateLane(op.laneId, { ...op.patch }) !== null;
+
+    case 'lane:remove':
+      return stateManager.removeLane(op.laneId, op.policy);
+
+    case 'lane:move':
+      return stateManager.updateLane(op.laneId, { order: op.toIndex }) !== null;
+
+    case 'state:load':
+      stateManager.setState(JSON.parse(JSON.stringify(op.state)) as KanbanState);
+      return true;
+  }
+}
+
+/**
+ * Apply operations in order, returning the ones that were applied
+ */
+export function applyOperations(
+  stateManager: StateManager,
+  operations: KanbanOperation[]
+): KanbanOperation[] {
+  return operations.filter((op) => applyOperation(stateManager, op));
+}
@@ -0,0 +1,258 @@
+/**
+ * Saharos Kanban - Card Ordering
+ * Fractional order keys and helpers shared by both ordering modes
+ *
+ * Fractional keys are base-62 strings that sort lexicographically: a key can
+ * always be generated between two others, so placing a card only changes that
+ * card. Keys are made of an integer part, whose length is encoded by its first
+ * character ('a0', 'a1', ..., 'b00'), and an optional fraction. The scheme is
+ * the one popularized by Figma and the `fractional-indexing` package.
+ */
+
+import type { Card, CardOrdering, ID } from './types';
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ZERO = '0';
+const SMALLEST_INTEGER = 'A' + ZERO.repeat(26);
+
+/**
+ * Compare two card orders
+ * Numbers compare numerically and keys lexicographically (by code unit, not
+ * locale); numeric orders sort before keys and missing orders count as 0.
+ */
+export function compareOrder(a?: number | string, b?: number | string): number {
+  const left = a ?? 0;
+  const right = b ?? 0;
+
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  if (typeof left === 'number') return -1;
+  if (typeof right === 'number') return 1;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Check whether a value is a well-formed fractional order key
+ */
+export function isOrderKey(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length === 0 || value === SMALLEST_INTEGER) return false;
+  if ([...value].some((char) => !DIGITS.includes(char))) return false;
+
+  const length = getIntegerLength(value.charAt(0));
+  if (length === null || length > value.length) return false;
+  return !value.slice(length).endsWith(ZERO);
+}
+
+/**
+ * Generate a key that sorts between `a` and `b`
+ * Pass null for an open end. Throws if a key is malformed or `a` >= `b`.
+ */
+export function generateKeyBetween(a: string | null, b: string | null): string {
+  if (a !== null) assertOrderKey(a);
+  if (b !== null) assertOrderKey(b);
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`[Saharos] Order key "${a}" must sort before "${b}"`);
+  }
+
+  if (a === null) {
+    if (b === null) return 'a' + ZERO;
+
+    const intB = getIntegerPart(b);
+    const fracB = b.slice(intB.length);
+    if (intB === SMALLEST_INTEGER) return intB + midpoint('', fracB);
+    if (intB < b) return intB;
+
+    const decremented = decrementInteger(intB);
+    if (decremented === null) {
+      throw new Error('[Saharos] Cannot generate an order key before this one');
+    }
+    return decremented;
+  }
+
+  const intA = getIntegerPart(a);
+  const fracA = a.slice(intA.length);
+
+  if (b === null) {
+    const incremented = incrementInteger(intA);
+    return incremented === null ? intA + midpoint(fracA, null) : incremented;
+  }
+
+  const intB = getIntegerPart(b);
+  const fracB = b.slice(intB.length);
+  if (intA === intB) return intA + midpoint(fracA, fracB);
+
+  const incremented = incrementInteger(intA);
+  if (incremented === null) {
+    throw new Error('[Saharos] Cannot generate an order key after this one');
+  }
+  return incremented < b ? incremented : intA + midpoint(fracA, null);
+}
+
+/**
+ * Generate `count` ascending keys between `a` and `b`
+ * Keys are spread evenly so they stay short.
+ */
+export function generateNKeysBetween(a: string | null, b: string | null, count: number): string[] {
+  if (count <= 0) return [];
+  if (count === 1) return [generateKeyBetween(a, b)];
+
+  if (b === null) {
+    const keys: string[] = [];
+    let key = a;
+    for (let i = 0; i < count; i++) {
+      key = generateKeyBetween(key, null);
+      keys.push(key);
+    }
+    return keys;
+  }
+
+  if (a === null) {
+    const keys: string[] = [];
+    let key: string = b;
+    for (let i = 0; i < count; i++) {
+      key = generateKeyBetween(null, key);
+      keys.push(key);
+    }
+    return keys.reverse();
+  }
+
+  const half = Math.floor(count / 2);
+  const middle = generateKeyBetween(a, b);
+  return [
+    ...generateNKeysBetween(a, middle, half),
+    middle,
+    ...generateNKeysBetween(middle, b, count - half - 1),
+  ];
+}
+
+/**
+ * Convert card orders to the given ordering mode
+ *
+ * Cards of a column/lane whose orders do not fit the mode are renumbered
+ * (0, 1, 2, ... or fresh keys), keeping their current relative order. Cards
+ * that already fit are returned as they are, so the conversion runs once.
+ */
+export function convertCardOrders(cards: Card[], ordering: CardOrdering): Card[] {
+  const fits = (card: Card) =>
+    ordering === 'fractional' ? isOrderKey(card.order) : typeof card.order === 'number';
+
+  const groups = new Map<ID, Map<ID | null | undefined, Card[]>>();
+  cards.forEach((card) => {
+    const lanes = groups.get(card.columnId) ?? new Map<ID | null | undefined, Card[]>();
+    groups.set(card.columnId, lanes);
+    lanes.set(card.laneId, [...(lanes.get(card.laneId) ?? []), card]);
+  });
+
+  const converted = new Map<Card, Card>();
+  groups.forEach((lanes) =>
+    lanes.forEach((group) => {
+      if (group.every(fits)) return;
+
+      const sorted = [...group].sort((a, b) => compareOrder(a.order, b.order));
+      const orders =
+        ordering === 'fractional'
+          ? generateNKeysBetween(null, null, sorted.length)
+          : sorted.map((_, index) => index);
+      sorted.forEach((card, index) => converted.set(card, { ...card, order: orders[index] }));
+    })
+  );
+
+  return converted.size === 0 ? cards : cards.map((card) => converted.get(card) ?? card);
+}
+
+function assertOrderKey(key: string): void {
+  if (!isOrderKey(key)) throw new Error(`[Saharos] Invalid order key ${JSON.stringify(key)}`);
+}
+
+/**
+ * Length of the integer part, encoded by its head: 'a'..'z' for 1..26 digits
+ * of positive integers, 'Z'..'A' for 1..26 digits of negative ones
+ */
+function getIntegerLength(head: string): number | null {
+  if (head >= 'a' && head <= 'z') return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  if (head >= 'A' && head <= 'Z') return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  return null;
+}
+
+function getIntegerPart(key: string): string {
+  return key.slice(0, getIntegerLength(key.charAt(0)) ?? key.length);
+}
+
+/**
+ * Fraction between two fractions ('' stands for 0, null for 1)
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Skip the common prefix
+    let n = 0;
+    while ((a.charAt(n) || ZERO) === b.charAt(n)) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a.charAt(0)) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b.charAt(0)) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS.charAt(Math.round((digitA + digitB) / 2));
+  }
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS.charAt(digitA) + midpoint(a.slice(1), null);
+}
+
+function incrementInteger(integer: string): string | null {
+  const head = integer.charAt(0);
+  const digits = integer.slice(1).split('');
+
+  let carry = true;
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i] ?? ZERO) + 1;
+    if (digit === DIGITS.length) {
+      digits[i] = ZERO;
+    } else {
+      digits[i] = DIGITS.charAt(digit);
+      carry = false;
+    }
+  }
+  if (!carry) return head + digits.join('');
+
+  if (head === 'Z') return 'a' + ZERO;
+  if (head === 'z') return null;
+
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > 'a') {
+    digits.push(ZERO);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join('');
+}
+
+function decrementInteger(integer: string): string | null {
+  const head = integer.charAt(0);
+  const digits = integer.slice(1).split('');
+  const largest = DIGITS.charAt(DIGITS.length - 1);
+
+  let borrow = true;
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i] ?? ZERO) - 1;
+    if (digit === -1) {
+      digits[i] = largest;
+    } else {
+      digits[i] = DIGITS.charAt(digit);
+      borrow = false;
+    }
+  }
+  if (!borrow) return head + digits.join('');
+
+  if (head === 'a') return 'Z' + largest;
+  if (head === 'A') return null;
+
+  const nextHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (nextHead < 'Z') {
+    digits.push(largest);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join('');
+}
@@ -0,0 +1,444 @@
+/**
+ * Saharos Kanban - JSON Patch
+ * RFC 6902 diffs between board states
+ *
+ * Cards, columns and lanes are addressed by ID rather than by array position
+ * (`/cards/42/title`), so a patch stays valid when other entities are added,
+ * removed or reordered. IDs are stringified and escaped as JSON Pointer tokens.
+ */
+
+import type {
+  Card,
+  Column,
+  ID,
+  JsonPatchOperation,
+  KanbanOperation,
+  KanbanState,
+  Lane,
+} from './types';
+import type { StateManager } from './state';
+
+type Collection = 'lanes' | 'columns' | 'cards';
+type Container = Map<string, unknown> | unknown[] | Record<string, unknown>;
+
+const COLLECTIONS: Collection[] = ['lanes', 'columns', 'cards'];
+const ARRAY_INDEX = /^(0|[1-9]\d*)$/;
+
+/**
+ * Build the JSON Patch that turns `prev` into `next`
+ * Unchanged entities are skipped by reference, so diffing two snapshots only
+ * walks what changed. Removed entities come first, new ones are added whole
+ * and changed ones are patched field by field.
+ */
+export function diffStates(prev: KanbanState, next: KanbanState): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = [];
+  if (prev === next) return patch;
+
+  COLLECTIONS.forEach((collection) => {
+    const before = prev[collection] ?? [];
+    const after = next[collection] ?? [];
+    if (before === after) return;
+
+    const previous = new Map<string, Lane | Column | Card>(
+      before.map((entity) => [String(entity.id), entity])
+    );
+    const current = new Set(after.map((entity) => String(entity.id)));
+
+    previous.forEach((_, key) => {
+      if (!current.has(key)) patch.push({ op: 'remove', path: toPath(collection, key) });
+    });
+    after.forEach((entity) => {
+      const key = String(entity.id);
+      const path = toPath(collection, key);
+      const old = previous.get(key);
+
+      if (old === undefined) {
+        patch.push({ op: 'add', path, value: clone(entity) });
+      } else {
+        diffValue(old, entity, path, patch);
+      }
+    });
+  });
+
+  diffValue(prev.schemaVersion, next.schemaVersion, '/schemaVersion', patch);
+  diffValue(prev.metaVersions, next.metaVersions, '/metaVersions', patch);
+  return patch;
+}
+
+/**
+ * Apply a JSON Patch to a state and return the patched copy
+ * All six RFC 6902 operations are supported. The input state is not modified
+ * and unchanged entities are shared with it. The patch is applied atomically:
+ * if any operation fails (missing path, failed `test`, ...) an error is thrown
+ * and nothing is returned.
+ */
+export function patchState(state: KanbanState, patch: JsonPatchOperation[]): KanbanState {
+  const root: Record<string, unknown> = { ...state };
+  COLLECTIONS.forEach((collection) => {
+    root[collection] = new Map<string, unknown>(
+      (state[collection] ?? []).map((entity) => [String(entity.id), entity])
+    );
+  });
+
+  // Containers copied by this call can be changed in place
+  const owned = new Set<unknown>([root, ...COLLECTIONS.map((collection) => root[collection])]);
+
+  patch.forEach((operation, index) => {
+    try {
+      applyPatchOperation(root, operation, owned);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `[Saharos] Cannot apply patch operation ${index} (${String(operation.op)} ${operation.path}): ${reason}`
+      );
+    }
+  });
+
+  const result: Record<string, unknown> = { ...root };
+  COLLECTIONS.forEach((collection) => {
+    const entities = root[collection] as Map<string, unknown>;
+    entities.forEach((entity, key) => {
+      if (!isRecord(entity) || !isId(entity.id) || String(entity.id) !== key) {
+        throw new Error(
+          `[Saharos] Patched ${collection} entry "${key}" must be an object with a matching id`
+        );
+      }
+    });
+
+    if (collection === 'lanes' && state.lanes === undefined && entities.size === 0) {
+      delete result.lanes;
+    } else {
+      result[collection] = Array.from(entities.values());
+    }
+  });
+
+  return result as unknown as KanbanState;
+}
+
+/**
+ * Describe the change from `before` to the current state of `stateManager`
+ * as operations, e.g. to report an applied patch
+ *
+ * Operations are ordered so that they can be replayed in sequence: additions
+ * first, then card changes, then reordering and updates, then removals.
+ */
+export function operationsBetween(
+  before: KanbanState,
+  stateManager: StateManager
+): KanbanOperation[] {
+  const after = stateManager.getSnapshot();
+  const lanes = pairEntities(before.lanes ?? [], after.lanes ?? []);
+  const columns = pairEntities(before.columns, after.columns);
+  const cards = pairEntities(before.cards, after.cards);
+  const sortedLanes = stateManager.getLanes();
+  const sortedColumns = stateManager.getColumns();
+  const operations: KanbanOperation[] = [];
+
+  lanes.added.forEach((lane) =>
+    operations.push({ type: 'lane:add', lane, index: sortedLanes.indexOf(lane) })
+  );
+  columns.added.forEach((column) =>
+    operations.push({ type: 'column:add', column, index: sortedColumns.indexOf(column) })
+  );
+  cards.removed.forEach((card) => operations.push({ type: 'card:remove', cardId: card.id }));
+  cards.added.forEach((card) =>
+    operations.push({ type: 'card:add', card, index: stateManager.getCardIndex(card.id) })
+  );
+
+  cards.changed.forEach(([old, card]) => {
+    if (old.columnId === card.columnId && old.laneId === card.laneId && old.order === card.order) {
+      return;
+    }
+    // A card that left its lane is detached explicitly (undefined keeps the lane)
+    const laneId = card.laneId === undefined && old.laneId !== undefined ? null : card.laneId;
+    operations.push({
+      type: 'card:move',
+      cardId: card.id,
+      to: { columnId: card.columnId, laneId, index: stateManager.getCardIndex(card.id) },
+    });
+  });
+  cards.changed.forEach(([old, card]) => {
+    const patch = changedFields(old, card, ['id', 'columnId', 'laneId', 'order']);
+    if (patch) operations.push({ type: 'card:update', cardId: card.id, patch });
+  });
+
+  columns.changed.forEach(([old, column]) => {
+    if (old.order !== column.order) {
+      operations.push({
+        type: 'column:move',
+        columnId: column.id,
+        toIndex: sortedColumns.indexOf(column),
+      });
+    }
+    const patch = changedFields(old, column, ['id', 'order']);
+    if (patch) operations.push({ type: 'column:update', columnId: column.id, patch });
+  });
+  lanes.changed.forEach(([old, lane]) => {
+    if (old.order !== lane.order) {
+      operations.push({ type: 'lane:move', laneId: lane.id, toIndex: sortedLanes.indexOf(lane) });
+    }
+    const patch = changedFields(old, lane, ['id', 'order']);
+    if (patch) operations.push({ type: 'lane:update', laneId: lane.id, patch });
+  });
+
+  columns.removed.forEach((column) =>
+    operations.push({ type: 'column:remove', columnId: column.id })
+  );
+  lanes.removed.forEach((lane) => operations.push({ type: 'lane:remove', laneId: lane.id }));
+
+  return operations;
+}
+
+/**
+ * Match entities of two lists by ID
+ */
+function pairEntities<T extends { id: ID }>(
+  before: T[],
+  after: T[]
+): { added: T[]; removed: T[]; changed: Array<[T, T]> } {
+  const previous = new Map(before.map((entity) => [entity.id, entity]));
+  const added: T[] = [];
+  const changed: Array<[T, T]> = [];
+
+  after.forEach((entity) => {
+    const old = previous.get(entity.id);
+    previous.delete(entity.id);
+    if (old === undefined) {
+      added.push(entity);
+    } else if (old !== entity) {
+      changed.push([old, entity]);
+    }
+  });
+
+  return { added, removed: Array.from(previous.values()), changed };
+}
+
+/**
+ * Fields that differ between two versions of an entity (removed ones as undefined)
+ */
+function changedFields<T extends object>(old: T, next: T, skip: string[]): Partial<T> | null {
+  const before = old as Record<string, unknown>;
+  const after = next as Record<string, unknown>;
+  const patch: Record<string, unknown> = {};
+  let changed = false;
+
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach((key) => {
+    if (skip.includes(key) || isEqual(before[key], after[key])) return;
+    patch[key] = after[key];
+    changed = true;
+  });
+
+  return changed ? (patch as Partial<T>) : null;
+}
+
+function diffValue(prev: unknown, next: unknown, path: string, patch: JsonPatchOperation[]): void {
+  if (prev === next) return;
+
+  if (next === undefined) {
+    patch.push({ op: 'remove', path });
+  } else if (prev === undefined) {
+    patch.push({ op: 'add', path, value: clone(next) });
+  } else if (isRecord(prev) && isRecord(next)) {
+    new Set([...Object.keys(prev), ...Object.keys(next)]).forEach((key) =>
+      diffValue(prev[key], next[key], `${path}/${escapeToken(key)}`, patch)
+    );
+  } else if (!isEqual(prev, next)) {
+    patch.push({ op: 'replace', path, value: clone(next) });
+  }
+}
+
+function applyPatchOperation(
+  root: Record<string, unknown>,
+  operation: JsonPatchOperation,
+  owned: Set<unknown>
+): void {
+  const tokens = parsePath(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      addValue(root, tokens, clone(operation.value), owned);
+      return;
+
+    case 'remove':
+      removeValue(root, tokens, owned);
+      return;
+
+    case 'replace':
+      removeValue(root, tokens, owned);
+      addValue(root, tokens, clone(operation.value), owned);
+      return;
+
+    case 'test':
+      if (!isEqual(getValue(root, tokens), operation.value)) {
+        throw new Error('test failed');
+      }
+      return;
+
+    case 'move': {
+      const from = parsePath(operation.from);
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error('a value cannot be moved into itself');
+      }
+      const value = getValue(root, from);
+      removeValue(root, from, owned);
+      addValue(root, tokens, value, owned);
+      return;
+    }
+
+    case 'copy':
+      addValue(root, tokens, clone(getValue(root, parsePath(operation.from))), owned);
+      return;
+
+    default:
+      throw new Error('unknown operation');
+  }
+}
+
+/**
+ * Split a JSON Pointer into unescaped tokens
+ * Whole collections and the root cannot be patched, only what is inside them.
+ */
+function parsePath(path: string): string[] {
+  if (typeof path !== 'string' || !path.startsWith('/')) {
+    throw new Error('paths must start with "/"');
+  }
+  const tokens = path
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  if (tokens.length === 1 && COLLECTIONS.includes(tokens[0] as Collection)) {
+    throw new Error('collections can only be patched by entity');
+  }
+  return tokens;
+}
+
+function getValue(root: Container, tokens: string[]): unknown {
+  let value: unknown = root;
+  tokens.forEach((token) => {
+    if (!isContainer(value) || !hasChild(value, token)) {
+      throw new Error('path not found');
+    }
+    value = getChild(value, token);
+  });
+  return value;
+}
+
+function addValue(root: Container, tokens: string[], value: unknown, owned: Set<unknown>): void {
+  const parent = getParent(root, tokens, owned);
+  const token = tokens[tokens.length - 1] ?? '';
+
+  if (Array.isArray(parent)) {
+    const index = token === '-' ? parent.length : toIndex(token);
+    if (index > parent.length) throw new Error('array index out of bounds');
+    parent.splice(index, 0, value);
+  } else {
+    setChild(parent, token, value);
+  }
+}
+
+function removeValue(root: Container, tokens: string[], owned: Set<unknown>): void {
+  const parent = getParent(root, tokens, owned);
+  const token = tokens[tokens.length - 1] ?? '';
+  if (!hasChild(parent, token)) throw new Error('path not found');
+
+  if (Array.isArray(parent)) {
+    parent.splice(toIndex(token), 1);
+  } else if (parent instanceof Map) {
+    parent.delete(token);
+  } else {
+    delete parent[token];
+  }
+}
+
+/**
+ * Resolve the container holding the last token, copying shared containers on the way
+ */
+function getParent(root: Container, tokens: string[], owned: Set<unknown>): Container {
+  let container = root;
+
+  tokens.slice(0, -1).forEach((token) => {
+    const child = hasChild(container, token) ? getChild(container, token) : undefined;
+    if (!isContainer(child)) throw new Error('path not found');
+
+    if (owned.has(child)) {
+      container = child;
+      return;
+    }
+    const copy: Container =
+      child instanceof Map ? new Map(child) : Array.isArray(child) ? [...child] : { ...child };
+    owned.add(copy);
+    setChild(container, token, copy);
+    container = copy;
+  });
+
+  return container;
+}
+
+function hasChild(container: Container, token: string): boolean {
+  if (container instanceof Map) return container.has(token);
+  if (Array.isArray(container)) {
+    return ARRAY_INDEX.test(token) && Number(token) < container.length;
+  }
+  return Object.prototype.hasOwnProperty.call(container, token);
+}
+
+function getChild(container: Container, token: string): unknown {
+  if (container instanceof Map) return container.get(token);
+  if (Array.isArray(container)) return container[toIndex(token)];
+  return container[token];
+}
+
+function setChild(container: Container, token: string, value: unknown): void {
+  if (container instanceof Map) {
+    container.set(token, value);
+  } else if (Array.isArray(container)) {
+    container[toIndex(token)] = value;
+  } else {
+    container[token] = value;
+  }
+}
+
+function toIndex(token: string): number {
+  if (!ARRAY_INDEX.test(token)) throw new Error(`invalid array index "${token}"`);
+  return Number(token);
+}
+
+function toPath(collection: Collection, key: string): string {
+  return `/${collection}/${escapeToken(key)}`;
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isContainer(value: unknown): value is Container {
+  return value instanceof Map || (typeof value === 'object' && value !== null);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isId(value: unknown): value is ID {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isEqual(value, b[index]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a).filter((key) => a[key] !== undefined);
+    return (
+      keys.length === Object.keys(b).filter((key) => b[key] !== undefined).length &&
+      keys.every((key) => isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
@@ -0,0 +1,436 @@
+/**
+ * Saharos Kanban - Replication
+ * Conflict-free merging of concurrent edits made on several replicas of a board
+ */
+
+import type {
+  Card,
+  Column,
+  ID,
+  JsonPatchOperation,
+  KanbanState,
+  Lane,
+  ReplicaChange,
+  ReplicaMessage,
+  ReplicaOptions,
+  ReplicaStamp,
+  ReplicaTransport,
+} from './types';
+import type { StateManager } from './state';
+import { diffStates, patchState } from './patch';
+
+type Kind = ReplicaChange['kind'];
+type Entity = Lane | Column | Card;
+
+interface Register {
+  value: unknown;
+  stamp: ReplicaStamp;
+}
+
+interface EntityRecord {
+  kind: Kind;
+  id: ID;
+  registers: Map<string, Register>;
+  // Entity built from the registers; null while it does not exist
+  entity: Entity | null;
+}
+
+const EXISTS = '$exists';
+const POSITION = '$position';
+
+// Fields written together as one register, so concurrent moves are never mixed
+const POSITION_FIELDS: Record<Kind, string[]> = {
+  lane: ['order'],
+  column: ['laneId', 'order'],
+  card: ['columnId', 'laneId', 'order'],
+};
+
+const COLLECTIONS: Array<[Kind, 'lanes' | 'columns' | 'cards']> = [
+  ['lane', 'lanes'],
+  ['column', 'columns'],
+  ['card', 'cards'],
+];
+
+// Stamp of the state every replica starts from
+const INITIAL_STAMP: ReplicaStamp = { clock: 0, replicaId: '' };
+
+function compareStamps(a: ReplicaStamp, b: ReplicaStamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.replicaId < b.replicaId ? -1 : a.replicaId > b.replicaId ? 1 : 0;
+}
+
+function recordKey(kind: Kind, id: ID): string {
+  return `${kind}:${JSON.stringify(id)}`;
+}
+
+/**
+ * Replica - Keeps a StateManager in step with other replicas of the board
+ *
+ * Each entity is stored as a set of last-writer-wins registers: one per
+ * top-level field, one for its position (column, lane and order) and one for
+ * its existence. Local changes are sent as register writes stamped with a
+ * Lamport clock; a write only replaces a register holding an older stamp, so
+ * replicas that received the same writes hold the same state whatever the
+ * order they arrived in. Removing an entity wins over concurrent edits of it,
+ * and cards whose column was removed (and columns whose lane was removed) are
+ * dropped with it. Fractional card ordering is recommended: concurrent moves
+ * then only write the moved cards.
+ */
+export class Replica {
+  private stateManager: StateManager;
+  private transport: ReplicaTransport;
+  private replicaId: string;
+  private clock: number = 0;
+  private records: Map<string, EntityRecord> = new Map();
+  private onRemote: (patch: JsonPatchOperation[], replicaId: string) => void;
+  private unsubscribe: () => void;
+  private destroyed: boolean = false;
+
+  // State as of the last exchange, local changes are diffed against it
+  private lastState: KanbanState;
+
+  constructor(
+    stateManager: StateManager,
+    transport: ReplicaTransport,
+    options: ReplicaOptions = {},
+    onRemote?: (patch: JsonPatchOperation[], replicaId: string) => void
+  ) {
+    this.stateManager = stateManager;
+    this.transport = transport;
+    this.replicaId =
+      options.replicaId ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    this.onRemote =
+      onRemote ??
+      ((patch) => this.stateManager.setState(patchState(this.stateManager.getSnapshot(), patch)));
+
+    this.lastState = stateManager.getSnapshot();
+    COLLECTIONS.forEach(([kind, collection]) =>
+      (this.lastState[collection] ?? []).forEach((entity) =>
+        this.writeEntity(kind, entity, INITIAL_STAMP)
+      )
+    );
+
+    this.unsubscribe = transport.subscribe((message) => this.receive(message));
+
+    // Share what this replica starts with and catch up with the others
+    this.transport.send({ type: 'changes', replicaId: this.replicaId, changes: this.getChanges() });
+    this.transport.send({ type: 'request', replicaId: this.replicaId });
+  }
+
+  /**
+   * ID of this replica, as seen by the others
+   */
+  getReplicaId(): string {
+    return this.replicaId;
+  }
+
+  /**
+   * Send the changes made to the state manager since the last exchange
+   * Call after every local mutation (boards do this on state:change).
+   */
+  commit(): void {
+    if (this.destroyed) return;
+
+    const state = this.stateManager.getSnapshot();
+    if (state === this.lastState) return;
+
+    const before = this.lastState;
+    this.lastState = state;
+
+    const stamp: ReplicaStamp = { clock: ++this.clock, replicaId: this.replicaId };
+    const changes: ReplicaChange[] = [];
+
+    COLLECTIONS.forEach(([kind, collection]) => {
+      const previous = new Map<ID, Entity>((before[collection] ?? []).map((e) => [e.id, e]));
+
+      (state[collection] ?? []).forEach((entity) => {
+        const old = previous.get(entity.id);
+        previous.delete(entity.id);
+        if (old === entity) return;
+
+        changes.push(...this.writeEntity(kind, entity, stamp, old));
+      });
+
+      previous.forEach((entity) => {
+        const change: ReplicaChange = { kind, id: entity.id, field: EXISTS, value: false, stamp };
+        this.merge(change);
+        changes.push(change);
+      });
+    });
+
+    if (changes.length > 0) {
+      this.transport.send({ type: 'changes', replicaId: this.replicaId, changes });
+    }
+  }
+
+  /**
+   * Stop exchanging changes
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.unsubscribe();
+  }
+
+  private receive(message: ReplicaMessage): void {
+    if (this.destroyed || !this.isMessage(message) || message.replicaId === this.replicaId) return;
+
+    if (message.type === 'request') {
+      this.transport.send({
+        type: 'changes',
+        replicaId: this.replicaId,
+        changes: this.getChanges(),
+      });
+      return;
+    }
+
+    // Local changes not committed yet must not be mistaken for remote ones
+    this.commit();
+
+    let changed = false;
+    message.changes
+      .filter((change) => this.isChange(change))
+      .forEach((change) => {
+        this.clock = Math.max(this.clock, change.stamp.clock);
+        if (this.merge(change)) changed = true;
+      });
+    if (!changed) return;
+
+    const before = this.stateManager.getSnapshot();
+    const next = this.materialize(before);
+    const patch = diffStates(before, next);
+    if (patch.length === 0) return;
+
+    this.onRemote(patch, message.replicaId);
+
+    // The state manager may normalize what it was given (e.g. convert orders);
+    // share that like a local change so every replica ends up the same
+    this.lastState = next;
+    this.commit();
+  }
+
+  /**
+   * Record the registers of a local entity that differ from `old`
+   * Without `old` the entity is new: every register is written, clearing
+   * fields left over from an earlier entity with the same ID.
+   */
+  private writeEntity(
+    kind: Kind,
+    entity: Entity,
+    stamp: ReplicaStamp,
+    old?: Entity
+  ): ReplicaChange[] {
+    const key = recordKey(kind, entity.id);
+    const fields = entity as unknown as Record<string, unknown>;
+    const previous = old as unknown as Record<string, unknown> | undefined;
+    const position = POSITION_FIELDS[kind];
+    const changes: ReplicaChange[] = [];
+    const write = (field: string, value: unknown) => {
+      const change: ReplicaChange = { kind, id: entity.id, field, value, stamp };
+      this.merge(change);
+      changes.push(change);
+    };
+
+    const names = new Set([...Object.keys(fields), ...Object.keys(previous ?? {})]);
+    if (!previous) {
+      this.records.get(key)?.registers.forEach((_, field) => names.add(field));
+      write(EXISTS, true);
+    }
+
+    const nextPosition = this.pickPosition(kind, fields);
+    if (
+      !previous ||
+      JSON.stringify(this.pickPosition(kind, previous)) !== JSON.stringify(nextPosition)
+    ) {
+      write(POSITION, nextPosition);
+    }
+
+    const skip = new Set(['id', EXISTS, POSITION, ...position]);
+    names.forEach((field) => {
+      if (skip.has(field)) return;
+      if (previous && JSON.stringify(previous[field]) === JSON.stringify(fields[field])) return;
+      write(field, fields[field]);
+    });
+
+    // The registers now describe this very object; keep it so diffs can skip it
+    const record = this.records.get(key);
+    if (record?.entity) record.entity = entity;
+    return changes;
+  }
+
+  private pickPosition(kind: Kind, fields: Record<string, unknown>): Record<string, unknown> {
+    const position: Record<string, unknown> = {};
+    POSITION_FIELDS[kind].forEach((field) => {
+      if (fields[field] !== undefined) position[field] = fields[field];
+    });
+    return position;
+  }
+
+  /**
+   * Apply a register write if it is newer than what the register holds
+   * Returns whether the write was taken.
+   */
+  private merge(change: ReplicaChange): boolean {
+    const key = recordKey(change.kind, change.id);
+    let record = this.records.get(key);
+    if (!record) {
+      record = { kind: change.kind, id: change.id, registers: new Map(), entity: null };
+      this.records.set(key, record);
+    }
+
+    const current = record.registers.get(change.field);
+    if (current) {
+      const order = compareStamps(change.stamp, current.stamp);
+      // Equal stamps only occur for differing initial states: pick the same value everywhere
+      const wins =
+        order > 0 || (order === 0 && JSON.stringify(change.value) > JSON.stringify(current.value));
+      if (!wins) return false;
+    }
+
+    record.registers.set(change.field, { value: change.value, stamp: change.stamp });
+    record.entity = this.buildEntity(record);
+    return true;
+  }
+
+  private buildEntity(record: EntityRecord): Entity | null {
+    if (record.registers.get(EXISTS)?.value !== true) return null;
+
+    const entity: Record<string, unknown> = { id: record.id };
+    record.registers.forEach(({ value }, field) => {
+      if (field === EXISTS || value === undefined) return;
+      if (field === POSITION) {
+        Object.assign(entity, value);
+      } else {
+        entity[field] = value;
+      }
+    });
+    return entity as unknown as Entity;
+  }
+
+  /**
+   * Build the merged state
+   * Entities nobody changed since the last exchange are the objects of the
+   * current state, so diffing against it only looks at merged ones.
+   */
+  private materialize(current: KanbanState): KanbanState {
+    const collections: Record<Kind, Entity[]> = { lane: [], column: [], card: [] };
+    this.records.forEach((record) => {
+      if (record.entity) collections[record.kind].push(record.entity);
+    });
+
+    const laneIds = new Set(collections.lane.map((lane) => lane.id));
+    const columns = (collections.column as Column[]).filter(
+      (column) =>
+        column.laneId === undefined || column.laneId === null || laneIds.has(column.laneId)
+    );
+    const columnIds = new Set(columns.map((column) => column.id));
+    const cards = (collections.card as Card[]).filter((card) => columnIds.has(card.columnId));
+
+    const next: KanbanState = { ...current, columns, cards };
+    const lanes = collections.lane as Lane[];
+    if (current.lanes !== undefined || lanes.length > 0) next.lanes = lanes;
+    return next;
+  }
+
+  /**
+   * Every register, e.g. for a replica that just joined
+   */
+  private getChanges(): ReplicaChange[] {
+    const changes: ReplicaChange[] = [];
+    this.records.forEach(({ kind, id, registers }) =>
+      registers.forEach(({ value, stamp }, field) =>
+        changes.push({ kind, id, field, value, stamp })
+      )
+    );
+    return changes;
+  }
+
+  private isChange(data: unknown): data is ReplicaChange {
+    if (typeof data !== 'object' || data === null) return false;
+    const change = data as Partial<ReplicaChange>;
+    return (
+      (change.kind === 'lane' || change.kind === 'column' || change.kind === 'card') &&
+      (typeof change.id === 'string' || typeof change.id === 'number') &&
+      typeof change.field === 'string' &&
+      typeof change.stamp?.clock === 'number' &&
+      typeof change.stamp.replicaId === 'string'
+    );
+  }
+
+  private isMessage(data: unknown): data is ReplicaMessage {
+    if (typeof data !== 'object' || data === null) return false;
+    const message = data as Partial<{ type: string; replicaId: string; changes: unknown }>;
+    if (typeof message.replicaId !== 'string') return false;
+    return (
+      message.type === 'request' || (message.type === 'changes' && Array.isArray(message.changes))
+    );
+  }
+}
+
+/**
+ * MemoryNetwork - Connects replicas living in the same process
+ *
+ * Every message is copied as if sent over the wire and delivered to all other
+ * transports. With `manual: true` messages are queued until deliver() is
+ * called, which makes it easy to simulate concurrent edits in tests.
+ */
+export class MemoryNetwork {
+  private listeners: Set<(message: ReplicaMessage) => void> = new Set();
+  private queue: Array<{ message: ReplicaMessage; sender: (message: ReplicaMessage) => void }> = [];
+  private manual: boolean;
+  private delivering: boolean = false;
+
+  constructor(options: { manual?: boolean } = {}) {
+    this.manual = options.manual ?? false;
+  }
+
+  /**
+   * Create a transport attached to this network
+   */
+  connect(): ReplicaTransport {
+    let own: (message: ReplicaMessage) => void = () => undefined;
+
+    return {
+      send: (message) => {
+        this.queue.push({
+          message: JSON.parse(JSON.stringify(message)) as ReplicaMessage,
+          sender: own,
+        });
+        if (!this.manual) this.deliver();
+      },
+      subscribe: (listener) => {
+        own = listener;
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+      },
+    };
+  }
+
+  /**
+   * Deliver queued messages, including those sent while delivering
+   */
+  deliver(): void {
+    if (this.delivering) return;
+    this.delivering = true;
+
+    try {
+      let next = this.queue.shift();
+      while (next) {
+        const { message, sender } = next;
+        this.listeners.forEach((listener) => {
+          if (listener !== sender) listener(message);
+        });
+        next = this.queue.shift();
+      }
+    } finally {
+      this.delivering = false;
+    }
+  }
+
+  /**
+   * Number of messages waiting for deliver()
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+}
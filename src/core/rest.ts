@@ -0,0 +1,357 @@
+/**
+ * Saharos Kanban - REST Synchronization
+ * Persists board mutations through HTTP calls, with an offline queue and retries
+ */
+
+import type {
+  KanbanOperation,
+  PluginContext,
+  RestRequest,
+  RestSyncOptions,
+  RestSyncStatus,
+  SaharosKanbanPlugin,
+} from './types';
+import { entityKey } from './sync';
+
+/**
+ * Fold a later operation into an earlier add of the same entity
+ */
+function foldIntoAdd(add: KanbanOperation, op: KanbanOperation): KanbanOperation | null {
+  if (add.type === 'card:add') {
+    if (op.type === 'card:update') return { ...add, card: { ...add.card, ...op.patch } };
+    if (op.type === 'card:move') {
+      const card = { ...add.card, columnId: op.to.columnId };
+      if (op.to.laneId === null) {
+        delete card.laneId;
+      } else if (op.to.laneId !== undefined) {
+        card.laneId = op.to.laneId;
+      }
+      return { ...add, card, index: op.to.index };
+    }
+  }
+  if (add.type === 'column:add') {
+    if (op.type === 'column:update') return { ...add, column: { ...add.column, ...op.patch } };
+    if (op.type === 'column:move') return { ...add, index: op.toIndex };
+  }
+  if (add.type === 'lane:add') {
+    if (op.type === 'lane:update') return { ...add, lane: { ...add.lane, ...op.patch } };
+    if (op.type === 'lane:move') return { ...add, index: op.toIndex };
+  }
+  return null;
+}
+
+/**
+ * Combine two updates (patches merged) or two moves (the later one wins) of an entity
+ */
+function mergeSame(prev: KanbanOperation, op: KanbanOperation): KanbanOperation {
+  if (prev.type === 'card:update' && op.type === 'card:update') {
+    return { ...op, patch: { ...prev.patch, ...op.patch } };
+  }
+  if (prev.type === 'column:update' && op.type === 'column:update') {
+    return { ...op, patch: { ...prev.patch, ...op.patch } };
+  }
+  if (prev.type === 'lane:update' && op.type === 'lane:update') {
+    return { ...op, patch: { ...prev.patch, ...op.patch } };
+  }
+  return op;
+}
+
+/**
+ * Add an operation to the queue of unsent ones, collapsing redundant work
+ *
+ * - Repeated moves of an entity become the last one; repeated updates merge
+ * - Updates and moves of an entity added in the same queue are folded into the add,
+ *   as long as nothing was queued after the add (the later operation may depend on it)
+ * - A removal drops the queued operations of the entity, and the removal itself
+ *   too when the server never learned about the entity
+ */
+export function collapseOperation(
+  queue: KanbanOperation[],
+  op: KanbanOperation
+): KanbanOperation[] {
+  const key = entityKey(op);
+  const action = op.type.slice(op.type.indexOf(':') + 1);
+  if (key === 'board' || action === 'add') return [...queue, op];
+
+  // Operations before an earlier removal belong to a previous life of the ID
+  let start = 0;
+  queue.forEach((queued, index) => {
+    if (entityKey(queued) === key && queued.type.endsWith(':remove')) start = index + 1;
+  });
+
+  if (action === 'remove') {
+    const related = queue.filter((queued, index) => index >= start && entityKey(queued) === key);
+    const rest = queue.filter((queued) => !related.includes(queued));
+    const neverSent = related.some((queued) => queued.type.endsWith(':add'));
+    return neverSent ? rest : [...rest, op];
+  }
+
+  for (let index = queue.length - 1; index >= start; index--) {
+    const queued = queue[index];
+    if (!queued || entityKey(queued) !== key) continue;
+
+    const folded = foldIntoAdd(queued, op);
+    if (folded) {
+      // Folding would send the change ahead of what it may depend on,
+      // e.g. a move into a column that was added after the card
+      if (index < queue.length - 1) break;
+      return [...queue.slice(0, index), folded];
+    }
+    if (queued.type === op.type) {
+      return [...queue.slice(0, index), ...queue.slice(index + 1), mergeSame(queued, op)];
+    }
+  }
+
+  return [...queue, op];
+}
+
+/**
+ * Whether a failed request is worth sending again
+ */
+function isRetryable(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * RestSyncQueue - Sends operations to a REST backend one at a time, in order
+ *
+ * Operations wait in a queue while the browser is offline or a request fails,
+ * and are retried with exponential backoff. Queued operations are collapsed
+ * (see collapseOperation) so a card moved three times is only sent once; the
+ * request in flight is never changed. Status is reported through `rest:*` events.
+ */
+export class RestSyncQueue {
+  private options: RestSyncOptions;
+  private emit: PluginContext['emit'];
+  private queue: KanbanOperation[] = [];
+  private status: RestSyncStatus = 'idle';
+  private attempt: number = 0;
+  private running: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private destroyed: boolean = false;
+
+  constructor(options: RestSyncOptions, emit: PluginContext['emit']) {
+    this.options = options;
+    this.emit = emit;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+  }
+
+  /**
+   * Number of operations waiting to be sent
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  getStatus(): RestSyncStatus {
+    return this.status;
+  }
+
+  /**
+   * Queue operations and start sending
+   * Operations without an endpoint cannot be sent and are reported as errors.
+   */
+  enqueue(operations: KanbanOperation[]): void {
+    if (this.destroyed) return;
+
+    operations.forEach((op) => {
+      if (this.options.endpoints[op.type] === undefined) {
+        this.emit('rest:error', {
+          operation: op,
+          request: null,
+          error: new Error(`[Saharos] No REST endpoint for "${op.type}" operations`),
+          attempt: 0,
+          willRetry: false,
+        });
+        return;
+      }
+      this.queue = collapseOperation(this.queue, op);
+    });
+    // A pending retry keeps its backoff; new operations are sent along with it
+    if (!this.retryTimer) void this.start();
+  }
+
+  /**
+   * Send queued operations now, without waiting for a pending retry
+   * Resolves when the queue is empty or sending has to wait.
+   */
+  flush(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    return this.start();
+  }
+
+  /**
+   * Stop sending; queued operations are dropped
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+  }
+
+  private handleOnline = (): void => {
+    void this.flush();
+  };
+
+  private start(): Promise<void> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(): Promise<void> {
+    while (!this.destroyed) {
+      const operation = this.queue.shift();
+      if (!operation) {
+        this.setStatus('idle');
+        return;
+      }
+
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        this.queue.unshift(operation);
+        this.setStatus('offline');
+        return;
+      }
+
+      const request = this.buildRequest(operation);
+      if (!request) continue;
+
+      this.setStatus('syncing');
+      let error: unknown;
+      let offline = false;
+
+      try {
+        const response = await this.send(request);
+        if (response.ok) {
+          this.attempt = 0;
+          this.emit('rest:sent', { operation, request, response });
+          continue;
+        }
+
+        error = new Error(
+          `[Saharos] ${request.method} ${request.url} failed with status ${response.status}`
+        );
+        if (!isRetryable(response.status)) {
+          this.emit('rest:error', {
+            operation,
+            request,
+            error,
+            attempt: this.attempt + 1,
+            willRetry: false,
+          });
+          this.attempt = 0;
+          continue;
+        }
+      } catch (fetchError) {
+        // Network failure: the request may not have reached the server
+        error = fetchError;
+        offline = true;
+      }
+
+      if (this.destroyed) return;
+
+      this.attempt++;
+      const { delay = 1000, maxDelay = 30000, maxAttempts = 10 } = this.options.retry ?? {};
+      // Network failures are never dropped, only server errors use up attempts
+      const willRetry = offline || this.attempt < maxAttempts;
+      this.emit('rest:error', { operation, request, error, attempt: this.attempt, willRetry });
+
+      if (!willRetry) {
+        this.attempt = 0;
+        continue;
+      }
+
+      // Retry first, then whatever was queued meanwhile (collapsing into it is safe:
+      // the failed request did not change anything we rely on)
+      this.queue = [operation, ...this.queue].reduce<KanbanOperation[]>(collapseOperation, []);
+      this.setStatus(offline ? 'offline' : 'retrying');
+      this.retryTimer = setTimeout(
+        () => {
+          this.retryTimer = null;
+          void this.flush();
+        },
+        Math.min(delay * 2 ** (this.attempt - 1), maxDelay)
+      );
+      return;
+    }
+  }
+
+  private buildRequest(operation: KanbanOperation): RestRequest | null {
+    const endpoint = this.options.endpoints[operation.type] as
+      | ((op: KanbanOperation) => RestRequest | null)
+      | undefined;
+    return endpoint ? endpoint(operation) : null;
+  }
+
+  private send(request: RestRequest): Promise<Response> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const { headers } = this.options;
+    const init: RequestInit = {
+      method: request.method,
+      headers: {
+        ...(typeof headers === 'function' ? headers() : headers),
+        ...request.headers,
+      },
+    };
+
+    if (request.body !== undefined) {
+      init.body = JSON.stringify(request.body);
+      init.headers = { 'Content-Type': 'application/json', ...init.headers };
+    }
+
+    return fetchImpl(`${this.options.baseUrl ?? ''}${request.url}`, init);
+  }
+
+  private setStatus(status: RestSyncStatus): void {
+    if (this.status === status && status !== 'syncing') return;
+    this.status = status;
+    this.emit('rest:status', { status, pending: this.queue.length });
+  }
+}
+
+/**
+ * REST Sync Plugin
+ * Sends local board mutations to a REST API through the endpoints you map
+ *
+ * Usage:
+ * ```js
+ * import { restSyncPlugin } from 'saharos-kanban';
+ *
+ * const board = new SaharosKanban('#board', {
+ *   plugins: [restSyncPlugin({
+ *     baseUrl: '/api',
+ *     endpoints: {
+ *       'card:add': ({ card }) => ({ method: 'POST', url: '/cards', body: card }),
+ *       'card:update': ({ cardId, patch }) => ({ method: 'PATCH', url: `/cards/${cardId}`, body: patch }),
+ *       'card:move': ({ cardId, to }) => ({ method: 'POST', url: `/cards/${cardId}/move`, body: to }),
+ *       'column:remove': ({ columnId }) => ({ method: 'DELETE', url: `/columns/${columnId}` }),
+ *     },
+ *   })]
+ * });
+ * ```
+ */
+export function restSyncPlugin(options: RestSyncOptions): SaharosKanbanPlugin {
+  return (ctx: PluginContext) => {
+    const queue = new RestSyncQueue(options, ctx.emit);
+
+    // Only local changes emit state:change, so remote ones are never sent back
+    ctx.on('state:change', ({ operations }) => queue.enqueue(operations));
+    ctx.on('board:destroy', () => queue.destroy());
+  };
+}
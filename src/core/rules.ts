@@ -0,0 +1,49 @@
+/**
+ * Saharos Kanban - Column Rules
+ * Enforces `columnRules` (maxCards, acceptsCards, customValidator)
+ */
+
+import type { Card, ColumnRule, ColumnRuleViolation, ID } from './types';
+
+/**
+ * Check whether a card may enter a column
+ *
+ * Returns the violated rule, or null when the card is allowed. Cards that
+ * already live in the target column (reordering) are always allowed.
+ */
+export function checkColumnRules(
+  card: Card,
+  toColumnId: ID,
+  cards: Card[],
+  rules?: { [columnId: string]: ColumnRule }
+): ColumnRuleViolation | null {
+  const rule = rules?.[String(toColumnId)];
+  if (!rule) return null;
+
+  const alreadyInColumn = cards.some((c) => c.id === card.id && c.columnId === toColumnId);
+  if (alreadyInColumn) return null;
+
+  if (rule.acceptsCards === false) {
+    return 'not-accepting';
+  }
+
+  if (rule.maxCards !== undefined) {
+    const count = cards.filter((c) => c.columnId === toColumnId && c.id !== card.id).length;
+    if (count >= rule.maxCards) {
+      return 'max-cards';
+    }
+  }
+
+  if (rule.customValidator) {
+    try {
+      if (!rule.customValidator(card)) {
+        return 'custom-validator';
+      }
+    } catch (error) {
+      console.error(`[Saharos] Column rule validator failed for column "${toColumnId}":`, error);
+      return 'custom-validator';
+    }
+  }
+
+  return null;
+}
@@ -3,146 +3,288 @@
  * Manages the canonical state of the Kanban board
  */
 
-import type { KanbanState, Lane, Column, Card, ID } from './types';
+import type {
+  KanbanState,
+  Lane,
+  Column,
+  Card,
+  ID,
+  CardOrdering,
+  StateManagerOptions,
+  RemovalPolicy,
+  LaneRemovalPolicy,
+} from './types';
+import {
+  compareOrder,
+  convertCardOrders,
+  generateKeyBetween,
+  generateNKeysBetween,
+  isOrderKey,
+} from './ordering';
+
+type Collection = 'lanes' | 'columns' | 'cards';
+
+// Lane key of a card bucket; undefined and null are distinct, as in getCards()
+type LaneKey = ID | null | undefined;
+
+// Marks entities created by a StateManager; they are frozen and safe to share
+// between snapshots. Not enumerable, so copies ({ ...card }) are not marked.
+const SEALED = Symbol('saharos.sealed');
+
+function freezeDeep<T>(value: T): T {
+  if (typeof value === 'object' && value !== null && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.values(value as Record<string, unknown>).forEach(freezeDeep);
+  }
+  return value;
+}
+
+function isSealed(entity: object): boolean {
+  return SEALED in entity;
+}
+
+function seal<T extends object>(entity: T): T {
+  if (!isSealed(entity)) {
+    Object.values(entity).forEach(freezeDeep);
+    Object.defineProperty(entity, SEALED, { value: true });
+    Object.freeze(entity);
+  }
+  return entity;
+}
+
+/**
+ * Copy caller-provided fields so later changes by the caller cannot leak in
+ * Nested values (meta, labels, ...) get the same JSON semantics as getState().
+ */
+function copyFields<T extends object>(fields: T): T {
+  const copy = { ...fields };
+  Object.entries(copy).forEach(([key, value]) => {
+    if (typeof value === 'object' && value !== null) {
+      (copy as Record<string, unknown>)[key] = JSON.parse(JSON.stringify(value));
+    }
+  });
+  return copy;
+}
+
+/**
+ * Copy a card without its lane
+ */
+function withoutLane(card: Card): Card {
+  const copy = { ...card };
+  delete copy.laneId;
+  return copy;
+}
+
+function adopt<T extends object>(entity: T): T {
+  return isSealed(entity) ? entity : seal(copyFields(entity));
+}
 
 /**
  * State Manager class
  * Single source of truth for all board data
+ *
+ * Entities are kept in ID maps, and card IDs in per-(column, lane) buckets
+ * sorted by order, so lookups do not scan the board. Entities are frozen and
+ * replaced rather than mutated; getSnapshot() shares every unchanged entity
+ * (and collection) with the previous snapshot.
+ *
+ * Card orders follow the `ordering` option. Loaded cards whose orders do not
+ * fit it are converted once, when the state is loaded.
  */
 export class StateManager {
-  private state: KanbanState;
-
-  constructor(initialState?: Partial<KanbanState>) {
-    this.state = {
-      lanes: initialState?.lanes ?? [],
-      columns: initialState?.columns ?? [],
-      cards: initialState?.cards ?? [],
-    };
-
-    // Ensure order properties are set
-    this.normalizeOrders();
+  private ordering: CardOrdering;
+  private lanes: Map<ID, Lane> = new Map();
+  private columns: Map<ID, Column> = new Map();
+  private cards: Map<ID, Card> = new Map();
+  private buckets: Map<ID, Map<LaneKey, ID[]>> = new Map();
+  private unsortedBuckets: Set<ID[]> = new Set();
+  private schemaVersion?: number;
+  private metaVersions?: Record<string, number>;
+
+  // Cached frozen snapshot and the collections it is built from
+  private snapshot: KanbanState | null = null;
+  private frozen: { lanes: Lane[] | null; columns: Column[] | null; cards: Card[] | null } = {
+    lanes: null,
+    columns: null,
+    cards: null,
+  };
+
+  constructor(initialState?: Partial<KanbanState>, options: StateManagerOptions = {}) {
+    this.ordering = options.ordering ?? 'index';
+    this.load(initialState ?? {});
   }
 
   /**
    * Get the current state (read-only copy)
    */
   getState(): KanbanState {
-    return JSON.parse(JSON.stringify(this.state)) as KanbanState;
+    return JSON.parse(JSON.stringify(this.getSnapshot())) as KanbanState;
+  }
+
+  /**
+   * Get a frozen snapshot of the current state
+   * Cheap to call: unchanged entities and collections are shared with earlier
+   * snapshots, so snapshots can be compared by reference.
+   */
+  getSnapshot(): KanbanState {
+    if (this.snapshot) return this.snapshot;
+
+    const lanes = this.frozen.lanes ?? this.freezeCollection(this.lanes);
+    const columns = this.frozen.columns ?? this.freezeCollection(this.columns);
+    const cards = this.frozen.cards ?? this.freezeCollection(this.cards);
+    this.frozen = { lanes, columns, cards };
+
+    const snapshot: KanbanState = { lanes, columns, cards };
+    if (this.schemaVersion !== undefined) snapshot.schemaVersion = this.schemaVersion;
+    if (this.metaVersions !== undefined) snapshot.metaVersions = { ...this.metaVersions };
+    this.snapshot = freezeDeep(snapshot);
+    return this.snapshot;
   }
 
   /**
    * Set the entire state
    */
   setState(newState: KanbanState): void {
-    this.state = {
-      lanes: newState.lanes ?? [],
-      columns: newState.columns ?? [],
-      cards: newState.cards ?? [],
-    };
-    this.normalizeOrders();
+    this.load(newState);
+  }
+
+  /**
+   * Get the card ordering mode
+   */
+  getOrdering(): CardOrdering {
+    return this.ordering;
   }
 
   /**
    * Get lanes sorted by order
    */
   getLanes(): Lane[] {
-    return [...(this.state.lanes ?? [])].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    return this.sortByOrder(Array.from(this.lanes.values()));
   }
 
   /**
    * Get columns sorted by order
    */
   getColumns(laneId?: ID | null): Column[] {
-    const columns = laneId !== undefined
-      ? this.state.columns.filter((col) => col.laneId === laneId)
-      : this.state.columns;
-    return [...columns].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    const columns = Array.from(this.columns.values());
+    return this.sortByOrder(
+      laneId !== undefined ? columns.filter((col) => col.laneId === laneId) : columns
+    );
   }
 
   /**
    * Get cards sorted by order
    */
   getCards(columnId?: ID, laneId?: ID | null): Card[] {
-    let cards = this.state.cards;
-
     if (columnId !== undefined) {
-      cards = cards.filter((card) => card.columnId === columnId);
-    }
-
-    if (laneId !== undefined) {
-      cards = cards.filter((card) => card.laneId === laneId);
+      return this.getCardIds(columnId, laneId).map((id) => this.cards.get(id) as Card);
     }
 
-    return [...cards].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    const cards = Array.from(this.cards.values());
+    return this.sortByOrder(
+      laneId !== undefined ? cards.filter((card) => card.laneId === laneId) : cards
+    );
   }
 
   /**
    * Get a single lane by ID
    */
   getLane(laneId: ID): Lane | null {
-    return this.state.lanes?.find((lane) => lane.id === laneId) ?? null;
+    return this.lanes.get(laneId) ?? null;
   }
 
   /**
    * Get a single column by ID
    */
   getColumn(columnId: ID): Column | null {
-    return this.state.columns.find((col) => col.id === columnId) ?? null;
+    return this.columns.get(columnId) ?? null;
   }
 
   /**
    * Get a single card by ID
    */
   getCard(cardId: ID): Card | null {
-    return this.state.cards.find((card) => card.id === cardId) ?? null;
+    return this.cards.get(cardId) ?? null;
   }
 
   /**
    * Add a lane
    */
   addLane(lane: Lane, index?: number): Lane {
-    const lanes = this.state.lanes ?? [];
-    const newLane = { ...lane, order: index ?? lanes.length };
-    
+    const newLane = seal({ ...copyFields(lane), order: index ?? this.lanes.size });
+    this.lanes.set(newLane.id, newLane);
+    this.touch('lanes');
+
     if (index !== undefined) {
-      lanes.splice(index, 0, newLane);
-      this.reorderLanes();
-    } else {
-      lanes.push(newLane);
+      this.renumberLanes(this.insertBefore(this.getLanes(), newLane, index));
     }
-    
-    this.state.lanes = lanes;
-    return newLane;
+
+    return this.lanes.get(newLane.id) ?? newLane;
   }
 
   /**
    * Update a lane
    */
   updateLane(laneId: ID, patch: Partial<Lane>): Lane | null {
-    const lanes = this.state.lanes ?? [];
-    const index = lanes.findIndex((lane) => lane.id === laneId);
-
-    if (index === -1) return null;
-
-    const currentLane = lanes[index];
+    const currentLane = this.lanes.get(laneId);
     if (!currentLane) return null;
-    const updatedLane: Lane = { ...currentLane, ...patch, id: laneId, title: patch.title ?? currentLane.title };
-    lanes[index] = updatedLane;
-    this.state.lanes = lanes;
+
+    const updatedLane: Lane = seal({
+      ...currentLane,
+      ...copyFields(patch),
+      id: laneId,
+      title: patch.title ?? currentLane.title,
+    });
+    this.lanes.set(laneId, updatedLane);
+    this.touch('lanes');
     return updatedLane;
   }
 
   /**
-   * Remove a lane
+   * Remove a lane, handling its columns and cards according to the policy
+   *
+   * - 'cascade' removes the lane's columns and cards
+   * - { moveTo } reassigns them to another lane (null for no lane), appending
+   *   the cards after those already there
+   * - 'reject-if-not-empty' refuses to remove a lane that still has columns or cards
    */
-  removeLane(laneId: ID): boolean {
-    const lanes = this.state.lanes ?? [];
-    const index = lanes.findIndex((lane) => lane.id === laneId);
-    
-    if (index === -1) return false;
-    
-    lanes.splice(index, 1);
-    this.state.lanes = lanes;
+  removeLane(laneId: ID, policy: LaneRemovalPolicy = 'cascade'): boolean {
+    if (!this.lanes.has(laneId)) return false;
+
+    const { columnIds, cardIds } = this.getLaneDependents(laneId);
+    const isEmpty = columnIds.length === 0 && cardIds.length === 0;
+
+    if (typeof policy === 'object') {
+      if (policy.moveTo !== null && (policy.moveTo === laneId || !this.getLane(policy.moveTo))) {
+        return false;
+      }
+      const moveTo = policy.moveTo;
+      columnIds.forEach((id) => {
+        const column = this.columns.get(id);
+        if (!column) return;
+        const next: Column = { ...column, laneId: moveTo };
+        if (moveTo === null) delete next.laneId;
+        this.columns.set(id, seal(next));
+      });
+      this.touch('columns');
+
+      // Appended after the cards already in the target lane, keeping their order
+      this.sortByOrder(cardIds.map((id) => this.cards.get(id) as Card)).forEach((card) =>
+        this.moveCard(card.id, card.columnId, moveTo)
+      );
+    } else if (!isEmpty) {
+      if (policy === 'reject-if-not-empty') return false;
+      cardIds.forEach((id) => this.deleteCard(id));
+      columnIds.forEach((id) => {
+        this.columns.delete(id);
+        this.buckets.delete(id);
+      });
+      this.touch('columns');
+      this.reorderColumns();
+    }
+
+    this.lanes.delete(laneId);
+    this.touch('lanes');
     this.reorderLanes();
     return true;
   }
@@ -151,42 +293,67 @@ export class StateManager {
    * Add a column
    */
   addColumn(column: Column, index?: number): Column {
-    const newColumn = { ...column, order: index ?? this.state.columns.length };
-    
+    const newColumn = seal({ ...copyFields(column), order: index ?? this.columns.size });
+    this.columns.set(newColumn.id, newColumn);
+    this.touch('columns');
+
     if (index !== undefined) {
-      this.state.columns.splice(index, 0, newColumn);
-      this.reorderColumns();
-    } else {
-      this.state.columns.push(newColumn);
+      this.renumberColumns(this.insertBefore(this.getColumns(), newColumn, index));
     }
-    
-    return newColumn;
+
+    return this.columns.get(newColumn.id) ?? newColumn;
   }
 
   /**
    * Update a column
    */
   updateColumn(columnId: ID, patch: Partial<Column>): Column | null {
-    const index = this.state.columns.findIndex((col) => col.id === columnId);
-
-    if (index === -1) return null;
-
-    const currentColumn = this.state.columns[index];
+    const currentColumn = this.columns.get(columnId);
     if (!currentColumn) return null;
-    const updatedColumn: Column = { ...currentColumn, ...patch, id: columnId, title: patch.title ?? currentColumn.title };
-    this.state.columns[index] = updatedColumn;
+
+    const updatedColumn: Column = seal({
+      ...currentColumn,
+      ...copyFields(patch),
+      id: columnId,
+      title: patch.title ?? currentColumn.title,
+    });
+    this.columns.set(columnId, updatedColumn);
+    this.touch('columns');
     return updatedColumn;
   }
 
   /**
-   * Remove a column
+   * Remove a column, handling its cards according to the policy
+   *
+   * - 'cascade' removes the column's cards
+   * - { moveTo } appends them to another column, keeping their order
+   * - 'reject-if-not-empty' refuses to remove a column that still has cards
    */
-  removeColumn(columnId: ID): boolean {
-    const index = this.state.columns.findIndex((col) => col.id === columnId);
-    
-    if (index === -1) return false;
-    
-    this.state.columns.splice(index, 1);
+  removeColumn(columnId: ID, policy: RemovalPolicy = 'cascade'): boolean {
+    if (!this.columns.has(columnId)) return false;
+
+    const cards = this.getCards(columnId);
+
+    if (typeof policy === 'object') {
+      const target = this.getColumn(policy.moveTo);
+      if (!target || target.id === columnId) return false;
+
+      // Cards follow the target column into its lane, or leave theirs if it has none
+      const toLaneId = target.laneId ?? undefined;
+      cards.forEach((card) => {
+        if (toLaneId === undefined && card.laneId !== undefined) {
+          this.writeCards([seal(withoutLane(card))]);
+        }
+        this.moveCard(card.id, target.id, toLaneId);
+      });
+    } else if (cards.length > 0) {
+      if (policy === 'reject-if-not-empty') return false;
+      cards.forEach((card) => this.deleteCard(card.id));
+    }
+
+    this.columns.delete(columnId);
+    this.buckets.delete(columnId);
+    this.touch('columns');
     this.reorderColumns();
     return true;
   }
@@ -196,30 +363,35 @@ export class StateManager {
    */
   addCard(card: Card, index?: number): Card {
     const cardsInColumn = this.getCards(card.columnId, card.laneId);
-    const newCard = { ...card, order: index ?? cardsInColumn.length };
-    
-    if (index !== undefined) {
-      this.state.cards.push(newCard);
-      this.reorderCards(card.columnId, card.laneId);
+    const insertAt =
+      index === undefined ? cardsInColumn.length : this.clampIndex(index, cardsInColumn.length);
+    const newCard = seal({ ...copyFields(card), order: insertAt });
+
+    if (index === undefined && this.ordering === 'index') {
+      this.writeCards([newCard]);
     } else {
-      this.state.cards.push(newCard);
+      cardsInColumn.splice(insertAt, 0, newCard);
+      this.placeCard(cardsInColumn, insertAt);
     }
-    
-    return newCard;
+
+    return this.cards.get(newCard.id) ?? newCard;
   }
 
   /**
    * Update a card
    */
   updateCard(cardId: ID, patch: Partial<Card>): Card | null {
-    const index = this.state.cards.findIndex((card) => card.id === cardId);
-
-    if (index === -1) return null;
-
-    const currentCard = this.state.cards[index];
+    const currentCard = this.cards.get(cardId);
     if (!currentCard) return null;
-    const updatedCard: Card = { ...currentCard, ...patch, id: cardId, title: patch.title ?? currentCard.title, columnId: patch.columnId ?? currentCard.columnId };
-    this.state.cards[index] = updatedCard;
+
+    const updatedCard: Card = seal({
+      ...currentCard,
+      ...copyFields(patch),
+      id: cardId,
+      title: patch.title ?? currentCard.title,
+      columnId: patch.columnId ?? currentCard.columnId,
+    });
+    this.writeCards([updatedCard]);
     return updatedCard;
   }
 
@@ -227,100 +399,313 @@ export class StateManager {
    * Remove a card
    */
   removeCard(cardId: ID): boolean {
-    const index = this.state.cards.findIndex((card) => card.id === cardId);
-
-    if (index === -1) return false;
-
-    const card = this.state.cards[index];
+    const card = this.cards.get(cardId);
     if (!card) return false;
-    this.state.cards.splice(index, 1);
+
+    this.deleteCard(cardId);
     this.reorderCards(card.columnId, card.laneId);
     return true;
   }
 
   /**
    * Move a card to a new column/lane and/or position
+   *
+   * `toIndex` is the position among the destination cards excluding the moved
+   * card. Without it, cards moved to another column/lane are appended and cards
+   * staying in place keep their position.
    */
   moveCard(cardId: ID, toColumnId: ID, toLaneId?: ID | null, toIndex?: number): boolean {
-    const cardIndex = this.state.cards.findIndex((c) => c.id === cardId);
-    if (cardIndex === -1) return false;
-
-    const card = this.state.cards[cardIndex];
+    const card = this.cards.get(cardId);
     if (!card) return false;
 
     const oldColumnId = card.columnId;
     const oldLaneId = card.laneId;
+    const newLaneId = toLaneId !== undefined ? toLaneId : card.laneId;
+    const sameContainer = oldColumnId === toColumnId && oldLaneId === newLaneId;
 
-    // Update card
-    card.columnId = toColumnId;
-    if (toLaneId !== undefined) {
-      card.laneId = toLaneId;
-    }
+    if (sameContainer && toIndex === undefined) return true;
 
-    // Reorder old and new columns
-    if (oldColumnId !== toColumnId || oldLaneId !== (toLaneId ?? card.laneId)) {
-      this.reorderCards(oldColumnId, oldLaneId);
-      this.reorderCards(toColumnId, toLaneId ?? card.laneId);
-    }
+    const siblings = this.getCards(toColumnId, newLaneId).filter((c) => c.id !== cardId);
+    const insertAt =
+      toIndex === undefined ? siblings.length : this.clampIndex(toIndex, siblings.length);
+
+    // Insert at the requested position
+    const moved = withoutLane({ ...card, columnId: toColumnId });
+    siblings.splice(insertAt, 0, newLaneId === undefined ? moved : { ...moved, laneId: newLaneId });
+    this.placeCard(siblings, insertAt);
 
-    // Move to specific index if provided
-    if (toIndex !== undefined) {
-      card.order = toIndex;
-      this.reorderCards(toColumnId, toLaneId ?? card.laneId);
+    // Close the gap left in the source column
+    if (!sameContainer) {
+      this.reorderCards(oldColumnId, oldLaneId);
     }
 
     return true;
   }
 
   /**
-   * Normalize orders for all entities
+   * Get the IDs of the columns in a lane and of the cards in the lane or its columns
    */
-  private normalizeOrders(): void {
-    // Lanes
-    if (this.state.lanes) {
-      this.state.lanes.forEach((lane, index) => {
-        if (lane.order === undefined) lane.order = index;
-      });
-    }
+  getLaneDependents(laneId: ID): { columnIds: ID[]; cardIds: ID[] } {
+    const columnIds = this.getColumns(laneId).map((col) => col.id);
+    const inColumns = new Set(columnIds);
+    const cardIds: ID[] = [];
+    this.cards.forEach((card) => {
+      if (card.laneId === laneId || inColumns.has(card.columnId)) cardIds.push(card.id);
+    });
+    return { columnIds, cardIds };
+  }
+
+  /**
+   * Get the position of a card among the cards of its column/lane
+   */
+  getCardIndex(cardId: ID): number {
+    const card = this.getCard(cardId);
+    if (!card) return -1;
+    return this.getCardIds(card.columnId, card.laneId).indexOf(cardId);
+  }
 
-    // Columns
-    this.state.columns.forEach((col, index) => {
-      if (col.order === undefined) col.order = index;
+  /**
+   * Replace all data with an incoming state
+   * Entities from snapshots are reused as they are; others are copied.
+   */
+  private load(source: Partial<KanbanState>): void {
+    this.lanes = new Map();
+    this.columns = new Map();
+    this.cards = new Map();
+    this.buckets = new Map();
+    this.unsortedBuckets = new Set();
+
+    // Missing orders default to the array position
+    const withOrder = <T extends Lane | Column | Card>(entity: T, index: number): T =>
+      entity.order === undefined ? seal({ ...copyFields(entity), order: index }) : adopt(entity);
+
+    (source.lanes ?? []).forEach((lane, index) => {
+      this.lanes.set(lane.id, withOrder(lane, index));
+    });
+    (source.columns ?? []).forEach((col, index) => {
+      this.columns.set(col.id, withOrder(col, index));
     });
+    const cards = (source.cards ?? []).map(withOrder);
+    convertCardOrders(cards, this.ordering).forEach((card) => {
+      this.cards.set(card.id, seal(card));
+    });
+    this.cards.forEach((card) => this.bucketFor(card.columnId, card.laneId, true).push(card.id));
+    this.buckets.forEach((lanes) => lanes.forEach((ids) => this.unsortedBuckets.add(ids)));
+
+    this.schemaVersion = source.schemaVersion;
+    this.metaVersions = source.metaVersions !== undefined ? { ...source.metaVersions } : undefined;
 
-    // Cards
-    this.state.cards.forEach((card, index) => {
-      if (card.order === undefined) card.order = index;
+    this.frozen = { lanes: null, columns: null, cards: null };
+    this.snapshot = null;
+  }
+
+  /**
+   * Store new versions of cards, moving them between buckets as needed
+   */
+  private writeCards(cards: Card[]): void {
+    cards.forEach((next) => {
+      const prev = this.cards.get(next.id);
+      if (prev === next) return;
+      this.cards.set(next.id, next);
+
+      if (prev && prev.columnId === next.columnId && prev.laneId === next.laneId) {
+        const bucket = this.bucketFor(next.columnId, next.laneId, true);
+        if (prev.order !== next.order) this.unsortedBuckets.add(bucket);
+        return;
+      }
+
+      if (prev) this.removeFromBucket(prev);
+      const bucket = this.bucketFor(next.columnId, next.laneId, true);
+      bucket.push(next.id);
+      this.unsortedBuckets.add(bucket);
     });
+    if (cards.length > 0) this.touch('cards');
+  }
+
+  /**
+   * Delete a card without renumbering its siblings
+   */
+  private deleteCard(cardId: ID): void {
+    const card = this.cards.get(cardId);
+    if (!card) return;
+    this.cards.delete(cardId);
+    this.removeFromBucket(card);
+    this.touch('cards');
+  }
+
+  private removeFromBucket(card: Card): void {
+    const bucket = this.bucketFor(card.columnId, card.laneId, false);
+    if (!bucket) return;
+    const index = bucket.indexOf(card.id);
+    if (index !== -1) bucket.splice(index, 1);
+  }
+
+  private bucketFor(columnId: ID, laneId: LaneKey, create: true): ID[];
+  private bucketFor(columnId: ID, laneId: LaneKey, create: false): ID[] | undefined;
+  private bucketFor(columnId: ID, laneId: LaneKey, create: boolean): ID[] | undefined {
+    let lanes = this.buckets.get(columnId);
+    if (!lanes) {
+      if (!create) return undefined;
+      lanes = new Map();
+      this.buckets.set(columnId, lanes);
+    }
+
+    let bucket = lanes.get(laneId);
+    if (!bucket && create) {
+      bucket = [];
+      lanes.set(laneId, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Card IDs of a column (optionally of one lane in it), sorted by order
+   */
+  private getCardIds(columnId: ID, laneId?: ID | null): ID[] {
+    const lanes = this.buckets.get(columnId);
+    if (!lanes) return [];
+
+    if (laneId !== undefined) {
+      const bucket = lanes.get(laneId);
+      return bucket ? this.sortBucket(bucket) : [];
+    }
+
+    const buckets = Array.from(lanes.values());
+    if (buckets.length === 1 && buckets[0]) return this.sortBucket(buckets[0]);
+
+    // All lanes of the column
+    return buckets.flat().sort((a, b) => this.compareCards(a, b));
+  }
+
+  private sortBucket(bucket: ID[]): ID[] {
+    if (this.unsortedBuckets.delete(bucket)) {
+      bucket.sort((a, b) => this.compareCards(a, b));
+    }
+    return bucket;
+  }
+
+  private compareCards(a: ID, b: ID): number {
+    const left = this.cards.get(a);
+    const right = this.cards.get(b);
+    return left && right ? this.compareItems(left, right) : 0;
+  }
+
+  private sortByOrder<T extends Lane | Column | Card>(items: T[]): T[] {
+    return items.sort((a, b) => this.compareItems(a, b));
+  }
+
+  /**
+   * Compare by order; equal orders (e.g. set concurrently by two replicas) are
+   * sorted by ID, so every replica agrees whatever the ordering mode
+   */
+  private compareItems(a: Lane | Column | Card, b: Lane | Column | Card): number {
+    const result = compareOrder(a.order, b.order);
+    if (result !== 0) return result;
+
+    const left = String(a.id);
+    const right = String(b.id);
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  /**
+   * Insert an item into a sorted list, replacing its previous position
+   */
+  private insertBefore<T extends { id: ID }>(items: T[], item: T, index: number): T[] {
+    const others = items.filter((other) => other.id !== item.id);
+    others.splice(this.clampIndex(index, others.length), 0, item);
+    return others;
+  }
+
+  /**
+   * Invalidate the cached snapshot for a collection
+   */
+  private touch(collection: Collection): void {
+    this.frozen[collection] = null;
+    this.snapshot = null;
+  }
+
+  private freezeCollection<T extends Lane | Column | Card>(items: Map<ID, T>): T[] {
+    return Object.freeze(Array.from(items.values())) as T[];
+  }
+
+  /**
+   * Clamp an insertion index to [0, length]
+   */
+  private clampIndex(index: number, length: number): number {
+    return Math.max(0, Math.min(index, length));
+  }
+
+  /**
+   * Give items sequential orders, replacing only those whose order changes
+   */
+  private renumber<T extends Lane | Column | Card>(items: T[]): T[] {
+    return items.map((item, index) =>
+      item.order === index && isSealed(item) ? item : seal({ ...item, order: index })
+    );
+  }
+
+  private renumberLanes(lanes: Lane[]): void {
+    this.renumber(lanes).forEach((lane) => this.lanes.set(lane.id, lane));
+    this.touch('lanes');
+  }
+
+  private renumberColumns(columns: Column[]): void {
+    this.renumber(columns).forEach((col) => this.columns.set(col.id, col));
+    this.touch('columns');
+  }
+
+  private renumberCards(cards: Card[]): void {
+    this.writeCards(this.renumber(cards));
+  }
+
+  /**
+   * Store a card placed at `index` of a sorted list of cards
+   * Index ordering renumbers the list; fractional ordering only gives the
+   * placed card a key between its neighbours.
+   */
+  private placeCard(cards: Card[], index: number): void {
+    const card = cards[index];
+    if (!card) return;
+
+    if (this.ordering === 'index') {
+      this.renumberCards(cards);
+      return;
+    }
+
+    const fits = (order: unknown): order is string | null => order === null || isOrderKey(order);
+    const before = index > 0 ? cards[index - 1]?.order : null;
+    const after = index < cards.length - 1 ? cards[index + 1]?.order : null;
+
+    if (fits(before) && fits(after) && (before === null || after === null || before < after)) {
+      this.writeCards([seal({ ...card, order: generateKeyBetween(before, after) })]);
+      return;
+    }
+
+    // Neighbours without usable keys (e.g. orders patched by hand): rekey the list
+    const keys = generateNKeysBetween(null, null, cards.length);
+    this.writeCards(cards.map((item, i) => seal({ ...item, order: keys[i] })));
   }
 
   /**
    * Reorder lanes sequentially
    */
   private reorderLanes(): void {
-    const lanes = this.getLanes();
-    lanes.forEach((lane, index) => {
-      lane.order = index;
-    });
+    this.renumberLanes(this.getLanes());
   }
 
   /**
    * Reorder columns sequentially
    */
   private reorderColumns(): void {
-    const columns = this.getColumns();
-    columns.forEach((col, index) => {
-      col.order = index;
-    });
+    this.renumberColumns(this.getColumns());
   }
 
   /**
    * Reorder cards in a specific column sequentially
    */
   private reorderCards(columnId: ID, laneId?: ID | null): void {
-    const cards = this.getCards(columnId, laneId);
-    cards.forEach((card, index) => {
-      card.order = index;
-    });
+    // Fractional keys stay valid when a card leaves
+    if (this.ordering === 'fractional') return;
+    this.renumberCards(this.getCards(columnId, laneId));
   }
 }
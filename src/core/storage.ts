@@ -1,114 +1,92 @@
 /**
- * Saharos Kanban - LocalStorage Integration
- * Handles saving and loading board state from localStorage
+ * Saharos Kanban - Storage Integration
+ * Handles saving and loading board state through a StorageAdapter
  */
 
-import type { KanbanState } from './types';
+import type { KanbanState, StorageAdapter } from './types';
+import { LocalStorageAdapter } from './adapters';
+import { validateState, hasFatalIssues } from './validation';
 
 /**
- * Storage Manager for LocalStorage persistence
+ * Storage Manager - validates and persists board state through an adapter
+ * A plain string key is shorthand for a LocalStorageAdapter.
  */
 export class StorageManager {
-  private storageKey: string;
+  private adapter: StorageAdapter;
 
-  constructor(storageKey: string) {
-    this.storageKey = storageKey;
+  constructor(adapterOrKey: StorageAdapter | string) {
+    this.adapter =
+      typeof adapterOrKey === 'string' ? new LocalStorageAdapter(adapterOrKey) : adapterOrKey;
   }
 
   /**
-   * Validate that a value is a valid KanbanState
+   * Save state through the adapter
+   * Resolves to false if the adapter failed; `onError` receives the reason.
    */
-  private validateState(state: unknown): state is KanbanState {
-    if (!state || typeof state !== 'object') return false;
-
-    const s = state as Record<string, unknown>;
-
-    // Validate columns array
-    if (!Array.isArray(s.columns)) return false;
-    if (!s.columns.every((col: unknown) =>
-      typeof col === 'object' &&
-      col !== null &&
-      'id' in col &&
-      'title' in col
-    )) return false;
-
-    // Validate cards array
-    if (!Array.isArray(s.cards)) return false;
-    if (!s.cards.every((card: unknown) =>
-      typeof card === 'object' &&
-      card !== null &&
-      'id' in card &&
-      'title' in card &&
-      'columnId' in card
-    )) return false;
-
-    // Validate lanes array (optional)
-    if (s.lanes !== undefined) {
-      if (!Array.isArray(s.lanes)) return false;
-      if (!s.lanes.every((lane: unknown) =>
-        typeof lane === 'object' &&
-        lane !== null &&
-        'id' in lane &&
-        'title' in lane
-      )) return false;
-    }
-
-    return true;
-  }
-
-  /**
-   * Save state to localStorage
-   */
-  save(state: KanbanState): boolean {
+  async save(state: KanbanState, onError?: (error: unknown) => void): Promise<boolean> {
     try {
-      const serialized = JSON.stringify(state);
-      localStorage.setItem(this.storageKey, serialized);
+      await this.adapter.save(state);
       return true;
     } catch (error) {
-      console.error('[Saharos] Failed to save to localStorage:', error);
+      console.error('[Saharos] Failed to save state:', error);
+      onError?.(error);
       return false;
     }
   }
 
   /**
-   * Load state from localStorage
+   * Load state through the adapter
+   * `migrate` upgrades older payloads before they are validated. Malformed
+   * entries are cleared unless `repair` is set, in which case the caller is
+   * expected to run repairState on the result. Rejects if the adapter or a
+   * migration fails, so a save that could not be read is never taken for
+   * an empty one (and overwritten).
    */
-  load(): KanbanState | null {
-    try {
-      const serialized = localStorage.getItem(this.storageKey);
-      if (!serialized) return null;
-
-      const state = JSON.parse(serialized) as unknown;
-
-      // Validate the loaded state to prevent injection attacks
-      if (!this.validateState(state)) {
-        console.error('[Saharos] Invalid state format in localStorage. State has been cleared.');
-        this.clear();
-        return null;
-      }
+  async load(opts?: {
+    repair?: boolean;
+    migrate?: (state: KanbanState) => KanbanState;
+  }): Promise<KanbanState | null> {
+    let state = (await this.adapter.load()) as unknown;
+    if (state === null || state === undefined) return null;
+
+    if (opts?.migrate && typeof state === 'object' && !Array.isArray(state)) {
+      state = opts.migrate(state as KanbanState);
+    }
 
-      return state;
-    } catch (error) {
-      console.error('[Saharos] Failed to load from localStorage:', error);
+    // Validate the loaded state to prevent injection attacks
+    const report = validateState(state);
+    const unusable = report.errors.some((issue) => issue.code === 'invalid-state');
+    if (unusable || (!opts?.repair && hasFatalIssues(report))) {
+      console.error('[Saharos] Invalid state format in storage. State has been cleared.');
+      await this.clear();
       return null;
     }
+
+    return state as KanbanState;
   }
 
   /**
    * Clear saved state
    */
-  clear(): boolean {
+  async clear(): Promise<boolean> {
     try {
-      localStorage.removeItem(this.storageKey);
+      await this.adapter.clear();
       return true;
     } catch (error) {
-      console.error('[Saharos] Failed to clear localStorage:', error);
+      console.error('[Saharos] Failed to clear state:', error);
       return false;
     }
   }
 
   /**
-   * Check if storage is available
+   * Get the underlying adapter
+   */
+  getAdapter(): StorageAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * Check if localStorage is available
    */
   static isAvailable(): boolean {
     try {
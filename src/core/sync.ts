@@ -0,0 +1,202 @@
+/**
+ * Saharos Kanban - Cross-Tab Synchronization
+ * Shares operations between tabs showing the same board
+ */
+
+import type {
+  KanbanOperation,
+  CrossTabSyncOptions,
+  SyncConflictResolver,
+  SyncStamp,
+} from './types';
+
+interface SyncMessage {
+  type: 'operations';
+  tabId: string;
+  clock: number;
+  operations: KanbanOperation[];
+}
+
+/**
+ * Key of the entity an operation writes to, used to detect conflicting edits
+ */
+export function entityKey(op: KanbanOperation): string {
+  switch (op.type) {
+    case 'card:add':
+      return `card:${op.card.id}`;
+    case 'card:update':
+    case 'card:remove':
+    case 'card:move':
+      return `card:${op.cardId}`;
+    case 'column:add':
+      return `column:${op.column.id}`;
+    case 'column:update':
+    case 'column:remove':
+    case 'column:move':
+      return `column:${op.columnId}`;
+    case 'lane:add':
+      return `lane:${op.lane.id}`;
+    case 'lane:update':
+    case 'lane:remove':
+    case 'lane:move':
+      return `lane:${op.laneId}`;
+    case 'state:load':
+      return 'board';
+  }
+}
+
+/**
+ * Default policy: the write with the higher Lamport clock wins, ties are
+ * broken by tab ID so every tab picks the same winner
+ */
+const lastWriteWins: SyncConflictResolver = ({ local, remote }) => {
+  if (remote.clock !== local.clock) return remote.clock > local.clock ? 'remote' : 'local';
+  return remote.tabId > local.tabId ? 'remote' : 'local';
+};
+
+/**
+ * CrossTabSync - Broadcasts local operations and receives those of other tabs
+ *
+ * Uses BroadcastChannel where available and falls back to the `storage` event.
+ * Every operation is stamped with a Lamport clock; when a remote operation
+ * touches an entity this tab wrote concurrently, the conflict policy decides
+ * which write is kept.
+ */
+export class CrossTabSync {
+  private channelName: string;
+  private tabId: string;
+  private clock: number = 0;
+  private resolver: SyncConflictResolver;
+  private onRemote: (operations: KanbanOperation[], tabId: string) => void;
+  private channel: BroadcastChannel | null = null;
+  private destroyed: boolean = false;
+
+  // Latest known write per entity
+  private stamps: Map<string, SyncStamp> = new Map();
+
+  constructor(
+    channelName: string,
+    options: CrossTabSyncOptions,
+    onRemote: (operations: KanbanOperation[], tabId: string) => void
+  ) {
+    this.channelName = channelName;
+    this.tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    this.onRemote = onRemote;
+
+    const conflict = options.conflict ?? 'last-write-wins';
+    this.resolver =
+      typeof conflict === 'function'
+        ? conflict
+        : conflict === 'remote-wins'
+          ? () => 'remote'
+          : lastWriteWins;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(channelName);
+      this.channel.onmessage = (event: MessageEvent) => this.receive(event.data);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage);
+    }
+  }
+
+  /**
+   * ID of this tab, as seen by other tabs
+   */
+  getTabId(): string {
+    return this.tabId;
+  }
+
+  /**
+   * Send operations applied in this tab to the other tabs
+   */
+  broadcast(operations: KanbanOperation[]): void {
+    if (this.destroyed || operations.length === 0) return;
+
+    this.clock++;
+    const stamp: SyncStamp = { clock: this.clock, tabId: this.tabId };
+    operations.forEach((op) => this.stamps.set(entityKey(op), stamp));
+
+    const message: SyncMessage = {
+      type: 'operations',
+      tabId: this.tabId,
+      clock: this.clock,
+      operations,
+    };
+
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    try {
+      // The storage event only fires for changed values, hence the nonce
+      localStorage.setItem(this.storageKey(), JSON.stringify({ ...message, nonce: Math.random() }));
+      localStorage.removeItem(this.storageKey());
+    } catch (error) {
+      console.error('[Saharos] Failed to broadcast changes:', error);
+    }
+  }
+
+  /**
+   * Stop listening and sending
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    } else if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorage);
+    }
+  }
+
+  private handleStorage = (event: StorageEvent): void => {
+    if (event.key !== this.storageKey() || !event.newValue) return;
+
+    try {
+      this.receive(JSON.parse(event.newValue));
+    } catch (error) {
+      console.error('[Saharos] Ignoring malformed sync message:', error);
+    }
+  };
+
+  private receive(data: unknown): void {
+    if (this.destroyed || !this.isMessage(data) || data.tabId === this.tabId) return;
+
+    this.clock = Math.max(this.clock, data.clock) + 1;
+    const remote: SyncStamp = { clock: data.clock, tabId: data.tabId };
+
+    const accepted = data.operations.filter((operation) => {
+      const key = entityKey(operation);
+      const local = this.stamps.get(key);
+
+      if (local && this.resolver({ operation, local, remote }) === 'local') {
+        return false;
+      }
+
+      this.stamps.set(key, remote);
+      return true;
+    });
+
+    if (accepted.length > 0) {
+      this.onRemote(accepted, data.tabId);
+    }
+  }
+
+  private isMessage(data: unknown): data is SyncMessage {
+    if (typeof data !== 'object' || data === null) return false;
+    const message = data as Partial<SyncMessage>;
+    return (
+      message.type === 'operations' &&
+      typeof message.tabId === 'string' &&
+      typeof message.clock === 'number' &&
+      Array.isArray(message.operations)
+    );
+  }
+
+  private storageKey(): string {
+    return `${this.channelName}::sync`;
+  }
+}
@@ -3,6 +3,8 @@
  * Zero-dependency Kanban board library
  */
 
+import type { KanbanModel } from './model';
+
 export type ID = string | number;
 
 /**
@@ -57,7 +59,11 @@ export interface Card {
   columnId: ID;
   laneId?: ID | null;
   description?: string;
-  order?: number;
+  /**
+   * Position among the cards of its column/lane: a number with 'index'
+   * ordering, a fractional key (e.g. "a0", "a0V") with 'fractional' ordering
+   */
+  order?: number | string;
   labels?: string[];
   meta?: Record<string, unknown>;
 }
@@ -66,11 +72,149 @@ export interface Card {
  * Complete state of the Kanban board
  */
 export interface KanbanState {
+  /** Schema version of the serialized state (missing means 0) */
+  schemaVersion?: number;
+  /** Versions of plugin-owned meta data, keyed by migration namespace */
+  metaVersions?: Record<string, number>;
   lanes?: Lane[];
   columns: Column[];
   cards: Card[];
 }
 
+/**
+ * Upgrade of the serialized state by one version
+ */
+export interface StateMigration {
+  /** Version this migration produces; it runs on states at `version - 1` */
+  version: number;
+  /** Plugin namespace owning the migrated meta data; omit for core schema migrations */
+  namespace?: string;
+  description?: string;
+  /** Return the upgraded state; the input is a private copy and may be modified */
+  migrate: (state: KanbanState) => KanbanState;
+}
+
+/**
+ * A migration that was applied, as reported by `state:migrated`
+ */
+export interface MigrationStep {
+  /** Plugin namespace, or null for the core schema */
+  namespace: string | null;
+  from: number;
+  to: number;
+  description?: string;
+}
+
+/**
+ * How card positions are stored
+ * - 'index': dense integers; a move renumbers the cards after it
+ * - 'fractional': lexicographic keys; a move only changes the moved card
+ */
+export type CardOrdering = 'index' | 'fractional';
+
+/**
+ * Options for a StateManager
+ */
+export interface StateManagerOptions {
+  ordering?: CardOrdering;
+}
+
+/**
+ * Kind of problem found by validateState
+ */
+export type ValidationIssueCode =
+  | 'invalid-state'
+  | 'invalid-entity'
+  | 'missing-field'
+  | 'invalid-id'
+  | 'duplicate-id'
+  | 'invalid-title'
+  | 'invalid-order'
+  | 'missing-column'
+  | 'missing-lane';
+
+/**
+ * A single problem found in a board state
+ */
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  code: ValidationIssueCode;
+  /** Location in the state, e.g. `cards[3].columnId` */
+  path: string;
+  message: string;
+  /** ID of the affected entity, when it has a usable one */
+  id?: ID;
+}
+
+/**
+ * Result of validateState
+ */
+export interface ValidationReport {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/**
+ * Options for repairState
+ */
+export interface RepairOptions {
+  /** Column that receives orphaned cards; a full column is added if missing (default: first column) */
+  fallbackColumn?: ID | Column;
+}
+
+/**
+ * State validation options
+ */
+export interface ValidationOptions extends RepairOptions {
+  /**
+   * What to do with invalid state passed to the constructor, loadState or read from storage:
+   * 'warn' loads it as-is, 'repair' fixes it first, 'strict' refuses it (default: 'warn')
+   */
+  mode?: 'warn' | 'repair' | 'strict';
+}
+
+/**
+ * What happens to the cards of a removed column
+ * 'cascade' removes them, { moveTo } moves them to another column,
+ * 'reject-if-not-empty' keeps the column if it still has cards
+ */
+export type RemovalPolicy = 'cascade' | 'reject-if-not-empty' | { moveTo: ID };
+
+/**
+ * What happens to the columns and cards of a removed lane
+ * { moveTo: null } detaches them from any lane
+ */
+export type LaneRemovalPolicy = 'cascade' | 'reject-if-not-empty' | { moveTo: ID | null };
+
+/**
+ * Serializable description of a single board mutation
+ * Reported in `state:change` payloads (one entry per mutation, several for a batch)
+ */
+export type KanbanOperation =
+  | { type: 'card:add'; card: Card; index?: number }
+  | { type: 'card:update'; cardId: ID; patch: Partial<Card> }
+  | { type: 'card:remove'; cardId: ID }
+  | { type: 'card:move'; cardId: ID; to: { columnId: ID; laneId?: ID | null; index?: number } }
+  | { type: 'column:add'; column: Column; index?: number }
+  | { type: 'column:update'; columnId: ID; patch: Partial<Column> }
+  | { type: 'column:remove'; columnId: ID; policy?: RemovalPolicy }
+  | { type: 'column:move'; columnId: ID; toIndex: number }
+  | { type: 'lane:add'; lane: Lane; index?: number }
+  | { type: 'lane:update'; laneId: ID; patch: Partial<Lane> }
+  | { type: 'lane:remove'; laneId: ID; policy?: LaneRemovalPolicy }
+  | { type: 'lane:move'; laneId: ID; toIndex: number }
+  | { type: 'state:load'; state: KanbanState };
+
+/**
+ * RFC 6902 JSON Patch operation
+ * Entities are addressed by ID, e.g. `/cards/42/title` or `/columns/todo`
+ */
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
 /**
  * Column-specific rules for validation and constraints
  */
@@ -80,6 +224,34 @@ export interface ColumnRule {
   customValidator?: (card: Card) => boolean;
 }
 
+/**
+ * Column rule that rejected a card
+ */
+export type ColumnRuleViolation = 'max-cards' | 'not-accepting' | 'custom-validator';
+
+/**
+ * Why a card move was rejected: a column rule, or a vetoed `card:move:before`
+ */
+export type MoveRejectionReason = ColumnRuleViolation | 'cancelled';
+
+/**
+ * Context passed to the `onBeforeMove` guard
+ */
+export interface MoveContext {
+  card: Card;
+  from: Column | null;
+  to: Column;
+  /** Position of the card among the target column's cards after the move */
+  index: number;
+  laneId?: ID | null;
+  cause: 'api' | 'pointer' | 'keyboard';
+}
+
+/**
+ * Async move guard - resolve `false` or reject to roll the move back
+ */
+export type BeforeMoveGuard = (ctx: MoveContext) => Promise<boolean> | boolean;
+
 /**
  * Drag and drop configuration options
  */
@@ -88,9 +260,451 @@ export interface DragOptions {
   mirrorClass?: string;
   hoverClassColumn?: string;
   hoverClassCardPlaceholder?: string;
+  disabledClassColumn?: string;
   pointerTolerance?: number;
 }
 
+/**
+ * Persistence backend used by the board
+ * Implement this to save boards to a custom backend.
+ */
+export interface StorageAdapter {
+  /** Resolve the stored state, or null if nothing was saved yet */
+  load(): Promise<KanbanState | null>;
+  save(state: KanbanState): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Autosave configuration options
+ */
+export interface AutosaveOptions {
+  /** Debounce/throttle interval in ms (default: 300) */
+  delay?: number;
+  /** Longest a change may stay unsaved in 'debounce' mode, in ms (default: 2000) */
+  maxWait?: number;
+  /** 'debounce' waits for changes to settle, 'throttle' saves at a fixed rate (default: 'debounce') */
+  mode?: 'debounce' | 'throttle';
+}
+
+/**
+ * Logical time of a write, used to order concurrent edits across tabs
+ */
+export interface SyncStamp {
+  clock: number;
+  tabId: string;
+}
+
+/**
+ * Decide which of two concurrent writes to the same entity is kept
+ */
+export type SyncConflictResolver = (conflict: {
+  operation: KanbanOperation;
+  local: SyncStamp;
+  remote: SyncStamp;
+}) => 'local' | 'remote';
+
+/**
+ * Cross-tab synchronization options
+ */
+export interface CrossTabSyncOptions {
+  /** Channel name shared by the tabs (default: derived from `storageKey` or `id`) */
+  channel?: string;
+  /** Conflict policy for simultaneous edits (default: 'last-write-wins') */
+  conflict?: 'last-write-wins' | 'remote-wins' | SyncConflictResolver;
+}
+
+/**
+ * Logical timestamp of a replica write: a Lamport clock, ties broken by replica ID
+ */
+export interface ReplicaStamp {
+  clock: number;
+  replicaId: string;
+}
+
+/**
+ * Write to one register of a replicated entity
+ * `field` is a top-level field name, or `$exists` (added/removed) or
+ * `$position` (column, lane and order, written together so that concurrent
+ * moves are never mixed).
+ */
+export interface ReplicaChange {
+  kind: 'lane' | 'column' | 'card';
+  id: ID;
+  field: string;
+  /** Missing for fields that were removed */
+  value?: unknown;
+  stamp: ReplicaStamp;
+}
+
+/**
+ * Message exchanged between replicas
+ * `changes` carries writes; `request` asks the other replicas for all of theirs.
+ */
+export type ReplicaMessage =
+  | { type: 'changes'; replicaId: string; changes: ReplicaChange[] }
+  | { type: 'request'; replicaId: string };
+
+/**
+ * Transport connecting replicas (WebSocket, WebRTC, BroadcastChannel, ...)
+ * Messages must reach every other replica; order and duplicates do not matter.
+ */
+export interface ReplicaTransport {
+  send(message: ReplicaMessage): void;
+  /** Listen for messages from other replicas; returns a function that stops listening */
+  subscribe(listener: (message: ReplicaMessage) => void): () => void;
+}
+
+/**
+ * Collaborative editing options
+ */
+export interface ReplicaOptions {
+  /** Unique ID of this replica (default: random) */
+  replicaId?: string;
+}
+
+/**
+ * Who a connected client is, as shown to other users
+ */
+export interface PresenceUser {
+  name?: string;
+  /** CSS color used for the user's marker on cards */
+  color?: string;
+}
+
+/**
+ * What a user is doing on the board: the card they have focused or are dragging
+ */
+export interface CardPresence {
+  cardId: ID;
+  mode: 'focus' | 'drag';
+}
+
+/**
+ * Presence of another client connected to the same WebSocket endpoint
+ */
+export interface RemotePresence {
+  clientId: string;
+  user: PresenceUser;
+  presence: CardPresence | null;
+}
+
+/**
+ * Connection state of a WebSocket sync client
+ */
+export type WebSocketSyncStatus = 'connecting' | 'open' | 'closed';
+
+/**
+ * Minimal WebSocket constructor, so a Node implementation (e.g. `ws`) can be passed in
+ */
+export type WebSocketConstructor = new (url: string, protocols?: string | string[]) => WebSocket;
+
+/**
+ * Real-time sync options
+ */
+export interface WebSocketSyncOptions {
+  /** Endpoint speaking the Saharos sync protocol (see examples/sync-server.mjs) */
+  url: string;
+  protocols?: string | string[];
+  /** Unique ID of this client (default: random) */
+  clientId?: string;
+  /** Shown to other users next to the cards this user is on */
+  user?: PresenceUser;
+  /** Reconnect after the connection drops (default: true, 1s doubling up to 30s) */
+  reconnect?: boolean | { delay?: number; maxDelay?: number };
+  /** WebSocket implementation (default: the global WebSocket) */
+  WebSocket?: WebSocketConstructor;
+}
+
+/**
+ * HTTP call made for an operation by the REST sync plugin
+ */
+export interface RestRequest {
+  method: string;
+  /** Appended to `baseUrl` */
+  url: string;
+  /** Sent as JSON */
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Map of operation types to the HTTP call that persists them
+ * Operations without an endpoint, or whose endpoint returns null, are not sent.
+ */
+export type RestEndpoints = {
+  [K in KanbanOperation['type']]?: (
+    operation: Extract<KanbanOperation, { type: K }>
+  ) => RestRequest | null;
+};
+
+/**
+ * State of the REST sync queue
+ * `retrying` waits to send again after a failed request; `offline` waits for the network.
+ */
+export type RestSyncStatus = 'idle' | 'syncing' | 'retrying' | 'offline';
+
+/**
+ * REST sync plugin options
+ */
+export interface RestSyncOptions {
+  endpoints: RestEndpoints;
+  baseUrl?: string;
+  /** Added to every request, e.g. for authentication */
+  headers?: Record<string, string> | (() => Record<string, string>);
+  /**
+   * Retry delays double from `delay` up to `maxDelay` (default: 1s, 30s, 10 attempts).
+   * `maxAttempts` only applies to error responses; network failures are retried until they succeed.
+   */
+  retry?: { delay?: number; maxDelay?: number; maxAttempts?: number };
+  /** fetch implementation (default: the global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * CSV columns holding card fields, by header name
+ */
+export interface CsvFieldMapping {
+  /** Default: 'id' */
+  id?: string;
+  /** Default: 'title' */
+  title?: string;
+  /** Default: 'description' */
+  description?: string;
+  /** The card's column (default: 'status') */
+  status?: string;
+  /** The card's lane (default: 'lane') */
+  lane?: string;
+  /** Default: 'labels' */
+  labels?: string;
+  /** Separator between labels in one cell (default: ',') */
+  labelSeparator?: string;
+  /**
+   * Meta keys and the header of the CSV column holding each (default: a column
+   * per meta key on export, every header that is not a card field on import)
+   */
+  meta?: Record<string, string>;
+}
+
+/**
+ * exportCSV() options
+ */
+export interface CsvExportOptions extends CsvFieldMapping {
+  /** Default: ',' */
+  delimiter?: string;
+  /** Write column and lane IDs instead of titles */
+  useIds?: boolean;
+}
+
+/**
+ * importCSV() options
+ */
+export interface CsvImportOptions extends CsvFieldMapping {
+  /** Default: detected from the header row */
+  delimiter?: string;
+  /** Existing columns to match status values against, by ID or title */
+  columns?: Column[];
+  /** Existing lanes to match lane values against, by ID or title */
+  lanes?: Lane[];
+  /** What to do with rows whose status matches none of `columns` (default: 'create') */
+  unknownColumns?: 'create' | 'skip' | 'error';
+  /** Only report what would be imported; never throws for bad rows */
+  dryRun?: boolean;
+}
+
+/**
+ * What importCSV() found in the file
+ */
+export interface CsvImportReport {
+  dryRun: boolean;
+  delimiter: string;
+  headers: string[];
+  /** Headers not mapped to any card field; their values are ignored */
+  unmappedHeaders: string[];
+  /** Data rows in the file */
+  rows: number;
+  /** Cards imported (or that would be) */
+  cards: number;
+  /** Status values matching none of the given `columns` */
+  unknownColumns: string[];
+  /** Lane values matching none of the given `lanes` */
+  unknownLanes: string[];
+  /** Rows left out, numbered from 1 for the first data row */
+  skipped: Array<{ row: number; reason: string }>;
+}
+
+/**
+ * Result of importCSV()
+ */
+export interface CsvImportResult {
+  state: KanbanState;
+  report: CsvImportReport;
+}
+
+/**
+ * exportMarkdown() options
+ */
+export interface MarkdownExportOptions {
+  /** Write card IDs as `[id:: …]` fields so a re-import keeps them (default: true) */
+  ids?: boolean;
+  /** Add the front matter and settings block Obsidian Kanban expects (default: true) */
+  obsidian?: boolean;
+}
+
+/**
+ * Trello board export (Board menu > Print, export and share > Export as JSON)
+ * Only the fields importTrello() reads are declared.
+ */
+export interface TrelloBoard {
+  id: string;
+  name: string;
+  lists?: TrelloList[];
+  cards?: TrelloCard[];
+  labels?: TrelloLabel[];
+  checklists?: TrelloChecklist[];
+  members?: Array<{ id: string; fullName?: string; username?: string }>;
+  actions?: unknown[];
+  customFields?: unknown[];
+}
+
+export interface TrelloList {
+  id: string;
+  name: string;
+  closed?: boolean;
+  pos?: number;
+}
+
+export interface TrelloLabel {
+  id: string;
+  name?: string;
+  color?: string | null;
+}
+
+export interface TrelloCard {
+  id: string;
+  name: string;
+  desc?: string;
+  idList: string;
+  closed?: boolean;
+  pos?: number;
+  idLabels?: string[];
+  labels?: TrelloLabel[];
+  idChecklists?: string[];
+  idMembers?: string[];
+  due?: string | null;
+  dueComplete?: boolean;
+  start?: string | null;
+  shortUrl?: string;
+  url?: string;
+  attachments?: Array<{ name?: string; url?: string }>;
+}
+
+export interface TrelloChecklist {
+  id: string;
+  name: string;
+  idCard: string;
+  pos?: number;
+  checkItems?: Array<{ id: string; name: string; state: 'complete' | 'incomplete'; pos?: number }>;
+}
+
+/**
+ * importTrello() options
+ */
+export interface TrelloImportOptions {
+  /** Archived lists and cards: left out (default) or imported with `meta.archived` */
+  archived?: 'skip' | 'include';
+  /** Labels without a name: named after their color (default) or dropped */
+  unnamedLabels?: 'color' | 'skip';
+}
+
+/**
+ * Something importTrello() left out or could not convert exactly
+ */
+export interface TrelloImportIssue {
+  type: 'list' | 'card' | 'label' | 'board';
+  id: string;
+  name: string;
+  reason: string;
+}
+
+/**
+ * What importTrello() converted
+ */
+export interface TrelloImportReport {
+  board: string;
+  /** Lists imported as columns */
+  columns: number;
+  cards: number;
+  checklists: number;
+  /** Label names, with the Trello color of each */
+  labels: Array<{ name: string; color: string | null }>;
+  /** Lists, cards and labels left out */
+  skipped: TrelloImportIssue[];
+  /** Data that was imported with something lost */
+  lossy: TrelloImportIssue[];
+}
+
+/**
+ * Result of importTrello()
+ */
+export interface TrelloImportResult {
+  state: KanbanState;
+  report: TrelloImportReport;
+}
+
+/**
+ * Options for applyOperations()
+ */
+export interface ApplyOperationsOptions {
+  /** Set for changes made elsewhere: no undo step, no autosave, no state:change */
+  origin?: string;
+}
+
+/**
+ * Undo/redo history configuration options
+ */
+export interface HistoryOptions {
+  /** Maximum number of undo steps kept (default: 100) */
+  limit?: number;
+  /** Time window in ms within which edits sharing a merge key become one step (default: 1000) */
+  mergeWindow?: number;
+}
+
+/**
+ * Operation log configuration options
+ */
+export interface OperationLogOptions {
+  /** Who makes local changes, stored on each entry (e.g. the signed-in user) */
+  actor?: string | (() => string | undefined);
+  /** Called with new entries as they are appended, e.g. to persist them */
+  onAppend?: (entries: OperationLogEntry[]) => void;
+  /** Card ordering used for replays; a board passes its own */
+  ordering?: CardOrdering;
+}
+
+/**
+ * Operation recorded in an operation log
+ */
+export type OperationLogEntry = KanbanOperation & {
+  /** Position in the log, starting at 1 */
+  seq: number;
+  /** When the operation was applied (ms since epoch) */
+  at: number;
+  actor?: string;
+  /** Set for changes made elsewhere (see ApplyOperationsOptions) */
+  origin?: string;
+};
+
+/**
+ * Operation log as exported for persistence: the starting state and every
+ * operation applied since
+ */
+export interface SerializedOperationLog {
+  version: number;
+  base: KanbanState;
+  entries: OperationLogEntry[];
+}
+
 /**
  * Accessibility configuration options
  */
@@ -149,6 +763,47 @@ export type RenderColumnHeaderHook = (col: Column, helpers: RenderHelpers) => HT
  */
 export type RenderLaneHeaderHook = (lane: Lane, helpers: RenderHelpers) => HTMLElement;
 
+/**
+ * Card filter - return `false` to hide a card
+ * Hidden cards stay in the state; only rendering and exports leave them out.
+ */
+export type CardFilter = (card: Card) => boolean;
+
+/**
+ * exportHTML() options
+ */
+export interface HtmlExportOptions {
+  /** Document title (default: 'Kanban board') */
+  title?: string;
+  /** Theme stylesheet to inline (default: the board's `sk-theme-*` class, if any) */
+  theme?: 'light' | 'dark' | 'colorful' | null;
+}
+
+/**
+ * Colors of an SVG export
+ */
+export interface SvgExportColors {
+  board: string;
+  column: string;
+  columnBorder: string;
+  card: string;
+  cardBorder: string;
+  text: string;
+  textSecondary: string;
+  accent: string;
+  accentBackground: string;
+}
+
+/**
+ * exportSVG() options
+ */
+export interface SvgExportOptions {
+  /** Column width in pixels (default: 280) */
+  columnWidth?: number;
+  /** Default: the board's `--sk-*` color variables, where they are plain colors */
+  colors?: Partial<SvgExportColors>;
+}
+
 /**
  * Event types
  */
@@ -160,65 +815,195 @@ export type SaharosEvent =
   | 'column:update'
   | 'column:remove'
   | 'column:move'
+  | 'column:add:before'
+  | 'column:update:before'
+  | 'column:remove:before'
+  | 'column:move:before'
   | 'lane:add'
   | 'lane:update'
   | 'lane:remove'
   | 'lane:move'
+  | 'lane:add:before'
+  | 'lane:update:before'
+  | 'lane:remove:before'
+  | 'lane:move:before'
   | 'card:add'
   | 'card:update'
   | 'card:remove'
+  | 'card:add:rejected'
+  | 'card:add:before'
+  | 'card:update:before'
+  | 'card:remove:before'
+  | 'card:move:before'
   | 'card:click'
   | 'card:dblclick'
   | 'card:drag:start'
   | 'card:drag:over'
   | 'card:drag:end'
   | 'card:drag:cancel'
+  | 'card:move:rejected'
+  | 'card:move:rollback'
   | 'a11y:focus:card'
-  | 'a11y:move:card';
+  | 'a11y:move:card'
+  | 'history:change'
+  | 'filter:change'
+  | 'storage:load'
+  | 'storage:saved'
+  | 'storage:error'
+  | 'sync:remote-change'
+  | 'sync:status'
+  | 'sync:error'
+  | 'sync:presence'
+  | 'rest:status'
+  | 'rest:sent'
+  | 'rest:error'
+  | 'state:integrity'
+  | 'state:migrated';
 
 /**
  * Event handler signature
  */
 export type EventHandler<T = unknown> = (data: T) => void;
 
+/**
+ * Payload of cancelable "before" events
+ * Call `preventDefault()` (or return `false` from the handler) to veto the operation.
+ * Other fields may be modified in place to change what gets applied.
+ */
+export type BeforeEvent<T> = T & {
+  preventDefault(): void;
+  readonly defaultPrevented: boolean;
+};
+
+/**
+ * Handler signature for cancelable "before" events
+ */
+export type BeforeEventHandler<T> = (event: BeforeEvent<T>) => boolean | void;
+
 /**
  * Event handlers mapping
  */
 export interface SaharosEventHandlers {
   'board:ready': EventHandler<void>;
   'board:destroy': EventHandler<void>;
-  'state:change': EventHandler<{ state: KanbanState }>;
+  'state:change': EventHandler<{
+    state: KanbanState;
+    operations: KanbanOperation[];
+    /** JSON Patch from the state of the previous state:change */
+    patch: JsonPatchOperation[];
+  }>;
   'column:add': EventHandler<{ column: Column }>;
   'column:update': EventHandler<{ column: Column }>;
-  'column:remove': EventHandler<{ columnId: ID }>;
+  'column:remove': EventHandler<{ columnId: ID; policy: RemovalPolicy; cardIds: ID[] }>;
   'column:move': EventHandler<{ column: Column; toIndex: number }>;
+  'column:add:before': BeforeEventHandler<{ column: Column; index?: number }>;
+  'column:update:before': BeforeEventHandler<{ columnId: ID; patch: Partial<Column> }>;
+  'column:remove:before': BeforeEventHandler<{ column: Column; policy: RemovalPolicy }>;
+  'column:move:before': BeforeEventHandler<{ column: Column; toIndex: number }>;
   'lane:add': EventHandler<{ lane: Lane }>;
   'lane:update': EventHandler<{ lane: Lane }>;
-  'lane:remove': EventHandler<{ laneId: ID }>;
+  'lane:remove': EventHandler<{
+    laneId: ID;
+    policy: LaneRemovalPolicy;
+    columnIds: ID[];
+    cardIds: ID[];
+  }>;
   'lane:move': EventHandler<{ lane: Lane; toIndex: number }>;
+  'lane:add:before': BeforeEventHandler<{ lane: Lane; index?: number }>;
+  'lane:update:before': BeforeEventHandler<{ laneId: ID; patch: Partial<Lane> }>;
+  'lane:remove:before': BeforeEventHandler<{ lane: Lane; policy: LaneRemovalPolicy }>;
+  'lane:move:before': BeforeEventHandler<{ lane: Lane; toIndex: number }>;
   'card:add': EventHandler<{ card: Card }>;
   'card:update': EventHandler<{ card: Card }>;
   'card:remove': EventHandler<{ cardId: ID }>;
+  'card:add:rejected': EventHandler<{ card: Card; to: Column; reason: ColumnRuleViolation }>;
+  'card:add:before': BeforeEventHandler<{ card: Card; index?: number }>;
+  'card:update:before': BeforeEventHandler<{ cardId: ID; patch: Partial<Card> }>;
+  'card:remove:before': BeforeEventHandler<{ card: Card }>;
+  'card:move:before': BeforeEventHandler<{
+    card: Card;
+    from: Column | null;
+    to: { columnId: ID; laneId?: ID | null; index?: number };
+    cause: 'api' | 'pointer' | 'keyboard';
+  }>;
   'card:click': EventHandler<{ card: Card; event: MouseEvent }>;
   'card:dblclick': EventHandler<{ card: Card; event: MouseEvent }>;
   'card:drag:start': EventHandler<{ card: Card; event: PointerEvent }>;
   'card:drag:over': EventHandler<{ card: Card; column: Column }>;
-  'card:drag:end': EventHandler<{ card: Card; from: Column; to: Column }>;
+  'card:drag:end': EventHandler<{
+    card: Card;
+    from: Column;
+    to: Column;
+    /** Position among the target column's cards, excluding the moved card */
+    index: number;
+    /** Target lane, when the board has lanes */
+    laneId?: ID | null;
+  }>;
   'card:drag:cancel': EventHandler<{ card: Card }>;
+  'card:move:rejected': EventHandler<{
+    card: Card;
+    from: Column | null;
+    to: Column;
+    reason: MoveRejectionReason;
+    cause: 'api' | 'pointer' | 'keyboard';
+  }>;
+  'card:move:rollback': EventHandler<{
+    card: Card;
+    from: Column | null;
+    to: Column;
+    /** Rejection reason of the `onBeforeMove` promise, if it rejected */
+    error?: unknown;
+  }>;
   'a11y:focus:card': EventHandler<{ card: Card }>;
-  'a11y:move:card': EventHandler<{ card: Card; from: Column; to: Column }>;
+  'a11y:move:card': EventHandler<{ card: Card; from: Column; to: Column; index: number }>;
+  'history:change': EventHandler<{
+    canUndo: boolean;
+    canRedo: boolean;
+    action: 'record' | 'undo' | 'redo' | 'clear';
+  }>;
+  'filter:change': EventHandler<{ active: boolean; visible: number; total: number }>;
+  'storage:load': EventHandler<{ state: KanbanState; restored: boolean }>;
+  'storage:saved': EventHandler<{ state: KanbanState }>;
+  'storage:error': EventHandler<{ error: unknown }>;
+  'sync:remote-change': EventHandler<{ operations: KanbanOperation[]; origin: string }>;
+  'sync:status': EventHandler<{ status: WebSocketSyncStatus }>;
+  'sync:error': EventHandler<{ error: unknown }>;
+  'sync:presence': EventHandler<RemotePresence & { left: boolean }>;
+  'rest:status': EventHandler<{ status: RestSyncStatus; pending: number }>;
+  'rest:sent': EventHandler<{ operation: KanbanOperation; request: RestRequest; response: Response }>;
+  'rest:error': EventHandler<{
+    operation: KanbanOperation;
+    /** Null when no endpoint is mapped for the operation (it is never sent) */
+    request: RestRequest | null;
+    error: unknown;
+    /** 0 when the operation was never sent */
+    attempt: number;
+    /** False when the operation was dropped */
+    willRetry: boolean;
+  }>;
+  'state:integrity': EventHandler<{
+    report: ValidationReport;
+    source: 'options' | 'loadState' | 'storage';
+    repaired: boolean;
+  }>;
+  'state:migrated': EventHandler<{
+    steps: MigrationStep[];
+    source: 'options' | 'loadState' | 'storage' | 'register';
+  }>;
 }
 
 /**
  * Plugin context passed to plugins
  */
 export interface PluginContext {
-  board: unknown; // Will be SaharosKanban instance
+  board: unknown; // The SaharosKanban or KanbanModel the plugin is used on
   getState: () => KanbanState;
   setState: (state: KanbanState, opts?: { silent?: boolean }) => void;
   on: <K extends keyof SaharosEventHandlers>(event: K, handler: SaharosEventHandlers[K]) => void;
   off: <K extends keyof SaharosEventHandlers>(event: K, handler: SaharosEventHandlers[K]) => void;
   emit: <K extends keyof SaharosEventHandlers>(event: K, data?: Parameters<SaharosEventHandlers[K]>[0]) => void;
+  /** Register a migration for meta data owned by the plugin (set `namespace`) */
+  registerMigration: (migration: StateMigration) => void;
   options: SaharosKanbanOptions;
 }
 
@@ -228,9 +1013,9 @@ export interface PluginContext {
 export type SaharosKanbanPlugin = (ctx: PluginContext) => void;
 
 /**
- * Main options for SaharosKanban constructor
+ * Options for the headless KanbanModel: state, persistence, sync and move rules
  */
-export interface SaharosKanbanOptions {
+export interface KanbanModelOptions {
   lanes?: Lane[];
   columns?: Column[];
   cards?: Card[];
@@ -238,10 +1023,72 @@ export interface SaharosKanbanOptions {
 
   id?: string;
   storageKey?: string | null;
+  /** Storage backend; takes precedence over `storageKey` */
+  storage?: StorageAdapter | null;
+  /** Autosave timing; `false` only tracks changes until `flush()` is called */
+  autosave?: AutosaveOptions | false;
+  /** Share changes with other tabs showing the same board */
+  sync?: boolean | CrossTabSyncOptions;
+  /** Merge concurrent edits with other replicas of the board (see Replica) */
+  replica?: ReplicaOptions & { transport: ReplicaTransport };
+  /** Sync with a server in real time and show where other users are */
+  websocket?: WebSocketSyncOptions;
+  /** Integrity checks for loaded state */
+  validation?: ValidationOptions;
+  /** Additional state migrations, e.g. for application-owned meta data */
+  migrations?: StateMigration[];
+  /** How card positions are stored; defaults to 'index' */
+  ordering?: CardOrdering;
+
+  /** Allow reordering cards within a column by pointer or keyboard */
+  sortable?: boolean;
+
+  columnRules?: {
+    [columnId: string]: ColumnRule;
+  };
+
+  /**
+   * Confirm moves asynchronously (e.g. with a backend). Moves are applied
+   * optimistically, the card is marked pending, and the move is rolled back
+   * if the guard resolves `false` or rejects.
+   */
+  onBeforeMove?: BeforeMoveGuard;
+
+  history?: HistoryOptions | false;
+  /** Record every mutation in an append-only operation log (off by default) */
+  operationLog?: boolean | OperationLogOptions;
+
+  on?: Partial<SaharosEventHandlers>;
+  plugins?: SaharosKanbanPlugin[];
+
+  debug?: boolean;
+}
+
+/**
+ * A view attached to a KanbanModel (see `attachView`)
+ * The model calls it after changing the state, before emitting the events.
+ */
+export interface KanbanView {
+  /** Re-render the whole board; `immediate` skips waiting for the next frame */
+  render(immediate?: boolean): void;
+  /** Reflect applied card operations; positions are read from the model's state */
+  patch(operations: KanbanOperation[]): void;
+  /** Show or clear the marker of a move awaiting `onBeforeMove` */
+  setCardPending(cardId: ID, pending: boolean): void;
+}
+
+/**
+ * Main options for SaharosKanban constructor
+ */
+export interface SaharosKanbanOptions extends KanbanModelOptions {
+  /**
+   * Attach to an existing model instead of creating one; the model options
+   * above are then ignored, except `on` and `plugins`
+   */
+  model?: KanbanModel;
 
   readonly?: boolean;
   draggable?: boolean;
-  sortable?: boolean;
 
   scrollContainer?: HTMLElement | Window;
 
@@ -251,20 +1098,14 @@ export interface SaharosKanbanOptions {
 
   drag?: DragOptions;
 
-  columnRules?: {
-    [columnId: string]: ColumnRule;
-  };
-
   renderCard?: RenderCardHook;
   renderColumnHeader?: RenderColumnHeaderHook;
   renderLaneHeader?: RenderLaneHeaderHook;
 
-  a11y?: A11yOptions;
+  /** Show only the cards it accepts (see setFilter) */
+  filter?: CardFilter | null;
 
-  on?: Partial<SaharosEventHandlers>;
-  plugins?: SaharosKanbanPlugin[];
-
-  debug?: boolean;
+  a11y?: A11yOptions;
 }
 
 /**
@@ -274,6 +1115,22 @@ export interface MoveCardOptions {
   cause?: 'api' | 'pointer' | 'keyboard';
 }
 
+/**
+ * Remove column options
+ */
+export interface RemoveColumnOptions {
+  /** What happens to the column's cards (default: 'cascade') */
+  policy?: RemovalPolicy;
+}
+
+/**
+ * Remove lane options
+ */
+export interface RemoveLaneOptions {
+  /** What happens to the lane's columns and cards (default: 'cascade') */
+  policy?: LaneRemovalPolicy;
+}
+
 /**
  * Load state options
  */
@@ -287,3 +1144,14 @@ export interface LoadStateOptions {
 export interface AddItemOptions {
   index?: number;
 }
+
+/**
+ * Update item options (for cards, columns, lanes)
+ */
+export interface UpdateItemOptions {
+  /**
+   * Consecutive updates with the same merge key are collapsed into a single
+   * undo step, e.g. `card:${id}:title` while the user types a title
+   */
+  mergeKey?: string;
+}
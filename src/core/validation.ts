@@ -0,0 +1,298 @@
+/**
+ * Saharos Kanban - State Validation
+ * Integrity checks and repair for board state
+ */
+
+import type {
+  ID,
+  Lane,
+  Column,
+  Card,
+  KanbanState,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationReport,
+  RepairOptions,
+} from './types';
+import { compareOrder, generateKeyBetween, isOrderKey } from './ordering';
+
+type EntityKind = 'lanes' | 'columns' | 'cards';
+
+/**
+ * Issues that make a stored state unusable without repair
+ */
+export const FATAL_VALIDATION_CODES: ValidationIssueCode[] = [
+  'invalid-state',
+  'invalid-entity',
+  'invalid-id',
+  'missing-field',
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidId(value: unknown): value is ID {
+  return (
+    (typeof value === 'string' && value.length > 0) ||
+    (typeof value === 'number' && Number.isFinite(value))
+  );
+}
+
+// Cards may also use fractional order keys
+function isValidOrder(value: unknown, kind: EntityKind): boolean {
+  return (
+    value === undefined ||
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    (kind === 'cards' && isOrderKey(value))
+  );
+}
+
+/**
+ * Validate a board state
+ * Accepts untrusted input (e.g. parsed storage) and never throws.
+ */
+export function validateState(state: unknown): ValidationReport {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+
+  const report = (
+    severity: 'error' | 'warning',
+    code: ValidationIssueCode,
+    path: string,
+    message: string,
+    id?: ID
+  ) => {
+    const issue: ValidationIssue = { severity, code, path, message };
+    if (id !== undefined) issue.id = id;
+    (severity === 'error' ? errors : warnings).push(issue);
+  };
+
+  if (!isRecord(state)) {
+    report('error', 'invalid-state', '', 'State must be an object');
+    return { valid: false, errors, warnings };
+  }
+
+  if (!Array.isArray(state.columns)) {
+    report('error', 'invalid-state', 'columns', 'State must have a columns array');
+  }
+  if (!Array.isArray(state.cards)) {
+    report('error', 'invalid-state', 'cards', 'State must have a cards array');
+  }
+  if (state.lanes !== undefined && !Array.isArray(state.lanes)) {
+    report('error', 'invalid-state', 'lanes', 'Lanes must be an array when present');
+  }
+  if (errors.length > 0) return { valid: false, errors, warnings };
+
+  const ids: Record<EntityKind, Set<ID>> = {
+    lanes: new Set(),
+    columns: new Set(),
+    cards: new Set(),
+  };
+
+  // Shape, IDs and titles
+  const checkEntities = (kind: EntityKind, items: unknown[]) => {
+    items.forEach((item, index) => {
+      const path = `${kind}[${index}]`;
+
+      if (!isRecord(item)) {
+        report('error', 'invalid-entity', path, `${path} must be an object`);
+        return;
+      }
+
+      if (!('id' in item)) {
+        report('error', 'missing-field', `${path}.id`, `${path} is missing an id`);
+      } else if (!isValidId(item.id)) {
+        report('error', 'invalid-id', `${path}.id`, `${path} has an invalid id`);
+      } else if (ids[kind].has(item.id)) {
+        report(
+          'error',
+          'duplicate-id',
+          `${path}.id`,
+          `Duplicate id "${item.id}" in ${kind}`,
+          item.id
+        );
+      } else {
+        ids[kind].add(item.id);
+      }
+
+      const id = isValidId(item.id) ? item.id : undefined;
+      if (!('title' in item)) {
+        report('error', 'missing-field', `${path}.title`, `${path} is missing a title`, id);
+      } else if (typeof item.title !== 'string') {
+        report('error', 'invalid-title', `${path}.title`, `${path} has a non-string title`, id);
+      }
+
+      if (!isValidOrder(item.order, kind)) {
+        report('warning', 'invalid-order', `${path}.order`, `${path} has an invalid order`, id);
+      }
+    });
+  };
+
+  const lanes = (state.lanes ?? []) as unknown[];
+  const columns = state.columns as unknown[];
+  const cards = state.cards as unknown[];
+
+  checkEntities('lanes', lanes);
+  checkEntities('columns', columns);
+  checkEntities('cards', cards);
+
+  // References between entities
+  columns.forEach((column, index) => {
+    if (!isRecord(column)) return;
+    const id = isValidId(column.id) ? column.id : undefined;
+
+    if (
+      column.laneId !== undefined &&
+      column.laneId !== null &&
+      !ids.lanes.has(column.laneId as ID)
+    ) {
+      report(
+        'error',
+        'missing-lane',
+        `columns[${index}].laneId`,
+        `Column "${String(column.id)}" points at missing lane "${String(column.laneId)}"`,
+        id
+      );
+    }
+  });
+
+  cards.forEach((card, index) => {
+    if (!isRecord(card)) return;
+    const id = isValidId(card.id) ? card.id : undefined;
+
+    if (!('columnId' in card)) {
+      report(
+        'error',
+        'missing-field',
+        `cards[${index}].columnId`,
+        `cards[${index}] is missing a columnId`,
+        id
+      );
+    } else if (!ids.columns.has(card.columnId as ID)) {
+      report(
+        'error',
+        'missing-column',
+        `cards[${index}].columnId`,
+        `Card "${String(card.id)}" points at missing column "${String(card.columnId)}"`,
+        id
+      );
+    }
+
+    if (card.laneId !== undefined && card.laneId !== null && !ids.lanes.has(card.laneId as ID)) {
+      report(
+        'error',
+        'missing-lane',
+        `cards[${index}].laneId`,
+        `Card "${String(card.id)}" points at missing lane "${String(card.laneId)}"`,
+        id
+      );
+    }
+  });
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Check whether a report contains issues that cannot be loaded without repair
+ */
+export function hasFatalIssues(report: ValidationReport): boolean {
+  return report.errors.some((issue) => FATAL_VALIDATION_CODES.includes(issue.code));
+}
+
+/**
+ * Repair a board state so that it passes validateState
+ *
+ * - Entries that are not objects or have no usable id are dropped
+ * - Later duplicates of an id are dropped
+ * - Non-string titles are converted to strings, missing ones become "Untitled"
+ * - References to missing lanes are cleared
+ * - Cards pointing at missing columns are moved to the fallback column
+ *   (the first column by default), or dropped if there is none
+ */
+export function repairState(state: unknown, options: RepairOptions = {}): KanbanState {
+  const source = isRecord(state) ? state : {};
+
+  const sanitize = <T extends { id: ID; title: string }>(items: unknown, kind: EntityKind): T[] => {
+    if (!Array.isArray(items)) return [];
+    const seen = new Set<ID>();
+    const result: T[] = [];
+
+    items.forEach((item: unknown) => {
+      if (!isRecord(item) || !isValidId(item.id) || seen.has(item.id)) return;
+      seen.add(item.id);
+
+      const entity = { ...item } as Record<string, unknown>;
+      if (typeof entity.title !== 'string') {
+        entity.title =
+          entity.title === undefined || entity.title === null || typeof entity.title === 'object'
+            ? 'Untitled'
+            : String(entity.title as string | number | boolean);
+      }
+      if (!isValidOrder(entity.order, kind)) {
+        delete entity.order;
+      }
+      result.push(entity as T);
+    });
+
+    return result;
+  };
+
+  const lanes = sanitize<Lane>(source.lanes, 'lanes');
+  const columns = sanitize<Column>(source.columns, 'columns');
+  const cards = sanitize<Card>(source.cards, 'cards');
+
+  const laneIds = new Set(lanes.map((lane) => lane.id));
+  columns.forEach((column) => {
+    if (column.laneId !== undefined && column.laneId !== null && !laneIds.has(column.laneId)) {
+      delete column.laneId;
+    }
+  });
+
+  // Resolve the fallback column, adding it if a full column was given
+  const fallback = options.fallbackColumn;
+  let fallbackId: ID | null = columns[0]?.id ?? null;
+  if (fallback !== undefined) {
+    if (typeof fallback === 'object') {
+      const needsFallback = cards.some((card) => !columns.some((col) => col.id === card.columnId));
+      if (needsFallback && !columns.some((col) => col.id === fallback.id)) {
+        columns.push({ ...fallback });
+      }
+      fallbackId = fallback.id;
+    } else if (columns.some((col) => col.id === fallback)) {
+      fallbackId = fallback;
+    }
+  }
+
+  const columnIds = new Set(columns.map((column) => column.id));
+  const orphans = new Set<Card>();
+  const repairedCards = cards.filter((card) => {
+    if (card.laneId !== undefined && card.laneId !== null && !laneIds.has(card.laneId)) {
+      delete card.laneId;
+    }
+    if (columnIds.has(card.columnId)) return true;
+    if (fallbackId === null) return false;
+
+    card.columnId = fallbackId;
+    orphans.add(card);
+    return true;
+  });
+
+  // Append orphans after the cards already in the fallback column; missing
+  // orders count as the array position, as when the state is loaded
+  orphans.forEach((card) => {
+    let last: number | string | undefined;
+    repairedCards.forEach((other, index) => {
+      if (orphans.has(other) || other.columnId !== card.columnId) return;
+      if (other.laneId !== card.laneId) return;
+      const order = other.order ?? index;
+      if (last === undefined || compareOrder(order, last) > 0) last = order;
+    });
+    card.order = typeof last === 'string' ? generateKeyBetween(last, null) : (last ?? -1) + 1;
+    orphans.delete(card);
+  });
+
+  const repaired: KanbanState = { columns, cards: repairedCards };
+  if (lanes.length > 0 || source.lanes !== undefined) repaired.lanes = lanes;
+  return repaired;
+}
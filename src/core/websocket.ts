@@ -0,0 +1,377 @@
+/**
+ * Saharos Kanban - Real-time WebSocket Synchronization
+ * Shares operations and presence through a server (see examples/sync-server.mjs)
+ */
+
+import type {
+  CardPresence,
+  KanbanOperation,
+  KanbanState,
+  PresenceUser,
+  RemotePresence,
+  WebSocketSyncOptions,
+  WebSocketSyncStatus,
+} from './types';
+
+/**
+ * Operations accepted by the server, numbered by the server's version
+ */
+interface SyncBatch {
+  version: number;
+  clientId: string;
+  id: string;
+  operations: KanbanOperation[];
+}
+
+/**
+ * Messages sent by the server
+ */
+type ServerMessage =
+  | {
+      type: 'welcome';
+      epoch: string;
+      version: number;
+      batches: SyncBatch[];
+      peers: RemotePresence[];
+    }
+  | ({ type: 'ops' } & SyncBatch)
+  | { type: 'ack'; id: string; version: number }
+  | ({ type: 'presence' } & RemotePresence)
+  | { type: 'leave'; clientId: string };
+
+/**
+ * Messages sent by the client
+ */
+type ClientMessage =
+  | { type: 'hello'; clientId: string; epoch: string | null; version: number; user: PresenceUser }
+  | { type: 'ops'; id: string; operations: KanbanOperation[] }
+  | { type: 'presence'; presence: CardPresence | null };
+
+/**
+ * Callbacks connecting a WebSocketSync client to a board
+ */
+export interface WebSocketSyncHandlers {
+  /** Current state, sent to seed a server that has none */
+  getState(): KanbanState;
+  /** Apply operations made elsewhere */
+  apply(operations: KanbanOperation[], origin: string): void;
+  /** Apply own operations again that were already applied and recorded locally */
+  reapply(operations: KanbanOperation[]): void;
+  onStatus?(status: WebSocketSyncStatus): void;
+  onPresence?(peer: RemotePresence, left: boolean): void;
+}
+
+/**
+ * WebSocketSync - Sends local operations to a server and applies the ones of other clients
+ *
+ * The server numbers every accepted batch of operations with a version. The
+ * client remembers the last version it has seen, so after a reconnect it only
+ * receives the batches it missed. Local operations stay queued until the
+ * server acknowledges them and are sent again after a reconnect. Remote
+ * batches that arrive while local ones are unacknowledged are applied first,
+ * then the local ones on top, so every client ends up in the server's order.
+ */
+export class WebSocketSync {
+  private options: WebSocketSyncOptions;
+  private handlers: WebSocketSyncHandlers;
+  private clientId: string;
+  private socket: WebSocket | null = null;
+  private status: WebSocketSyncStatus = 'closed';
+  private destroyed: boolean = false;
+
+  // Last server version applied; 0 before the first sync. Versions only
+  // compare within one epoch, which changes when the server loses its history.
+  private version: number = 0;
+  private epoch: string | null = null;
+  // Set once the server's welcome has been handled
+  private synced: boolean = false;
+
+  // Local batches not yet acknowledged by the server
+  private outbox: Array<{ id: string; operations: KanbanOperation[] }> = [];
+  private seq: number = 0;
+
+  private presence: CardPresence | null = null;
+  private peers: Map<string, RemotePresence> = new Map();
+
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: WebSocketSyncOptions, handlers: WebSocketSyncHandlers) {
+    this.options = options;
+    this.handlers = handlers;
+    this.clientId =
+      options.clientId ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  /**
+   * ID of this client, as seen by the server and other clients
+   */
+  getClientId(): string {
+    return this.clientId;
+  }
+
+  getStatus(): WebSocketSyncStatus {
+    return this.status;
+  }
+
+  /**
+   * Last server version this client has caught up with
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Presence of the other connected clients
+   */
+  getPeers(): RemotePresence[] {
+    return Array.from(this.peers.values());
+  }
+
+  /**
+   * Open the connection
+   */
+  connect(): void {
+    if (this.destroyed || this.socket) return;
+
+    const WebSocketImpl =
+      this.options.WebSocket ?? (typeof WebSocket !== 'undefined' ? WebSocket : undefined);
+    if (!WebSocketImpl) {
+      throw new Error('[Saharos] WebSocket is not available; pass a WebSocket implementation');
+    }
+
+    const socket = new WebSocketImpl(this.options.url, this.options.protocols);
+    this.socket = socket;
+    this.setStatus('connecting');
+
+    socket.onopen = () => {
+      this.reconnectAttempt = 0;
+      this.write({
+        type: 'hello',
+        clientId: this.clientId,
+        epoch: this.epoch,
+        version: this.version,
+        user: this.options.user ?? {},
+      });
+    };
+    socket.onmessage = (event: MessageEvent) => {
+      try {
+        this.receive(JSON.parse(String(event.data)));
+      } catch (error) {
+        console.error('[Saharos] Ignoring malformed sync message:', error);
+      }
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.handleClose();
+    };
+    socket.onerror = () => {
+      // A close event always follows; reconnecting is handled there
+    };
+  }
+
+  /**
+   * Send operations applied on this board
+   */
+  send(operations: KanbanOperation[]): void {
+    if (this.destroyed || operations.length === 0) return;
+
+    const batch = { id: `${this.clientId}:${++this.seq}`, operations };
+    this.outbox.push(batch);
+    if (this.synced) {
+      this.write({ type: 'ops', ...batch });
+    }
+  }
+
+  /**
+   * Tell the other clients which card this user is on
+   */
+  setPresence(presence: CardPresence | null): void {
+    if (this.destroyed) return;
+    if (this.presence?.cardId === presence?.cardId && this.presence?.mode === presence?.mode) {
+      return;
+    }
+
+    this.presence = presence;
+    if (this.synced) {
+      this.write({ type: 'presence', presence });
+    }
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    this.synced = false;
+    socket?.close();
+  }
+
+  private receive(data: unknown): void {
+    if (this.destroyed || !this.isMessage(data)) return;
+
+    switch (data.type) {
+      case 'welcome':
+        this.handleWelcome(data);
+        return;
+
+      case 'ops':
+        if (!this.synced || data.version <= this.version) return;
+        this.version = data.version;
+        if (data.clientId === this.clientId) return;
+        this.handlers.apply(data.operations, data.clientId);
+        this.reapplyOutbox();
+        return;
+
+      case 'ack':
+        this.outbox = this.outbox.filter((batch) => batch.id !== data.id);
+        this.version = Math.max(this.version, data.version);
+        return;
+
+      case 'presence': {
+        if (data.clientId === this.clientId) return;
+        const peer: RemotePresence = {
+          clientId: data.clientId,
+          user: data.user,
+          presence: data.presence,
+        };
+        this.peers.set(peer.clientId, peer);
+        this.handlers.onPresence?.(peer, false);
+        return;
+      }
+
+      case 'leave': {
+        const peer = this.peers.get(data.clientId);
+        if (!peer) return;
+        this.peers.delete(data.clientId);
+        this.handlers.onPresence?.({ ...peer, presence: null }, true);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Catch up with the server after (re)connecting, then send what is queued
+   */
+  private handleWelcome(data: Extract<ServerMessage, { type: 'welcome' }>): void {
+    if (data.version === 0) {
+      // The server has no history (new, or restarted): seed it with this board,
+      // which already contains every queued change
+      this.outbox = [
+        {
+          id: `${this.clientId}:${++this.seq}`,
+          operations: [{ type: 'state:load', state: this.handlers.getState() }],
+        },
+      ];
+    } else {
+      // Batches of ours listed here reached the server before the connection dropped
+      const accepted = new Set(
+        data.batches.filter((batch) => batch.clientId === this.clientId).map((batch) => batch.id)
+      );
+      this.outbox = this.outbox.filter((batch) => !accepted.has(batch.id));
+
+      // Our own batches are already applied, unless a remote one came before them
+      if (data.batches.some((batch) => batch.clientId !== this.clientId)) {
+        data.batches.forEach((batch) => this.handlers.apply(batch.operations, batch.clientId));
+        this.reapplyOutbox();
+      }
+    }
+
+    this.epoch = data.epoch;
+    this.version = data.version;
+    this.synced = true;
+    this.setStatus('open');
+
+    this.outbox.forEach((batch) => this.write({ type: 'ops', ...batch }));
+    if (this.presence) {
+      this.write({ type: 'presence', presence: this.presence });
+    }
+
+    data.peers
+      .filter((peer) => peer.clientId !== this.clientId)
+      .forEach((peer) => {
+        this.peers.set(peer.clientId, peer);
+        this.handlers.onPresence?.(peer, false);
+      });
+  }
+
+  /**
+   * Put unacknowledged local operations back on top of remote ones
+   */
+  private reapplyOutbox(): void {
+    const operations = this.outbox.flatMap((batch) => batch.operations);
+    if (operations.length > 0) {
+      this.handlers.reapply(operations);
+    }
+  }
+
+  private handleClose(): void {
+    this.socket = null;
+    this.synced = false;
+    this.setStatus('closed');
+
+    // Peers are announced again by the next welcome
+    const peers = this.getPeers();
+    this.peers.clear();
+    peers.forEach((peer) => this.handlers.onPresence?.({ ...peer, presence: null }, true));
+
+    const { reconnect = true } = this.options;
+    if (this.destroyed || reconnect === false) return;
+
+    const { delay = 1000, maxDelay = 30000 } = reconnect === true ? {} : reconnect;
+    const wait = Math.min(delay * 2 ** this.reconnectAttempt, maxDelay);
+    this.reconnectAttempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, wait);
+  }
+
+  private write(message: ClientMessage): void {
+    if (this.socket?.readyState !== 1) return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private setStatus(status: WebSocketSyncStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.handlers.onStatus?.(status);
+  }
+
+  private isMessage(data: unknown): data is ServerMessage {
+    if (typeof data !== 'object' || data === null) return false;
+    const message = data as { type?: unknown; version?: unknown; clientId?: unknown };
+
+    switch (message.type) {
+      case 'welcome':
+        return (
+          typeof (data as { epoch?: unknown }).epoch === 'string' &&
+          typeof message.version === 'number' &&
+          Array.isArray((data as { batches?: unknown }).batches) &&
+          Array.isArray((data as { peers?: unknown }).peers)
+        );
+      case 'ops':
+        return (
+          typeof message.version === 'number' &&
+          typeof message.clientId === 'string' &&
+          Array.isArray((data as { operations?: unknown }).operations)
+        );
+      case 'ack':
+        return typeof message.version === 'number';
+      case 'presence':
+      case 'leave':
+        return typeof message.clientId === 'string';
+      default:
+        return false;
+    }
+  }
+}
@@ -3,9 +3,10 @@
  * Keyboard navigation and ARIA support
  */
 
-import type { Card, Column, KanbanState, A11yOptions, ID } from '../core/types';
+import type { Card, Column, KanbanState, A11yOptions, ID, ColumnRuleViolation } from '../core/types';
 import { parseId } from '../core/types';
 import { EventBus } from '../core/events';
+import { compareOrder } from '../core/ordering';
 
 interface FocusPosition {
   columnId: ID;
@@ -21,6 +22,7 @@ export class AccessibilityManager {
 
   private currentFocus: FocusPosition | null = null;
   private pickingCard: Card | null = null; // Card being moved via keyboard
+  private dropValidator: ((card: Card, column: Column) => ColumnRuleViolation | null) | null = null;
 
   // Bound event handlers to allow proper cleanup
   private boundHandleKeyDown: (e: KeyboardEvent) => void;
@@ -270,7 +272,7 @@ export class AccessibilityManager {
     }
 
     // Sort cards by order
-    cards.sort((a, b) => (a.order || 0) - (b.order || 0));
+    cards.sort((a, b) => compareOrder(a.order, b.order));
 
     const currentIndex = cards.findIndex(c => c.id === this.currentFocus?.cardId);
     if (currentIndex === -1 || !this.currentFocus) return;
@@ -313,7 +315,7 @@ export class AccessibilityManager {
       // Moving to another column - focus first card or header
       const cardsInNextColumn = state.cards.filter(c => c.columnId === nextColumn.id);
       if (cardsInNextColumn.length > 0) {
-        cardsInNextColumn.sort((a, b) => (a.order || 0) - (b.order || 0));
+        cardsInNextColumn.sort((a, b) => compareOrder(a.order, b.order));
         const firstCard = cardsInNextColumn[0];
         if (firstCard) {
           this.focusCard(firstCard.id);
@@ -333,7 +335,7 @@ export class AccessibilityManager {
     const state = this.getState();
     const cards = state.cards
       .filter(c => c.columnId === this.currentFocus?.columnId)
-      .sort((a, b) => (a.order || 0) - (b.order || 0));
+      .sort((a, b) => compareOrder(a.order, b.order));
 
     const firstCard = cards[0];
     if (firstCard) {
@@ -350,7 +352,7 @@ export class AccessibilityManager {
     const state = this.getState();
     const cards = state.cards
       .filter(c => c.columnId === this.currentFocus?.columnId)
-      .sort((a, b) => (a.order || 0) - (b.order || 0));
+      .sort((a, b) => compareOrder(a.order, b.order));
 
     const lastCard = cards[cards.length - 1];
     if (lastCard) {
@@ -403,22 +405,38 @@ export class AccessibilityManager {
 
     if (!fromColumn || !toColumn || !this.currentFocus) return;
 
-    // Calculate new position
-    let newOrder = 0;
+    // Enforce column rules - a rejected drop snaps back
+    const violation = this.dropValidator ? this.dropValidator(this.pickingCard, toColumn) : null;
+    if (violation) {
+      this.events.emit('card:move:rejected', {
+        card: this.pickingCard,
+        from: fromColumn,
+        to: toColumn,
+        reason: violation,
+        cause: 'keyboard',
+      });
+      this.cancelPickedCard();
+      return;
+    }
+
+    // Calculate new position: the place of the focused card in its column/lane
+    let newIndex = 0;
 
     if (this.currentFocus.cardId !== null) {
       const targetCard = state.cards.find(c => c.id === this.currentFocus?.cardId);
       if (targetCard) {
-        newOrder = targetCard.order || 0;
+        newIndex = state.cards
+          .filter(c => c.columnId === targetCard.columnId && c.laneId === targetCard.laneId)
+          .sort((a, b) => compareOrder(a.order, b.order))
+          .indexOf(targetCard);
       }
     } else {
       // Dropped on column header, put at start
-      newOrder = 0;
+      newIndex = 0;
     }
 
     // Update card
     this.pickingCard.columnId = this.currentFocus.columnId;
-    this.pickingCard.order = newOrder;
 
     // Clean up UI
     const cardEl = this.getCardElement(this.pickingCard.id);
@@ -433,6 +451,7 @@ export class AccessibilityManager {
       card: this.pickingCard,
       from: fromColumn,
       to: toColumn,
+      index: newIndex,
     });
 
     this.pickingCard = null;
@@ -456,6 +475,13 @@ export class AccessibilityManager {
     this.pickingCard = null;
   }
 
+  /**
+   * Set callback for validating keyboard drops against column rules
+   */
+  public setDropValidator(callback: (card: Card, column: Column) => ColumnRuleViolation | null): void {
+    this.dropValidator = callback;
+  }
+
   /**
    * Focus a card element
    */
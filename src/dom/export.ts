@@ -0,0 +1,333 @@
+/**
+ * Saharos Kanban - Static Export
+ * Renders read-only snapshots of a board as an HTML document or an SVG image
+ */
+
+import type {
+  Card,
+  Column,
+  HtmlExportOptions,
+  Lane,
+  RenderCardHook,
+  RenderColumnHeaderHook,
+  RenderLaneHeaderHook,
+  SvgExportColors,
+  SvgExportOptions,
+} from '../core/types';
+import { createRenderHelpers, defaultCardRenderer, renderBoard } from './render';
+import baseStyles from '../styles/index.css?inline';
+import printStyles from '../styles/print.css?inline';
+import lightTheme from '../styles/theme-light.css?inline';
+import darkTheme from '../styles/theme-dark.css?inline';
+import colorfulTheme from '../styles/theme-colorful.css?inline';
+
+const THEMES = { light: lightTheme, dark: darkTheme, colorful: colorfulTheme };
+
+/**
+ * What to export: the board's sorted, filtered entities and its render hooks
+ */
+export interface BoardSnapshot {
+  lanes: Lane[];
+  columns: Column[];
+  cards: Card[];
+  renderCard?: RenderCardHook;
+  renderColumnHeader?: RenderColumnHeaderHook;
+  renderLaneHeader?: RenderLaneHeaderHook;
+}
+
+/**
+ * Colors of the default theme (see styles/index.css)
+ */
+export const DEFAULT_SVG_COLORS: SvgExportColors = {
+  board: '#f5f5f5',
+  column: '#ffffff',
+  columnBorder: '#e0e0e0',
+  card: '#ffffff',
+  cardBorder: '#e0e0e0',
+  text: '#333333',
+  textSecondary: '#666666',
+  accent: '#0288d1',
+  accentBackground: '#e8f4f8',
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// ==================== HTML ====================
+
+/**
+ * Render a board into a self-contained HTML document
+ * The markup is what the board renders, custom hooks included, without the
+ * interactive attributes; the library styles (and the theme) are inlined.
+ */
+export function exportBoardHTML(snapshot: BoardSnapshot, options: HtmlExportOptions = {}): string {
+  const { title = 'Kanban board', theme = null } = options;
+
+  const board = document.createElement('div');
+  renderBoard(
+    board,
+    snapshot.lanes,
+    snapshot.columns,
+    snapshot.cards,
+    snapshot.renderCard,
+    snapshot.renderColumnHeader,
+    snapshot.renderLaneHeader
+  );
+  board.classList.add('sk-board--readonly', 'sk-board--static');
+
+  const styles = [baseStyles, theme ? THEMES[theme] : '', printStyles].filter(Boolean).join('\n');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeXml(title)}</title>`,
+    `<style>\n${styles}\n</style>`,
+    '</head>',
+    `<body class="sk-snapshot${theme ? ` sk-theme-${theme}` : ''}">`,
+    board.outerHTML,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+// ==================== SVG ====================
+
+// Layout metrics in pixels, close to the default stylesheet
+const PADDING = 16;
+const COLUMN_GAP = 16;
+const LANE_GAP = 24;
+const LANE_HEADER = 36;
+const COLUMN_HEADER = 44;
+const CARD_PADDING = 12;
+const CARD_GAP = 12;
+const EMPTY_COLUMN = 60;
+const TITLE = { size: 14, line: 20, width: 0.58 };
+const DESCRIPTION = { size: 12, line: 17, width: 0.55, maxLines: 4 };
+const LABEL = { size: 10, height: 18, gap: 4, width: 0.68 };
+
+/**
+ * Break text into lines of at most `maxChars` characters
+ */
+function wrapText(text: string, maxChars: number, maxLines: number = Infinity): string[] {
+  const lines: string[] = [];
+
+  text.split('\n').forEach((paragraph) => {
+    let line = '';
+    paragraph
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((word) => {
+        // Hard-break words longer than a line
+        while (word.length > maxChars) {
+          if (line) {
+            lines.push(line);
+            line = '';
+          }
+          lines.push(word.slice(0, maxChars));
+          word = word.slice(maxChars);
+        }
+        if (!line) {
+          line = word;
+        } else if (line.length + 1 + word.length <= maxChars) {
+          line += ` ${word}`;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+      });
+    if (line) lines.push(line);
+  });
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    const last = kept[maxLines - 1] ?? '';
+    kept[maxLines - 1] = `${last.slice(0, Math.max(0, maxChars - 1))}…`;
+    return kept;
+  }
+  return lines;
+}
+
+/**
+ * Text shown for a card, taken from the custom renderer's output when there is one
+ */
+function cardContent(
+  card: Card,
+  renderCard?: RenderCardHook
+): { title: string; description: string; labels: string[] } {
+  if (!renderCard) {
+    return { title: card.title, description: card.description ?? '', labels: card.labels ?? [] };
+  }
+
+  let el: HTMLElement;
+  try {
+    el = renderCard(card, createRenderHelpers());
+  } catch (error) {
+    console.error(`[Saharos] Custom card renderer failed for card "${card.id}":`, error);
+    el = defaultCardRenderer(card);
+  }
+
+  const text = (node: Element | null) => node?.textContent?.trim() ?? '';
+  const title = el.querySelector('.sk-card-title');
+  if (!title) {
+    // Unknown structure: all of its text as the title
+    return { title: text(el).replace(/\s+/g, ' '), description: '', labels: [] };
+  }
+  return {
+    title: text(title),
+    description: text(el.querySelector('.sk-card-description')),
+    labels: Array.from(el.querySelectorAll('.sk-card-label')).map(text).filter(Boolean),
+  };
+}
+
+/**
+ * Render a board as an SVG image: lanes, columns and cards as vector shapes
+ * Custom header and card renderers contribute their text; cards keep the
+ * title, description and labels of the default layout.
+ */
+export function exportBoardSVG(snapshot: BoardSnapshot, options: SvgExportOptions = {}): string {
+  const colors = { ...DEFAULT_SVG_COLORS, ...options.colors };
+  const columnWidth = options.columnWidth ?? 280;
+  const cardWidth = columnWidth - CARD_PADDING * 2;
+  const textWidth = cardWidth - CARD_PADDING * 2;
+  const chars = (metrics: { size: number; width: number }) =>
+    Math.max(1, Math.floor(textWidth / (metrics.size * metrics.width)));
+
+  const helpers = createRenderHelpers();
+  const headerText = <T>(
+    entity: T & { title: string },
+    hook?: (entity: T, h: typeof helpers) => HTMLElement
+  ) => (hook ? (hook(entity, helpers).textContent?.trim() ?? entity.title) : entity.title);
+
+  const renderCardShape = (card: Card, y: number): { svg: string; height: number } => {
+    const content = cardContent(card, snapshot.renderCard);
+    const parts: string[] = [];
+    let height = CARD_PADDING;
+
+    const titleLines = wrapText(content.title, chars(TITLE));
+    titleLines.forEach((line) => {
+      height += TITLE.line;
+      parts.push(
+        `<text x="${CARD_PADDING}" y="${height - 6}" font-size="${TITLE.size}" font-weight="500" fill="${colors.text}">${escapeXml(line)}</text>`
+      );
+    });
+
+    if (content.description) {
+      height += 4;
+      wrapText(content.description, chars(DESCRIPTION), DESCRIPTION.maxLines).forEach((line) => {
+        height += DESCRIPTION.line;
+        parts.push(
+          `<text x="${CARD_PADDING}" y="${height - 5}" font-size="${DESCRIPTION.size}" fill="${colors.textSecondary}">${escapeXml(line)}</text>`
+        );
+      });
+    }
+
+    if (content.labels.length > 0) {
+      let x = CARD_PADDING;
+      height += 8;
+      content.labels.forEach((label) => {
+        const text = label.toUpperCase();
+        const width = Math.ceil(text.length * LABEL.size * LABEL.width) + 16;
+        if (x > CARD_PADDING && x + width > cardWidth - CARD_PADDING) {
+          x = CARD_PADDING;
+          height += LABEL.height + LABEL.gap;
+        }
+        parts.push(
+          `<rect x="${x}" y="${height}" width="${width}" height="${LABEL.height}" rx="4" fill="${colors.accentBackground}"/>`,
+          `<text x="${x + 8}" y="${height + 13}" font-size="${LABEL.size}" font-weight="500" letter-spacing="0.5" fill="${colors.accent}">${escapeXml(text)}</text>`
+        );
+        x += width + LABEL.gap;
+      });
+      height += LABEL.height;
+    }
+
+    height += CARD_PADDING;
+    const svg = [
+      `<g class="sk-svg-card" data-card-id="${escapeXml(String(card.id))}" transform="translate(${CARD_PADDING} ${y})">`,
+      `<rect width="${cardWidth}" height="${height}" rx="4" fill="${colors.card}" stroke="${colors.cardBorder}"/>`,
+      ...parts,
+      '</g>',
+    ].join('');
+    return { svg, height };
+  };
+
+  const renderColumnShape = (column: Column, cards: Card[], x: number, y: number) => {
+    const parts: string[] = [];
+    let height = COLUMN_HEADER + CARD_PADDING;
+
+    cards.forEach((card, index) => {
+      if (index > 0) height += CARD_GAP;
+      const shape = renderCardShape(card, height);
+      parts.push(shape.svg);
+      height += shape.height;
+    });
+    height = Math.max(height, COLUMN_HEADER + EMPTY_COLUMN) + CARD_PADDING;
+
+    const title = headerText(column, snapshot.renderColumnHeader);
+    const svg = [
+      `<g class="sk-svg-column" data-column-id="${escapeXml(String(column.id))}" transform="translate(${x} ${y})">`,
+      `<rect width="${columnWidth}" height="${height}" rx="6" fill="${colors.column}" stroke="${colors.columnBorder}"/>`,
+      `<text x="16" y="28" font-size="16" font-weight="600" fill="${colors.text}">${escapeXml(title)}</text>`,
+      `<line x1="0" y1="${COLUMN_HEADER}" x2="${columnWidth}" y2="${COLUMN_HEADER}" stroke="${colors.columnBorder}"/>`,
+      ...parts,
+      '</g>',
+    ].join('');
+    return { svg, height };
+  };
+
+  // Columns side by side, in rows of one per lane
+  const rows: Array<{ lane: Lane | null; columns: Column[] }> =
+    snapshot.lanes.length > 0
+      ? snapshot.lanes.map((lane) => ({
+          lane,
+          columns: snapshot.columns.filter((column) => column.laneId === lane.id),
+        }))
+      : [{ lane: null, columns: snapshot.columns }];
+
+  const body: string[] = [];
+  let y = PADDING;
+  let width = PADDING * 2;
+
+  rows.forEach(({ lane, columns }, index) => {
+    if (index > 0) y += LANE_GAP;
+    if (lane) {
+      const title = headerText(lane, snapshot.renderLaneHeader);
+      body.push(
+        `<text class="sk-svg-lane" data-lane-id="${escapeXml(String(lane.id))}" x="${PADDING}" y="${y + 24}" font-size="20" font-weight="600" fill="${colors.text}">${escapeXml(title)}</text>`
+      );
+      y += LANE_HEADER;
+    }
+
+    let rowHeight = 0;
+    columns.forEach((column, columnIndex) => {
+      const cards = snapshot.cards.filter(
+        (card) => card.columnId === column.id && (!lane || card.laneId === lane.id)
+      );
+      const x = PADDING + columnIndex * (columnWidth + COLUMN_GAP);
+      const shape = renderColumnShape(column, cards, x, y);
+      body.push(shape.svg);
+      rowHeight = Math.max(rowHeight, shape.height);
+    });
+
+    width = Math.max(width, PADDING * 2 + columns.length * (columnWidth + COLUMN_GAP) - COLUMN_GAP);
+    y += rowHeight;
+  });
+
+  const height = y + PADDING;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif">`,
+    `<rect width="${width}" height="${height}" fill="${colors.board}"/>`,
+    ...body,
+    '</svg>',
+    '',
+  ].join('\n');
+}
@@ -342,13 +342,17 @@ export function removeCardFromDOM(container: HTMLElement, cardId: string | numbe
 }
 
 /**
- * Incremental DOM Update - Move a card between columns
+ * Incremental DOM Update - Move a card between columns and/or positions
+ *
+ * `index` is the position among the target column's cards excluding the moved
+ * card; without it the card is appended.
  */
 export function moveCardInDOM(
   container: HTMLElement,
   card: Card,
   toColumnId: string | number,
-  customCardRenderer?: (card: Card, helpers: RenderHelpers) => HTMLElement
+  customCardRenderer?: (card: Card, helpers: RenderHelpers) => HTMLElement,
+  index?: number
 ): void {
   const cardEl = container.querySelector(
     `.sk-card[data-card-id="${card.id}"]`
@@ -360,15 +364,20 @@ export function moveCardInDOM(
 
   if (!cardEl || !targetCardsContainer) return;
 
+  const siblings = Array.from(targetCardsContainer.children).filter(
+    (el) => el !== cardEl && el.classList.contains('sk-card')
+  );
+  const referenceEl = index !== undefined ? siblings[index] ?? null : null;
+
   // If custom renderer, re-render the card
   if (customCardRenderer) {
     const helpers = createRenderHelpers();
     const newCardEl = customCardRenderer(card, helpers);
     newCardEl.dataset.cardId = String(card.id);
-    cardEl.replaceWith(newCardEl);
-    targetCardsContainer.appendChild(newCardEl);
+    cardEl.remove();
+    targetCardsContainer.insertBefore(newCardEl, referenceEl);
   } else {
     // Just move the existing element
-    targetCardsContainer.appendChild(cardEl);
+    targetCardsContainer.insertBefore(cardEl, referenceEl);
   }
 }
@@ -9,41 +9,30 @@
 
 // Import styles
 import './styles/index.css';
+import './styles/print.css';
 
 // Main class
 export { SaharosKanban } from './core/Kanban';
 
-// Export types for TypeScript users
+// Everything that runs without a DOM (also available as 'saharos-kanban/core')
+export * from './core/index';
+
+// Export DOM types for TypeScript users
 export type {
-  ID,
-  Lane,
-  Column,
-  Card,
-  KanbanState,
-  ColumnRule,
   DragOptions,
   A11yOptions,
   RenderHelpers,
   RenderCardHook,
   RenderColumnHeaderHook,
   RenderLaneHeaderHook,
-  SaharosEvent,
-  EventHandler,
-  SaharosEventHandlers,
-  PluginContext,
-  SaharosKanbanPlugin,
+  CardFilter,
+  HtmlExportOptions,
+  SvgExportOptions,
+  SvgExportColors,
   SaharosKanbanOptions,
-  MoveCardOptions,
-  LoadStateOptions,
-  AddItemOptions,
 } from './core/types';
 
-// Export utility functions
-export { parseId, escapeSelector } from './core/types';
-
-// Export utilities
-export { EventBus } from './core/events';
-export { StateManager } from './core/state';
+// Export DOM utilities
 export {
   createRenderHelpers,
   defaultCardRenderer,
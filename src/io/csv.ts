@@ -0,0 +1,416 @@
+/**
+ * Saharos Kanban - CSV Import/Export
+ * Converts between KanbanState and RFC 4180 CSV, one row per card
+ */
+
+import type {
+  Card,
+  Column,
+  CsvExportOptions,
+  CsvFieldMapping,
+  CsvImportOptions,
+  CsvImportReport,
+  CsvImportResult,
+  ID,
+  KanbanState,
+  Lane,
+} from '../core/types';
+import { parseId } from '../core/types';
+import { compareOrder } from '../core/ordering';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Header names with the defaults filled in
+ */
+function resolveFields(mapping: CsvFieldMapping) {
+  return {
+    id: mapping.id ?? 'id',
+    title: mapping.title ?? 'title',
+    description: mapping.description ?? 'description',
+    status: mapping.status ?? 'status',
+    lane: mapping.lane ?? 'lane',
+    labels: mapping.labels ?? 'labels',
+  };
+}
+
+// ==================== Parsing ====================
+
+/**
+ * Split CSV text into rows of fields (RFC 4180)
+ * Quoted fields may contain delimiters, doubled quotes and line breaks.
+ * Both CRLF and LF line endings are accepted; blank lines are skipped.
+ */
+export function parseCSV(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i] as string;
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        quoted = false;
+        i++;
+        continue;
+      }
+      if (char === '\n') line++;
+      field += char;
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      line++;
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (quoted) {
+    throw new Error(`[Saharos] CSV parse error: unterminated quoted field at line ${line}`);
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Guess the delimiter from the header row: the candidate occurring most often outside quotes
+ */
+export function detectDelimiter(text: string): string {
+  const counts = new Map(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!quoted) {
+      const count = counts.get(char);
+      if (count !== undefined) counts.set(char, count + 1);
+    }
+  }
+
+  let best = ',';
+  counts.forEach((count, delimiter) => {
+    if (count > (counts.get(best) ?? 0)) best = delimiter;
+  });
+  return best;
+}
+
+// ==================== Export ====================
+
+function quoteField(value: string, delimiter: string): string {
+  const needsQuotes =
+    value.includes(delimiter) ||
+    value.includes('"') ||
+    value.includes('\n') ||
+    value.includes('\r') ||
+    value.trim() !== value;
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatMetaValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Serialize the cards of a state as CSV, one row per card
+ * Rows follow the board: column by column, cards in their order. Columns
+ * and lanes are written by title (or ID with `useIds`). Without a `meta`
+ * mapping, every meta key found on a card gets its own column.
+ */
+export function exportCSV(state: KanbanState, options: CsvExportOptions = {}): string {
+  const delimiter = options.delimiter ?? ',';
+  const labelSeparator = options.labelSeparator ?? ',';
+  const fields = resolveFields(options);
+  const hasLanes =
+    (state.lanes?.length ?? 0) > 0 || state.cards.some((card) => card.laneId != null);
+
+  const meta =
+    options.meta ??
+    Object.fromEntries(
+      Array.from(new Set(state.cards.flatMap((card) => Object.keys(card.meta ?? {})))).map(
+        (key) => [key, key]
+      )
+    );
+
+  const columns = [...state.columns].sort((a, b) => compareOrder(a.order, b.order));
+  const columnRank = new Map(columns.map((column, index) => [column.id, index]));
+  const columnsById = new Map(columns.map((column) => [column.id, column]));
+  const lanesById = new Map((state.lanes ?? []).map((lane) => [lane.id, lane]));
+  const name = (entity: Column | Lane | undefined, id: ID) =>
+    options.useIds || !entity ? String(id) : entity.title;
+
+  const rank = (card: Card) => columnRank.get(card.columnId) ?? columns.length;
+  const cards = [...state.cards].sort(
+    (a, b) => rank(a) - rank(b) || compareOrder(a.order, b.order)
+  );
+
+  const headers = [fields.id, fields.title, fields.description, fields.status];
+  if (hasLanes) headers.push(fields.lane);
+  headers.push(fields.labels, ...Object.values(meta));
+
+  const rows = cards.map((card) => {
+    const row = [
+      String(card.id),
+      card.title,
+      card.description ?? '',
+      name(columnsById.get(card.columnId), card.columnId),
+    ];
+    if (hasLanes) {
+      row.push(card.laneId == null ? '' : name(lanesById.get(card.laneId), card.laneId));
+    }
+    row.push(
+      (card.labels ?? []).join(labelSeparator),
+      ...Object.keys(meta).map((key) => formatMetaValue(card.meta?.[key]))
+    );
+    return row;
+  });
+
+  return [headers, ...rows]
+    .map((row) => row.map((value) => quoteField(value, delimiter)).join(delimiter))
+    .join('\r\n');
+}
+
+// ==================== Import ====================
+
+/**
+ * Meta values are read back as JSON where they parse (numbers, booleans,
+ * objects); anything else stays a string
+ */
+function parseMetaValue(value: string): unknown {
+  if (!/^[\d\-[{tfn]/.test(value)) return value;
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+}
+
+function slugify(value: string): string {
+  return (
+    value
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'item'
+  );
+}
+
+/**
+ * Finds existing entities by ID or title and creates the missing ones
+ * Columns are looked up within their lane (the scope), since each lane has its own.
+ */
+class EntityResolver<T extends Column | Lane> {
+  private byKey: Map<string, T> = new Map();
+  private ids: Set<string> = new Set();
+  readonly entities: T[];
+
+  constructor(
+    existing: T[] | undefined,
+    private create: (id: ID, title: string, scope: ID | null) => T,
+    private scopeOf: (entity: T) => ID | null = () => null
+  ) {
+    this.entities = (existing ?? []).map((entity) => ({ ...entity }));
+    this.entities.forEach((entity) => this.remember(entity));
+  }
+
+  find(value: string, scope: ID | null = null): T | undefined {
+    return this.byKey.get(this.key(value.trim(), scope));
+  }
+
+  add(value: string, scope: ID | null = null): T {
+    const base = slugify(value);
+    let id = base;
+    for (let n = 2; this.ids.has(id); n++) id = `${base}-${n}`;
+
+    const entity = this.create(id, value.trim(), scope);
+    entity.order = this.entities.length;
+    this.entities.push(entity);
+    this.remember(entity);
+    return entity;
+  }
+
+  private key(value: string, scope: ID | null): string {
+    return `${String(scope ?? '')}::${value.toLowerCase()}`;
+  }
+
+  private remember(entity: T): void {
+    const scope = this.scopeOf(entity);
+    this.ids.add(String(entity.id));
+    this.byKey.set(this.key(String(entity.id), scope), entity);
+    if (!this.byKey.has(this.key(entity.title, scope))) {
+      this.byKey.set(this.key(entity.title, scope), entity);
+    }
+  }
+}
+
+/**
+ * Build a board from CSV, one card per row
+ *
+ * Status values become columns and lane values lanes, matched against the
+ * given `columns`/`lanes` by ID or title (case-insensitive); missing ones are
+ * created in order of appearance. Without a `meta` mapping, every other
+ * header becomes a meta key of the same name, as exportCSV() writes them.
+ * The report lists headers that were not mapped and values that matched no
+ * existing column or lane. With `dryRun`
+ * nothing throws, so the report can be shown before importing for real.
+ */
+export function importCSV(text: string, mapping: CsvImportOptions = {}): CsvImportResult {
+  const dryRun = mapping.dryRun ?? false;
+  const delimiter = mapping.delimiter ?? detectDelimiter(text);
+  const labelSeparator = mapping.labelSeparator ?? ',';
+  const fields = resolveFields(mapping);
+  const unknownPolicy = mapping.unknownColumns ?? 'create';
+
+  const [headerRow = [], ...rows] = parseCSV(text, delimiter);
+  const headers = headerRow.map((header) => header.trim());
+  const cardFields: string[] = Object.values(fields);
+  const meta =
+    mapping.meta ??
+    Object.fromEntries(
+      headers
+        .filter((header) => header !== '' && !cardFields.includes(header))
+        .map((header) => [header, header])
+    );
+  const indexOf = (header: string) => headers.indexOf(header);
+  const mapped = new Set([...Object.values(fields), ...Object.values(meta)]);
+
+  if (indexOf(fields.title) === -1) {
+    throw new Error(`[Saharos] CSV has no "${fields.title}" column`);
+  }
+  if (indexOf(fields.status) === -1) {
+    throw new Error(`[Saharos] CSV has no "${fields.status}" column`);
+  }
+
+  const columns = new EntityResolver<Column>(
+    mapping.columns,
+    (id, title, laneId) => (laneId === null ? { id, title } : { id, title, laneId }),
+    (column) => column.laneId ?? null
+  );
+  const lanes = new EntityResolver<Lane>(mapping.lanes, (id, title) => ({ id, title }));
+  const report: CsvImportReport = {
+    dryRun,
+    delimiter,
+    headers,
+    unmappedHeaders: headers.filter((header) => header !== '' && !mapped.has(header)),
+    rows: rows.length,
+    cards: 0,
+    unknownColumns: [],
+    unknownLanes: [],
+    skipped: [],
+  };
+
+  const cards: Card[] = [];
+  const cardIds = new Set<string>();
+  const nextOrder = new Map<string, number>();
+
+  for (const [index, values] of rows.entries()) {
+    const rowNumber = index + 1;
+    const cell = (header: string) => {
+      const position = indexOf(header);
+      return position === -1 ? '' : (values[position] ?? '');
+    };
+    const skip = (reason: string) => report.skipped.push({ row: rowNumber, reason });
+
+    const title = cell(fields.title).trim();
+    const status = cell(fields.status).trim();
+    if (!title || !status) {
+      skip(title ? 'missing status' : 'missing title');
+      continue;
+    }
+
+    const laneValue = cell(fields.lane).trim();
+    let lane: Lane | undefined;
+    if (laneValue) {
+      lane = lanes.find(laneValue);
+      if (!lane) {
+        if (mapping.lanes && !report.unknownLanes.includes(laneValue)) {
+          report.unknownLanes.push(laneValue);
+        }
+        lane = lanes.add(laneValue);
+      }
+    }
+
+    const laneId = lane ? lane.id : null;
+    let column = columns.find(status, laneId);
+    if (!column && mapping.columns) {
+      if (!report.unknownColumns.includes(status)) report.unknownColumns.push(status);
+      if (unknownPolicy === 'error' && !dryRun) {
+        throw new Error(`[Saharos] Unknown column "${status}" in CSV row ${rowNumber}`);
+      }
+      if (unknownPolicy !== 'create') {
+        skip(`unknown column "${status}"`);
+        continue;
+      }
+    }
+    column ??= columns.add(status, laneId);
+
+    const rawId = cell(fields.id).trim();
+    const id = rawId ? parseId(rawId) : `row-${rowNumber}`;
+    if (cardIds.has(String(id))) {
+      skip(`duplicate id "${String(id)}"`);
+      continue;
+    }
+    cardIds.add(String(id));
+
+    const card: Card = { id, title, columnId: column.id };
+    if (lane) card.laneId = lane.id;
+
+    const description = cell(fields.description);
+    if (description.trim()) card.description = description;
+
+    const labels = cell(fields.labels)
+      .split(labelSeparator)
+      .map((label) => label.trim())
+      .filter(Boolean);
+    if (labels.length > 0) card.labels = labels;
+
+    Object.entries(meta).forEach(([key, header]) => {
+      const value = cell(header);
+      if (value === '') return;
+      card.meta ??= {};
+      card.meta[key] = parseMetaValue(value);
+    });
+
+    const bucket = `${String(card.columnId)}::${String(card.laneId ?? '')}`;
+    card.order = nextOrder.get(bucket) ?? 0;
+    nextOrder.set(bucket, card.order + 1);
+
+    cards.push(card);
+  }
+
+  report.cards = cards.length;
+
+  const state: KanbanState = { columns: columns.entities, cards };
+  if (lanes.entities.length > 0) state.lanes = lanes.entities;
+  return { state, report };
+}
@@ -0,0 +1,317 @@
+/**
+ * Saharos Kanban - Markdown Import/Export
+ * Converts between KanbanState and Markdown boards as used by Obsidian Kanban
+ */
+
+import type { Card, Column, ID, KanbanState, Lane, MarkdownExportOptions } from '../core/types';
+import { parseId } from '../core/types';
+import { compareOrder } from '../core/ordering';
+
+const FRONTMATTER = '---\n\nkanban-plugin: basic\n\n---';
+const SETTINGS = '%% kanban:settings\n```\n{"kanban-plugin":"basic"}\n```\n%%';
+
+// A closing `#` sequence needs whitespace before it, so `## C#` keeps its title
+const HEADING = /^(#{1,2})\s+(.*?)(?:\s+#+)?\s*$/;
+const ITEM = /^[-*+]\s+\[([ xX])\]\s?(.*)$/;
+const HASHTAG = /(^|\s)#([^\s#[\]]+)/g;
+// Field keys are words, or JSON strings for anything else (`["due date":: …]`)
+const FIELD = /^\[("(?:[^"\\]|\\.)*"|[\w-]+(?: [\w-]+)*)::\s*/;
+
+function slugify(value: string): string {
+  return (
+    value
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'item'
+  );
+}
+
+// ==================== Inline fields ====================
+
+/**
+ * Read a `[key:: value]` field value: JSON where it parses, a string otherwise
+ */
+function parseFieldValue(value: string): unknown {
+  if (!/^[\d\-[{"tfn]/.test(value)) return value;
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Write a field value so parseFieldValue reads it back unchanged
+ */
+function formatFieldValue(value: unknown): string {
+  if (typeof value === 'string' && !/[\]\n]/.test(value) && parseFieldValue(value) === value) {
+    return value;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Write a field key so extractFields reads it back unchanged
+ */
+function formatFieldKey(key: string): string {
+  return /^[\w-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Remove the `[key:: value]` fields from a line
+ * Values may contain brackets inside JSON strings, arrays and objects.
+ */
+function extractFields(line: string): { text: string; fields: Array<[string, unknown]> } {
+  const fields: Array<[string, unknown]> = [];
+  let text = '';
+  let i = 0;
+
+  while (i < line.length) {
+    const match = FIELD.exec(line.slice(i));
+    if (!match) {
+      text += line[i];
+      i++;
+      continue;
+    }
+
+    let depth = 0;
+    let inString = false;
+    let end = i + match[0].length;
+    for (; end < line.length; end++) {
+      const char = line[end];
+      if (inString) {
+        if (char === '\\') {
+          end++;
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === '}' || (char === ']' && depth > 0)) {
+        depth--;
+      } else if (char === ']') {
+        break;
+      }
+    }
+
+    if (end >= line.length) {
+      // Not closed: plain text
+      text += line.slice(i);
+      break;
+    }
+
+    const value = line.slice(i + match[0].length, end).trim();
+    const key = match[1] as string;
+    fields.push([key.startsWith('"') ? (JSON.parse(key) as string) : key, parseFieldValue(value)]);
+    i = end + 1;
+  }
+
+  return { text: text.replace(/\s{2,}/g, ' ').trim(), fields };
+}
+
+function idField(fields: Array<[string, unknown]>): ID | undefined {
+  const field = fields.find(([key]) => key === 'id');
+  if (!field) return undefined;
+  const value = field[1];
+  return typeof value === 'number' ? value : parseId(String(value));
+}
+
+// ==================== Import ====================
+
+/**
+ * Build a board from Markdown
+ *
+ * `# Heading`s are lanes and `## Heading`s columns; `- [ ] item`s are cards.
+ * Hashtags in an item become labels (`\#` is a plain `#`), `[key:: value]`
+ * fields become meta (`[id:: 42]` sets the ID), a checked box sets
+ * `meta.checked`, and the indented lines below an item are its description.
+ * Other content, the Obsidian front matter and settings block included, is ignored.
+ */
+export function importMarkdown(text: string): KanbanState {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const lanes: Lane[] = [];
+  const columns: Column[] = [];
+  const cards: Card[] = [];
+  const ids = { lane: new Set<string>(), column: new Set<string>(), card: new Set<string>() };
+
+  let lane: Lane | null = null;
+  let column: Column | null = null;
+  let card: Card | null = null;
+  let description: string[] = [];
+  let skipping: string | null = null;
+
+  const uniqueId = (kind: keyof typeof ids, wanted: ID | undefined, title: string): ID => {
+    const taken = ids[kind];
+    let id: ID = wanted ?? slugify(title);
+    for (let n = 2; taken.has(String(id)); n++) id = `${slugify(title)}-${n}`;
+    taken.add(String(id));
+    return id;
+  };
+
+  const endCard = () => {
+    if (card) {
+      // Blank lines only count between description lines
+      while (description.length > 0 && description[description.length - 1]?.trim() === '') {
+        description.pop();
+      }
+      const indent = Math.min(
+        ...description
+          .filter((line) => line.trim())
+          .map((line) => /^\s*/.exec(line)?.[0].length ?? 0)
+      );
+      if (description.length > 0) {
+        card.description = description.map((line) => line.slice(indent)).join('\n');
+      }
+    }
+    card = null;
+    description = [];
+  };
+
+  lines.forEach((line, index) => {
+    // Front matter and %% comment %% blocks
+    if (skipping) {
+      if (line.trim() === skipping) skipping = null;
+      return;
+    }
+    if (index === 0 && line.trim() === '---') {
+      skipping = '---';
+      return;
+    }
+    if (line.trim().startsWith('%%')) {
+      if (!(line.trim().length > 2 && line.trim().endsWith('%%'))) skipping = '%%';
+      return;
+    }
+
+    if (card && (/^(\t| {2,})/.test(line) || line.trim() === '')) {
+      description.push(line.replace(/\t/g, '    '));
+      return;
+    }
+    endCard();
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const { text: title, fields } = extractFields(heading[2] as string);
+      if (heading[1] === '#') {
+        lane = { id: uniqueId('lane', idField(fields), title), title, order: lanes.length };
+        lanes.push(lane);
+        column = null;
+      } else {
+        column = { id: uniqueId('column', idField(fields), title), title, order: columns.length };
+        if (lane) column.laneId = lane.id;
+        columns.push(column);
+      }
+      return;
+    }
+
+    const item = ITEM.exec(line);
+    if (!item || !column) return;
+
+    const { text: content, fields } = extractFields(item[2] as string);
+    const labels: string[] = [];
+    const title = content
+      .replace(HASHTAG, (_match, space: string, tag: string) => {
+        labels.push(tag);
+        return space;
+      })
+      .replace(/\s{2,}/g, ' ')
+      .replace(/\\#/g, '#')
+      .trim();
+
+    const next: Card = {
+      id: uniqueId('card', idField(fields), `card-${cards.length + 1}`),
+      title,
+      columnId: column.id,
+      order: cards.filter((other) => other.columnId === column?.id).length,
+    };
+    if (column.laneId !== undefined) next.laneId = column.laneId;
+    if (labels.length > 0) next.labels = labels;
+
+    const meta = fields.filter(([key]) => key !== 'id');
+    if (item[1] !== ' ') meta.push(['checked', true]);
+    if (meta.length > 0) next.meta = Object.fromEntries(meta);
+
+    cards.push(next);
+    card = next;
+  });
+  endCard();
+
+  const state: KanbanState = { columns, cards };
+  if (lanes.length > 0) state.lanes = lanes;
+  return state;
+}
+
+// ==================== Export ====================
+
+/**
+ * Serialize a board as Markdown that importMarkdown() reads back
+ * Column and lane IDs are written only when they differ from the slug of
+ * their title; card IDs unless `ids` is false. Labels with spaces cannot be
+ * hashtags, so their spaces become dashes. A `#` in a title that would read
+ * as a hashtag is escaped as `\#`. Columns in no lane are written before the
+ * first lane.
+ */
+export function exportMarkdown(state: KanbanState, options: MarkdownExportOptions = {}): string {
+  const { ids = true, obsidian = true } = options;
+  const byOrder = <T extends { order?: number | string }>(items: T[]) =>
+    [...items].sort((a, b) => compareOrder(a.order, b.order));
+
+  const heading = (level: string, entity: Column | Lane) =>
+    String(entity.id) === slugify(entity.title)
+      ? `${level} ${entity.title}`
+      : `${level} ${entity.title} [id:: ${formatFieldValue(entity.id)}]`;
+
+  const item = (card: Card) => {
+    const parts = [card.title.replace(/(^|\s)#/g, '$1\\#')];
+    (card.labels ?? []).forEach((label) => parts.push(`#${label.trim().replace(/\s+/g, '-')}`));
+    if (ids) parts.push(`[id:: ${formatFieldValue(card.id)}]`);
+    Object.entries(card.meta ?? {}).forEach(([key, value]) => {
+      if (key === 'checked' && typeof value === 'boolean') return;
+      parts.push(`[${formatFieldKey(key)}:: ${formatFieldValue(value)}]`);
+    });
+
+    const lines = [`- [${card.meta?.checked === true ? 'x' : ' '}] ${parts.join(' ')}`];
+    if (card.description) {
+      card.description.split('\n').forEach((line) => lines.push(line ? `    ${line}` : ''));
+    }
+    return lines.join('\n');
+  };
+
+  const section = (column: Column, laneId: ID | null) => {
+    const cards = byOrder(
+      state.cards.filter(
+        (card) => card.columnId === column.id && (laneId === null || card.laneId === laneId)
+      )
+    );
+    return [heading('##', column), ...cards.map(item)].join('\n\n');
+  };
+
+  const blocks: string[] = [];
+  if (obsidian) blocks.push(FRONTMATTER);
+
+  const lanes = byOrder(state.lanes ?? []);
+  const columns = byOrder(state.columns);
+  if (lanes.length > 0) {
+    // Columns outside every lane go before the first lane heading
+    const laneIds = new Set(lanes.map((lane) => lane.id));
+    columns
+      .filter(
+        (column) =>
+          column.laneId === undefined || column.laneId === null || !laneIds.has(column.laneId)
+      )
+      .forEach((column) => blocks.push(section(column, null)));
+    lanes.forEach((lane) => {
+      blocks.push(heading('#', lane));
+      columns
+        .filter((column) => column.laneId === lane.id)
+        .forEach((column) => blocks.push(section(column, lane.id)));
+    });
+  } else {
+    columns.forEach((column) => blocks.push(section(column, null)));
+  }
+
+  if (obsidian) blocks.push(SETTINGS);
+  return `${blocks.join('\n\n')}\n`;
+}
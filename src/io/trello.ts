@@ -0,0 +1,232 @@
+/**
+ * Saharos Kanban - Trello Import
+ * Converts a Trello board JSON export into a KanbanState
+ */
+
+import type {
+  Card,
+  Column,
+  KanbanState,
+  TrelloBoard,
+  TrelloCard,
+  TrelloImportOptions,
+  TrelloImportReport,
+  TrelloImportResult,
+  TrelloLabel,
+} from '../core/types';
+
+/**
+ * Sort Trello items by position, keeping export order for equal positions
+ */
+function byPosition<T extends { pos?: number }>(items: T[]): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (a.item.pos ?? 0) - (b.item.pos ?? 0) || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+/**
+ * Import a Trello board export
+ *
+ * Lists become columns and cards keep their Trello IDs, so importing the same
+ * export twice gives the same state. Label names become `labels`; checklists,
+ * due dates, members and attachments go into `meta`. Archived lists and cards
+ * are skipped unless `archived: 'include'`. Comments and other activity are
+ * not imported. The report lists everything left out or converted lossily.
+ *
+ * Accepts the parsed export or its JSON text.
+ */
+export function importTrello(
+  board: TrelloBoard | string,
+  options: TrelloImportOptions = {}
+): TrelloImportResult {
+  const data = typeof board === 'string' ? (JSON.parse(board) as TrelloBoard) : board;
+  if (!data || !Array.isArray(data.lists) || !Array.isArray(data.cards)) {
+    throw new Error('[Saharos] Not a Trello board export: "lists" and "cards" are required');
+  }
+
+  const includeArchived = options.archived === 'include';
+  const report: TrelloImportReport = {
+    board: data.name,
+    columns: 0,
+    cards: 0,
+    checklists: 0,
+    labels: [],
+    skipped: [],
+    lossy: [],
+  };
+
+  // Labels: resolve names once, merging labels that share a name
+  const labelNames = new Map<string, string>();
+  const resolveLabel = (label: TrelloLabel): string | undefined => {
+    if (labelNames.has(label.id)) return labelNames.get(label.id);
+
+    let name = label.name?.trim() ?? '';
+    const color = label.color ?? null;
+    if (!name) {
+      if (options.unnamedLabels === 'skip' || !color) {
+        report.skipped.push({ type: 'label', id: label.id, name: '', reason: 'label has no name' });
+        labelNames.set(label.id, '');
+        return undefined;
+      }
+      name = color;
+      report.lossy.push({
+        type: 'label',
+        id: label.id,
+        name,
+        reason: 'label has no name; named after its color',
+      });
+    }
+
+    const existing = report.labels.find((entry) => entry.name === name);
+    if (!existing) {
+      report.labels.push({ name, color });
+    } else if (existing.color !== color) {
+      report.lossy.push({
+        type: 'label',
+        id: label.id,
+        name,
+        reason: `merged with the ${existing.color ?? 'uncolored'} label of the same name`,
+      });
+    }
+    labelNames.set(label.id, name);
+    return name;
+  };
+  const boardLabels = new Map((data.labels ?? []).map((label) => [label.id, label]));
+  boardLabels.forEach((label) => resolveLabel(label));
+
+  // Lists
+  const columns: Column[] = [];
+  const columnIds = new Set<string>();
+  const archivedLists = new Set<string>();
+  byPosition(data.lists).forEach((list) => {
+    if (list.closed) {
+      archivedLists.add(list.id);
+      if (!includeArchived) {
+        report.skipped.push({ type: 'list', id: list.id, name: list.name, reason: 'archived' });
+        return;
+      }
+    }
+
+    const column: Column = { id: list.id, title: list.name, order: columns.length };
+    if (list.closed) column.meta = { archived: true };
+    columns.push(column);
+    columnIds.add(list.id);
+  });
+
+  // Checklists by card
+  const checklists = new Map<string, NonNullable<TrelloBoard['checklists']>>();
+  (data.checklists ?? []).forEach((checklist) => {
+    const list = checklists.get(checklist.idCard) ?? [];
+    list.push(checklist);
+    checklists.set(checklist.idCard, list);
+  });
+
+  const members = new Map(
+    (data.members ?? []).map((member) => [
+      member.id,
+      member.fullName ?? member.username ?? member.id,
+    ])
+  );
+
+  // Cards
+  const cards: Card[] = [];
+  const nextOrder = new Map<string, number>();
+  const skipCard = (card: TrelloCard, reason: string) =>
+    report.skipped.push({ type: 'card', id: card.id, name: card.name, reason });
+
+  byPosition(data.cards).forEach((trelloCard) => {
+    if (!columnIds.has(trelloCard.idList)) {
+      skipCard(trelloCard, archivedLists.has(trelloCard.idList) ? 'list archived' : 'unknown list');
+      return;
+    }
+    if (trelloCard.closed && !includeArchived) {
+      skipCard(trelloCard, 'archived');
+      return;
+    }
+    if (!trelloCard.name?.trim()) {
+      skipCard(trelloCard, 'card has no name');
+      return;
+    }
+
+    const order = nextOrder.get(trelloCard.idList) ?? 0;
+    nextOrder.set(trelloCard.idList, order + 1);
+
+    const card: Card = {
+      id: trelloCard.id,
+      title: trelloCard.name,
+      columnId: trelloCard.idList,
+      order,
+    };
+    if (trelloCard.desc?.trim()) card.description = trelloCard.desc;
+
+    // Board labels by ID, falling back to the copies embedded in the card
+    const embedded = new Map((trelloCard.labels ?? []).map((label) => [label.id, label]));
+    const labelIds = trelloCard.idLabels ?? [...embedded.keys()];
+    const labels = labelIds
+      .map((id) => boardLabels.get(id) ?? embedded.get(id))
+      .map((label) => (label ? resolveLabel(label) : undefined))
+      .filter((name): name is string => Boolean(name));
+    if (labels.length > 0) card.labels = [...new Set(labels)];
+
+    const meta: Record<string, unknown> = {};
+    if (trelloCard.closed) meta.archived = true;
+    if (trelloCard.due) {
+      meta.due = trelloCard.due;
+      meta.dueComplete = trelloCard.dueComplete ?? false;
+    }
+    if (trelloCard.start) meta.start = trelloCard.start;
+
+    const cardChecklists = byPosition(checklists.get(trelloCard.id) ?? []);
+    if (cardChecklists.length > 0) {
+      meta.checklists = cardChecklists.map((checklist) => ({
+        name: checklist.name,
+        items: byPosition(checklist.checkItems ?? []).map((item) => ({
+          title: item.name,
+          checked: item.state === 'complete',
+        })),
+      }));
+      report.checklists += cardChecklists.length;
+    }
+
+    const memberNames = (trelloCard.idMembers ?? []).map((id) => members.get(id) ?? id);
+    if (memberNames.length > 0) meta.members = memberNames;
+
+    const attachments = (trelloCard.attachments ?? []).filter((attachment) => attachment.url);
+    if (attachments.length > 0) {
+      meta.attachments = attachments.map(({ name, url }) => ({ name: name ?? url, url }));
+    }
+
+    const url = trelloCard.shortUrl ?? trelloCard.url;
+    if (url) meta.url = url;
+
+    if (Object.keys(meta).length > 0) card.meta = meta;
+    cards.push(card);
+  });
+
+  // Parts of the export without a place in the state
+  const activity = data.actions?.length ?? 0;
+  if (activity > 0) {
+    report.lossy.push({
+      type: 'board',
+      id: data.id,
+      name: data.name,
+      reason: `${activity} actions (comments and activity) not imported`,
+    });
+  }
+  const customFields = data.customFields?.length ?? 0;
+  if (customFields > 0) {
+    report.lossy.push({
+      type: 'board',
+      id: data.id,
+      name: data.name,
+      reason: `${customFields} custom fields not imported`,
+    });
+  }
+
+  report.columns = columns.length;
+  report.cards = cards.length;
+
+  const state: KanbanState = { columns, cards };
+  return { state, report };
+}
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for Autosaver
+ */
+
+import { Autosaver } from '../../src/core/autosave';
+import { StorageManager } from '../../src/core/storage';
+import { MemoryStorageAdapter } from '../../src/core/adapters';
+import type { AutosaveOptions, KanbanState } from '../../src/core/types';
+
+describe('Autosaver', () => {
+  let state: KanbanState;
+  let adapter: MemoryStorageAdapter;
+  let saveSpy: jest.SpyInstance;
+  let onSaved: jest.Mock;
+  let onError: jest.Mock;
+
+  function createAutosaver(options: AutosaveOptions | false = {}): Autosaver {
+    return new Autosaver(new StorageManager(adapter), () => state, options, {
+      onSaved,
+      onError
+    });
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    state = { columns: [{ id: 'todo', title: 'To Do' }], cards: [] };
+    adapter = new MemoryStorageAdapter();
+    saveSpy = jest.spyOn(adapter, 'save');
+    onSaved = jest.fn();
+    onError = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should debounce consecutive changes into one save', async () => {
+    const autosaver = createAutosaver({ delay: 100 });
+
+    autosaver.markDirty();
+    jest.advanceTimersByTime(50);
+    autosaver.markDirty();
+    jest.advanceTimersByTime(50);
+    expect(saveSpy).not.toHaveBeenCalled();
+    expect(autosaver.isDirty()).toBe(true);
+
+    jest.advanceTimersByTime(50);
+    // The save goes through StorageManager.save, one promise deeper
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(saveSpy).toHaveBeenCalledTimes(1);
+    expect(onSaved).toHaveBeenCalledWith(state);
+    expect(autosaver.isDirty()).toBe(false);
+  });
+
+  it('should save after maxWait even while changes keep coming', () => {
+    const autosaver = createAutosaver({ delay: 100, maxWait: 250 });
+
+    for (let i = 0; i < 5; i++) {
+      autosaver.markDirty();
+      jest.advanceTimersByTime(60);
+    }
+
+    expect(saveSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should save at a fixed rate in throttle mode', () => {
+    const autosaver = createAutosaver({ delay: 100, mode: 'throttle' });
+
+    autosaver.markDirty();
+    jest.advanceTimersByTime(60);
+    autosaver.markDirty();
+    jest.advanceTimersByTime(40);
+
+    expect(saveSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should save immediately on flush', async () => {
+    const autosaver = createAutosaver({ delay: 1000 });
+
+    autosaver.markDirty();
+    const saved = await autosaver.flush();
+
+    expect(saved).toBe(true);
+    expect(saveSpy).toHaveBeenCalledTimes(1);
+    expect(await adapter.load()).toEqual(state);
+
+    jest.advanceTimersByTime(2000);
+    expect(saveSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only track changes when disabled', async () => {
+    const autosaver = createAutosaver(false);
+
+    autosaver.markDirty();
+    jest.advanceTimersByTime(5000);
+    expect(saveSpy).not.toHaveBeenCalled();
+    expect(autosaver.isDirty()).toBe(true);
+
+    await autosaver.flush();
+    expect(autosaver.isDirty()).toBe(false);
+  });
+
+  it('should stay dirty and report errors when saving fails', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const error = new Error('quota exceeded');
+    saveSpy.mockRejectedValueOnce(error);
+    const autosaver = createAutosaver();
+
+    autosaver.markDirty();
+    const saved = await autosaver.flush();
+
+    expect(saved).toBe(false);
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(autosaver.isDirty()).toBe(true);
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for CrossTabSync
+ */
+
+import { CrossTabSync } from '../../src/core/sync';
+import type { KanbanOperation } from '../../src/core/types';
+
+// In-process BroadcastChannel delivering to every other instance with the same name
+class FakeBroadcastChannel {
+  static instances: FakeBroadcastChannel[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.instances.push(this);
+  }
+
+  postMessage(data: unknown): void {
+    const payload = JSON.parse(JSON.stringify(data)) as unknown;
+    FakeBroadcastChannel.instances
+      .filter((channel) => channel !== this && channel.name === this.name)
+      .forEach((channel) => channel.onmessage?.({ data: payload }));
+  }
+
+  close(): void {
+    FakeBroadcastChannel.instances = FakeBroadcastChannel.instances.filter((c) => c !== this);
+  }
+}
+
+describe('CrossTabSync', () => {
+  const rename = (title: string): KanbanOperation => ({
+    type: 'card:update',
+    cardId: 1,
+    patch: { title }
+  });
+
+  beforeEach(() => {
+    FakeBroadcastChannel.instances = [];
+    (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel = FakeBroadcastChannel;
+  });
+
+  afterEach(() => {
+    delete (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel;
+  });
+
+  it('should deliver operations to other tabs only', () => {
+    const received: KanbanOperation[][] = [];
+    const tabA = new CrossTabSync('board', {}, jest.fn());
+    const tabB = new CrossTabSync('board', {}, (ops) => received.push(ops));
+    const other = jest.fn();
+    new CrossTabSync('other-board', {}, other);
+
+    tabA.broadcast([rename('From A')]);
+
+    expect(received).toEqual([[rename('From A')]]);
+    expect(other).not.toHaveBeenCalled();
+    tabB.destroy();
+  });
+
+  it('should converge on the same winner for concurrent edits', () => {
+    const appliedA: KanbanOperation[] = [];
+    const appliedB: KanbanOperation[] = [];
+    const tabA = new CrossTabSync('board', {}, (ops) => appliedA.push(...ops));
+    const tabB = new CrossTabSync('board', {}, (ops) => appliedB.push(...ops));
+
+    // Both tabs edit card 1 before hearing from each other
+    const channels = FakeBroadcastChannel.instances;
+    const deliveries: Array<() => void> = [];
+    channels.forEach((channel) => {
+      const original = channel.postMessage.bind(channel);
+      channel.postMessage = (data: unknown) => deliveries.push(() => original(data));
+    });
+
+    tabA.broadcast([rename('From A')]);
+    tabB.broadcast([rename('From B')]);
+    deliveries.forEach((deliver) => deliver());
+
+    // Exactly one tab adopts the other's write; both end with the same title
+    const winner = tabA.getTabId() > tabB.getTabId() ? 'From A' : 'From B';
+    const finalA = appliedA.length > 0 ? 'From B' : 'From A';
+    const finalB = appliedB.length > 0 ? 'From A' : 'From B';
+    expect(finalA).toBe(winner);
+    expect(finalB).toBe(winner);
+  });
+
+  it('should let a custom resolver keep local writes', () => {
+    const applied = jest.fn();
+    const tabA = new CrossTabSync('board', {}, jest.fn());
+    const tabB = new CrossTabSync('board', { conflict: () => 'local' }, applied);
+
+    tabB.broadcast([rename('From B')]);
+    tabA.broadcast([rename('From A'), { type: 'card:remove', cardId: 2 }]);
+
+    expect(applied).toHaveBeenCalledWith([{ type: 'card:remove', cardId: 2 }], tabA.getTabId());
+  });
+});
@@ -51,4 +51,52 @@ describe('EventBus', () => {
     expect(() => bus.emit('board:ready')).not.toThrow();
     expect(normalHandler).toHaveBeenCalled();
   });
+
+  describe('emitCancelable', () => {
+    it('should return true when no handler vetoes', () => {
+      const bus = new EventBus();
+      bus.on('card:remove:before', jest.fn());
+
+      expect(bus.emitCancelable('card:remove:before', { cardId: 1 })).toBe(true);
+    });
+
+    it('should be vetoed by preventDefault()', () => {
+      const bus = new EventBus();
+      bus.on('card:remove:before', (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+      });
+
+      expect(bus.emitCancelable('card:remove:before', { cardId: 1 })).toBe(false);
+    });
+
+    it('should be vetoed by returning false', () => {
+      const bus = new EventBus();
+      bus.on('card:remove:before', () => false);
+
+      expect(bus.emitCancelable('card:remove:before', { cardId: 1 })).toBe(false);
+    });
+
+    it('should treat a throwing handler as a veto', () => {
+      const bus = new EventBus();
+      const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      bus.on('card:remove:before', () => {
+        throw new Error('Test error');
+      });
+
+      expect(bus.emitCancelable('card:remove:before', { cardId: 1 })).toBe(false);
+      spy.mockRestore();
+    });
+
+    it('should let handlers modify the payload', () => {
+      const bus = new EventBus();
+      const payload = { to: { columnId: 'done', index: 3 } };
+      bus.on('card:move:before', (event: typeof payload) => {
+        event.to.index = 0;
+      });
+
+      bus.emitCancelable('card:move:before', payload);
+
+      expect(payload.to.index).toBe(0);
+    });
+  });
 });
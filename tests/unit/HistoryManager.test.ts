@@ -0,0 +1,108 @@
+/**
+ * Unit tests for HistoryManager
+ */
+
+import { HistoryManager } from '../../src/core/history';
+import type { KanbanState } from '../../src/core/types';
+
+function stateWithTitle(title: string): KanbanState {
+  return {
+    columns: [{ id: 'todo', title: 'To Do' }],
+    cards: [{ id: 1, title, columnId: 'todo' }]
+  };
+}
+
+describe('HistoryManager', () => {
+  it('should undo and redo recorded snapshots', () => {
+    const history = new HistoryManager(stateWithTitle('A'));
+
+    history.record(stateWithTitle('B'), 'card:update');
+
+    expect(history.canUndo()).toBe(true);
+    expect(history.undo()?.cards[0]?.title).toBe('A');
+    expect(history.canRedo()).toBe(true);
+    expect(history.redo()?.cards[0]?.title).toBe('B');
+  });
+
+  it('should clear the redo stack on a new record', () => {
+    const history = new HistoryManager(stateWithTitle('A'));
+
+    history.record(stateWithTitle('B'), 'card:update');
+    history.undo();
+    history.record(stateWithTitle('C'), 'card:update');
+
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('should respect the configured limit', () => {
+    const history = new HistoryManager(stateWithTitle('0'), { limit: 2 });
+
+    history.record(stateWithTitle('1'), 'card:update');
+    history.record(stateWithTitle('2'), 'card:update');
+    history.record(stateWithTitle('3'), 'card:update');
+
+    expect(history.undo()?.cards[0]?.title).toBe('2');
+    expect(history.undo()?.cards[0]?.title).toBe('1');
+    expect(history.undo()).toBeNull();
+  });
+
+  it('should merge consecutive records with the same merge key', () => {
+    const history = new HistoryManager(stateWithTitle(''));
+
+    history.record(stateWithTitle('H'), 'card:update', 'card:1:title');
+    history.record(stateWithTitle('He'), 'card:update', 'card:1:title');
+    history.record(stateWithTitle('Hey'), 'card:update', 'card:1:title');
+
+    expect(history.undo()?.cards[0]?.title).toBe('');
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should not merge records outside the merge window', () => {
+    const now = jest.spyOn(Date, 'now');
+    const history = new HistoryManager(stateWithTitle(''), { mergeWindow: 100 });
+
+    now.mockReturnValue(1000);
+    history.record(stateWithTitle('H'), 'card:update', 'card:1:title');
+    now.mockReturnValue(2000);
+    history.record(stateWithTitle('He'), 'card:update', 'card:1:title');
+
+    expect(history.undo()?.cards[0]?.title).toBe('H');
+    now.mockRestore();
+  });
+
+  it('should transform past and future snapshots', () => {
+    const history = new HistoryManager(stateWithTitle('A'));
+    history.record(stateWithTitle('B'), 'card:update');
+    history.record(stateWithTitle('C'), 'card:update');
+    history.undo();
+
+    history.transform((state) => ({
+      ...state,
+      columns: [...state.columns, { id: 'done', title: 'Done' }]
+    }));
+
+    expect(history.redo()?.columns).toHaveLength(2);
+    history.undo();
+    expect(history.undo()?.columns).toHaveLength(2);
+  });
+
+  it('should revise later snapshots and drop steps that become no-ops', () => {
+    const history = new HistoryManager(stateWithTitle('A'));
+
+    history.record(stateWithTitle('A'), 'card:update');
+    const position = history.getPosition();
+    history.record(stateWithTitle('B'), 'card:update');
+    history.record(stateWithTitle('C'), 'card:update');
+    history.revise(
+      position,
+      (state) => (state.cards[0]?.title === 'B' ? stateWithTitle('A') : state),
+      (a, b) => a.cards[0]?.title === b.cards[0]?.title
+    );
+
+    expect(history.undo()?.cards[0]?.title).toBe('A');
+    expect(history.undo()?.cards[0]?.title).toBe('A');
+    expect(history.canUndo()).toBe(false);
+    expect(history.redo()?.cards[0]?.title).toBe('A');
+    expect(history.redo()?.cards[0]?.title).toBe('C');
+  });
+});
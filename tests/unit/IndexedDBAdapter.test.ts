@@ -0,0 +1,127 @@
+/**
+ * Unit tests for IndexedDBAdapter
+ */
+
+import { IDBFactory, IDBKeyRange, IDBObjectStore } from 'fake-indexeddb';
+import { IndexedDBAdapter } from '../../src/core/indexeddb';
+import type { KanbanState } from '../../src/core/types';
+
+function createState(cardCount: number): KanbanState {
+  return {
+    columns: [
+      { id: 'todo', title: 'To Do', order: 0 },
+      { id: 'done', title: 'Done', order: 1 }
+    ],
+    cards: Array.from({ length: cardCount }, (_, i) => ({
+      id: i + 1,
+      title: `Card ${i + 1}`,
+      columnId: 'todo',
+      order: i
+    }))
+  };
+}
+
+describe('IndexedDBAdapter', () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  function createAdapter(chunkSize?: number): IndexedDBAdapter {
+    return new IndexedDBAdapter({ indexedDB: factory, IDBKeyRange, chunkSize });
+  }
+
+  it('should return null when nothing was saved', async () => {
+    const adapter = createAdapter();
+
+    expect(await adapter.load()).toBeNull();
+  });
+
+  it('should round-trip state through separate records', async () => {
+    const state = createState(3);
+    state.lanes = [{ id: 'lane-1', title: 'Lane 1' }];
+    state.schemaVersion = 1;
+
+    await createAdapter().save(state);
+    const loaded = await createAdapter().load();
+
+    expect(loaded?.schemaVersion).toBe(1);
+    expect(loaded?.lanes).toEqual(state.lanes);
+    expect(loaded?.columns).toEqual(state.columns);
+    expect(loaded?.cards).toEqual(state.cards);
+  });
+
+  it('should only write entities that changed', async () => {
+    const adapter = createAdapter();
+    const state = createState(5);
+    await adapter.save(state);
+
+    const putSpy = jest.spyOn(IDBObjectStore.prototype, 'put');
+    state.cards[2] = { ...state.cards[2]!, title: 'Renamed' };
+    await adapter.save(state);
+
+    const written = putSpy.mock.calls
+      .map(([record]) => record as { id?: unknown })
+      .filter((record) => record.id !== undefined);
+    expect(written).toEqual([expect.objectContaining({ id: 3, title: 'Renamed' })]);
+    putSpy.mockRestore();
+  });
+
+  it('should delete records for removed entities', async () => {
+    const adapter = createAdapter();
+    const state = createState(3);
+    await adapter.save(state);
+
+    state.cards = state.cards.filter((card) => card.id !== 2);
+    await adapter.save(state);
+
+    const loaded = await createAdapter().load();
+    expect(loaded?.cards.map((card) => card.id)).toEqual([1, 3]);
+  });
+
+  it('should load in chunks', async () => {
+    await createAdapter().save(createState(25));
+
+    const progress: number[] = [];
+    const adapter = new IndexedDBAdapter({
+      indexedDB: factory,
+      IDBKeyRange,
+      chunkSize: 10,
+      onLoadProgress: ({ store, loaded }) => {
+        if (store === 'cards') progress.push(loaded);
+      }
+    });
+    const loaded = await adapter.load();
+
+    expect(loaded?.cards).toHaveLength(25);
+    expect(progress).toEqual([10, 20, 25]);
+  });
+
+  it('should keep the previous save and retry after a failed write', async () => {
+    const adapter = createAdapter();
+    const state = createState(2);
+    await adapter.save(state);
+
+    const quotaError = new DOMException('Quota exceeded', 'QuotaExceededError');
+    const putSpy = jest.spyOn(IDBObjectStore.prototype, 'put').mockImplementationOnce(() => {
+      throw quotaError;
+    });
+    state.cards[0] = { ...state.cards[0]!, title: 'Changed' };
+
+    await expect(adapter.save(state)).rejects.toBe(quotaError);
+    expect((await createAdapter().load())?.cards[0]?.title).toBe('Card 1');
+
+    putSpy.mockRestore();
+    await adapter.save(state);
+    expect((await createAdapter().load())?.cards[0]?.title).toBe('Changed');
+  });
+
+  it('should clear all records', async () => {
+    const adapter = createAdapter();
+    await adapter.save(createState(2));
+    await adapter.clear();
+
+    expect(await createAdapter().load()).toBeNull();
+  });
+});
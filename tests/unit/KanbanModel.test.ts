@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the headless KanbanModel
+ */
+
+import { KanbanModel } from '../../src/core/model';
+import { MemoryStorageAdapter } from '../../src/core/adapters';
+import type { KanbanModelOptions, KanbanOperation, KanbanView } from '../../src/core/types';
+
+function createModel(options: KanbanModelOptions = {}): KanbanModel {
+  return new KanbanModel({
+    columns: [
+      { id: 'todo', title: 'To Do' },
+      { id: 'doing', title: 'Doing' },
+      { id: 'done', title: 'Done' },
+    ],
+    cards: [
+      { id: 1, title: 'Write docs', columnId: 'todo' },
+      { id: 2, title: 'Fix bug', columnId: 'todo' },
+    ],
+    ...options,
+  });
+}
+
+function createView(): KanbanView & { calls: Array<[string, unknown]> } {
+  const calls: Array<[string, unknown]> = [];
+  return {
+    calls,
+    render: (immediate) => calls.push(['render', immediate ?? false]),
+    patch: (operations: KanbanOperation[]) =>
+      calls.push(['patch', operations.map((op) => op.type)]),
+    setCardPending: (cardId, pending) => calls.push(['pending', [cardId, pending]]),
+  };
+}
+
+describe('KanbanModel', () => {
+  it('should apply mutations and emit the same events as the board', () => {
+    const events: string[] = [];
+    const model = createModel({
+      on: {
+        'card:add': ({ card }) => events.push(`add ${card.id}`),
+        'card:drag:end': ({ card, to }) => events.push(`move ${card.id} ${to.id}`),
+        'state:change': ({ operations }) => events.push(operations.map((op) => op.type).join()),
+      },
+    });
+
+    model.addCard({ id: 3, title: 'Deploy', columnId: 'doing' });
+    expect(model.moveCard(1, { columnId: 'done' })).toBe(true);
+
+    expect(model.getState().cards.map((card) => [card.id, card.columnId])).toEqual([
+      [1, 'done'],
+      [2, 'todo'],
+      [3, 'doing'],
+    ]);
+    expect(events).toEqual(['add 3', 'card:add', 'move 1 done', 'card:move']);
+  });
+
+  it('should reject moves that break column rules', () => {
+    const rejected: string[] = [];
+    const model = createModel({
+      columnRules: {
+        done: { customValidator: (card) => card.labels?.includes('reviewed') === true },
+      },
+      on: {
+        'card:move:rejected': ({ reason }) => rejected.push(reason),
+        'card:add:rejected': ({ card, reason }) => rejected.push(`${card.id} ${reason}`),
+      },
+    });
+
+    const card = model.getStateManager().getCard(1);
+    expect(card && model.checkMove(card, 'done')).toBe('custom-validator');
+    expect(model.moveCard(1, { columnId: 'done' })).toBe(false);
+    model.updateCard(1, { labels: ['reviewed'] });
+    expect(model.moveCard(1, { columnId: 'done' })).toBe(true);
+    expect(model.addCard({ id: 9, title: 'Unreviewed', columnId: 'done' })).toBeNull();
+    expect(model.getStateManager().getCard(9)).toBeNull();
+    expect(rejected).toEqual(['custom-validator', '9 custom-validator']);
+  });
+
+  it('should apply drops reported on the event bus like the board does', () => {
+    const model = createModel({ sortable: false });
+    const bus = model.getEventBus();
+    const columns = model.getState().columns;
+    const card = model.getStateManager().getCard(2);
+
+    // Reordering within a column is refused when sortable is off
+    bus.emit('card:drag:end', { card, from: columns[0], to: columns[0], index: 0 });
+    expect(model.getStateManager().getCardIndex(2)).toBe(1);
+
+    bus.emit('a11y:move:card', { card, to: columns[1], index: 0 });
+    expect(model.getStateManager().getCard(2)?.columnId).toBe('doing');
+  });
+
+  it('should patch card changes into attached views and re-render structural ones', () => {
+    const model = createModel();
+    const view = createView();
+    const detach = model.attachView(view);
+
+    model.updateCard(1, { title: 'Write more docs' });
+    model.addColumn({ id: 'review', title: 'Review' });
+    model.batch(() => {
+      model.removeCard(1);
+      model.removeCard(2);
+    });
+    detach();
+    model.addCard({ id: 4, title: 'Unseen', columnId: 'todo' });
+
+    expect(view.calls).toEqual([
+      ['patch', ['card:update']],
+      ['render', false],
+      ['render', false],
+    ]);
+  });
+
+  it('should mark moves pending until onBeforeMove settles and roll back declined ones', async () => {
+    const rollbacks: string[] = [];
+    const model = createModel({
+      onBeforeMove: ({ to }) => to.id !== 'done',
+      on: { 'card:move:rollback': ({ card }) => rollbacks.push(String(card.id)) },
+    });
+    const view = createView();
+    model.attachView(view);
+
+    model.moveCard(1, { columnId: 'done' });
+    expect(model.getPendingMoves()).toEqual([1]);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(model.getPendingMoves()).toEqual([]);
+    expect(model.getStateManager().getCard(1)?.columnId).toBe('todo');
+    expect(rollbacks).toEqual(['1']);
+    expect(view.calls).toEqual([
+      ['patch', ['card:move']],
+      ['pending', [1, true]],
+      ['pending', [1, false]],
+      ['patch', ['card:move']],
+    ]);
+  });
+
+  it('should take declined moves out of the undo history', async () => {
+    const model = createModel({ onBeforeMove: () => false });
+
+    model.moveCard(1, { columnId: 'done' });
+    model.updateCard(2, { title: 'Renamed' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(model.getStateManager().getCard(1)?.columnId).toBe('todo');
+    expect(model.undo()).toBe(true);
+    expect(model.getStateManager().getCard(1)?.columnId).toBe('todo');
+    expect(model.getStateManager().getCard(2)?.title).toBe('Fix bug');
+    expect(model.canUndo()).toBe(false);
+  });
+
+  it('should undo and redo like the board', () => {
+    const changes: string[][] = [];
+    const model = createModel({
+      on: { 'state:change': ({ operations }) => changes.push(operations.map((op) => op.type)) },
+    });
+
+    model.moveCard(2, { columnId: 'doing' });
+    expect(model.undo()).toBe(true);
+    expect(model.getStateManager().getCard(2)?.columnId).toBe('todo');
+    expect(model.redo()).toBe(true);
+    expect(model.getStateManager().getCard(2)?.columnId).toBe('doing');
+
+    // Undo and redo report what changed, not a whole-board load
+    expect(changes).toEqual([['card:move'], ['card:move'], ['card:move']]);
+  });
+
+  it('should keep autosave off when the saved state cannot be migrated', async () => {
+    const saved = { schemaVersion: 1, columns: [{ id: 'todo', title: 'Saved' }], cards: [] };
+    const storage = new MemoryStorageAdapter(saved);
+    const save = jest.spyOn(storage, 'save');
+    const errors: unknown[] = [];
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const model = createModel({
+      storage,
+      autosave: { delay: 0 },
+      migrations: [
+        {
+          version: 1,
+          namespace: 'app',
+          migrate: (state) => {
+            if (state.columns[0]?.title === 'Saved') throw new Error('broken migration');
+            return state;
+          },
+        },
+      ],
+      on: { 'storage:error': ({ error }) => errors.push(error) },
+    });
+
+    await model.whenLoaded();
+    model.addCard({ id: 3, title: 'Deploy', columnId: 'todo' });
+    await model.flush();
+
+    expect(errors).toHaveLength(1);
+    expect(save).not.toHaveBeenCalled();
+    await expect(storage.load()).resolves.toEqual(saved);
+
+    await model.clearStorage();
+    model.addCard({ id: 4, title: 'Ship', columnId: 'todo' });
+    await model.flush();
+    expect(save).toHaveBeenCalledTimes(1);
+    model.destroy();
+    jest.restoreAllMocks();
+  });
+});
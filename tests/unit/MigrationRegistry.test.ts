@@ -0,0 +1,77 @@
+/**
+ * Unit tests for MigrationRegistry
+ */
+
+import { MigrationRegistry, CURRENT_SCHEMA_VERSION } from '../../src/core/migrations';
+import type { KanbanState } from '../../src/core/types';
+
+function createState(): KanbanState {
+  return {
+    columns: [{ id: 'todo', title: 'To Do' }],
+    cards: [{ id: 1, title: 'Card 1', columnId: 'todo', meta: { due: '2024-01-31' } }]
+  };
+}
+
+describe('MigrationRegistry', () => {
+  it('should stamp unversioned state with the current schema version', () => {
+    const { state, steps } = new MigrationRegistry().migrate(createState());
+
+    expect(state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(steps).toEqual([
+      expect.objectContaining({ namespace: null, from: 0, to: CURRENT_SCHEMA_VERSION })
+    ]);
+  });
+
+  it('should not change a state that is already current', () => {
+    const registry = new MigrationRegistry();
+    const current = registry.migrate(createState()).state;
+
+    expect(registry.migrate(current).steps).toEqual([]);
+  });
+
+  it('should run plugin migrations step by step without touching the input', () => {
+    const registry = new MigrationRegistry();
+    registry.register({
+      namespace: 'due-dates',
+      version: 2,
+      migrate: (state) => {
+        state.cards.forEach((card) => {
+          if (card.meta) card.meta.due = Date.parse(card.meta.due as string);
+        });
+        return state;
+      }
+    });
+    registry.register({
+      namespace: 'due-dates',
+      version: 1,
+      migrate: (state) => state
+    });
+
+    const input = createState();
+    const { state, steps } = registry.migrate(input);
+
+    expect(state.cards[0]?.meta?.due).toBe(Date.parse('2024-01-31'));
+    expect(state.metaVersions).toEqual({ 'due-dates': 2 });
+    expect(steps.filter((s) => s.namespace === 'due-dates').map((s) => s.to)).toEqual([1, 2]);
+    expect(input.cards[0]?.meta?.due).toBe('2024-01-31');
+  });
+
+  it('should reject duplicate versions and missing steps', () => {
+    const registry = new MigrationRegistry();
+    registry.register({ namespace: 'labels', version: 2, migrate: (s) => s });
+
+    expect(() => registry.register({ namespace: 'labels', version: 2, migrate: (s) => s })).toThrow(
+      /Duplicate migration/
+    );
+    expect(() => registry.migrate(createState())).toThrow(/from version 0 to 1/);
+  });
+
+  it('should leave states from newer releases alone', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const state = { ...createState(), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+
+    expect(new MigrationRegistry().migrate(state).steps).toEqual([]);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+});
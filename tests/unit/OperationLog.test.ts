@@ -0,0 +1,77 @@
+/**
+ * Unit tests for OperationLog
+ */
+
+import { OperationLog } from '../../src/core/log';
+import type { KanbanState } from '../../src/core/types';
+
+describe('OperationLog', () => {
+  const base: KanbanState = {
+    columns: [
+      { id: 'todo', title: 'To Do', order: 0 },
+      { id: 'done', title: 'Done', order: 1 },
+    ],
+    cards: [
+      { id: 1, title: 'Card 1', columnId: 'todo', order: 0 },
+      { id: 2, title: 'Card 2', columnId: 'todo', order: 1 },
+    ],
+  };
+
+  const createLog = () => {
+    const log = new OperationLog(base, { actor: 'alice' });
+    log.append([{ type: 'card:move', cardId: 1, to: { columnId: 'done' } }], { at: 1000 });
+    log.append([{ type: 'card:update', cardId: 2, patch: { title: 'Renamed' } }], {
+      at: 2000,
+      origin: 'tab-2',
+    });
+    log.append([{ type: 'card:remove', cardId: 2 }], { at: 3000, actor: 'bob' });
+    return log;
+  };
+
+  it('should number entries and record who made them', () => {
+    const entries = createLog().getEntries();
+
+    expect(entries.map((entry) => [entry.seq, entry.at, entry.actor, entry.origin])).toEqual([
+      [1, 1000, 'alice', undefined],
+      [2, 2000, undefined, 'tab-2'],
+      [3, 3000, 'bob', undefined],
+    ]);
+  });
+
+  it('should rebuild the state by replaying entries', () => {
+    const state = createLog().replay();
+
+    expect(state.cards.map((card) => [card.id, card.columnId])).toEqual([[1, 'done']]);
+  });
+
+  it('should replay up to a point in time', () => {
+    const log = createLog();
+
+    expect(log.replay({ at: 2500 }).cards.find((card) => card.id === 2)?.title).toBe('Renamed');
+    expect(log.replay({ seq: 1 }).cards.find((card) => card.id === 2)?.title).toBe('Card 2');
+    expect(log.replay({ at: 0 }).cards.map((card) => card.columnId)).toEqual(['todo', 'todo']);
+  });
+
+  it('should round-trip through export and import', () => {
+    const log = createLog();
+    const restored = OperationLog.import(JSON.parse(JSON.stringify(log.export())));
+
+    expect(restored.size).toBe(3);
+    expect(restored.replay()).toEqual(log.replay());
+    expect(() => OperationLog.import({ ...log.export(), version: 99 })).toThrow();
+  });
+
+  it('should report appended entries', () => {
+    const appended: number[] = [];
+    const log = new OperationLog(base, {
+      onAppend: (entries) => appended.push(...entries.map((entry) => entry.seq)),
+    });
+
+    log.append([
+      { type: 'card:remove', cardId: 1 },
+      { type: 'card:remove', cardId: 2 },
+    ]);
+
+    expect(appended).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for Replica
+ */
+
+import { StateManager } from '../../src/core/state';
+import { MemoryNetwork, Replica } from '../../src/core/replica';
+import type { KanbanState } from '../../src/core/types';
+
+describe('Replica', () => {
+  const initialState: KanbanState = {
+    columns: [
+      { id: 'todo', title: 'To Do' },
+      { id: 'doing', title: 'Doing' },
+      { id: 'done', title: 'Done' },
+    ],
+    cards: [
+      { id: 1, title: 'Card 1', columnId: 'todo' },
+      { id: 2, title: 'Card 2', columnId: 'todo' },
+      { id: 3, title: 'Card 3', columnId: 'doing' },
+    ],
+  };
+
+  const createReplicas = (ordering: 'index' | 'fractional' = 'fractional') => {
+    const network = new MemoryNetwork({ manual: true });
+    const alice = new StateManager(initialState, { ordering });
+    const bob = new StateManager(initialState, { ordering });
+    const aliceReplica = new Replica(alice, network.connect(), { replicaId: 'alice' });
+    const bobReplica = new Replica(bob, network.connect(), { replicaId: 'bob' });
+    network.deliver();
+
+    return { network, alice, bob, aliceReplica, bobReplica };
+  };
+
+  const view = (manager: StateManager) =>
+    manager.getColumns().map((column) => [
+      column.id,
+      manager.getCards(column.id).map((card) => `${card.id}:${card.title}`),
+    ]);
+
+  it('should share local changes', () => {
+    const { network, alice, bob, aliceReplica } = createReplicas();
+
+    alice.updateCard(1, { title: 'Renamed' });
+    alice.addCard({ id: 4, title: 'Card 4', columnId: 'done' });
+    aliceReplica.commit();
+    network.deliver();
+
+    expect(bob.getCard(1)?.title).toBe('Renamed');
+    expect(view(bob)).toEqual(view(alice));
+  });
+
+  it('should converge when two users move the same card', () => {
+    const { network, alice, bob, aliceReplica, bobReplica } = createReplicas();
+
+    alice.moveCard(1, 'doing');
+    bob.moveCard(1, 'done');
+    aliceReplica.commit();
+    bobReplica.commit();
+    network.deliver();
+
+    expect(view(alice)).toEqual(view(bob));
+    expect(alice.getCard(1)?.columnId).toBe('done'); // Same clock, higher replica ID wins
+  });
+
+  it('should agree on the order of cards added concurrently with index ordering', () => {
+    const { network, alice, bob, aliceReplica, bobReplica } = createReplicas('index');
+
+    alice.addCard({ id: 4, title: 'Card 4', columnId: 'done' });
+    bob.addCard({ id: 5, title: 'Card 5', columnId: 'done' });
+    aliceReplica.commit();
+    bobReplica.commit();
+    network.deliver();
+
+    expect(view(alice)).toEqual(view(bob));
+    expect(alice.getCards('done').map((card) => card.id)).toEqual([4, 5]);
+  });
+
+  it('should keep concurrent edits of different fields', () => {
+    const { network, alice, bob, aliceReplica, bobReplica } = createReplicas();
+
+    alice.updateCard(2, { title: 'From Alice' });
+    bob.updateCard(2, { description: 'From Bob' });
+    bob.moveCard(2, 'doing', undefined, 0);
+    aliceReplica.commit();
+    bobReplica.commit();
+    network.deliver();
+
+    expect(alice.getCard(2)).toEqual(bob.getCard(2));
+    expect(alice.getCard(2)).toMatchObject({
+      title: 'From Alice',
+      description: 'From Bob',
+      columnId: 'doing',
+    });
+  });
+
+  it('should drop cards edited while their column is removed', () => {
+    const { network, alice, bob, aliceReplica, bobReplica } = createReplicas();
+
+    alice.updateCard(3, { title: 'Still working on it' });
+    alice.addCard({ id: 5, title: 'Card 5', columnId: 'doing' });
+    bob.removeColumn('doing');
+    aliceReplica.commit();
+    bobReplica.commit();
+    network.deliver();
+
+    expect(view(alice)).toEqual(view(bob));
+    expect(alice.getColumn('doing')).toBeNull();
+    expect(alice.getCard(3)).toBeNull();
+    expect(bob.getCard(5)).toBeNull();
+  });
+
+  it('should order cards inserted at the same place the same way', () => {
+    const { network, alice, bob, aliceReplica, bobReplica } = createReplicas();
+
+    alice.addCard({ id: 'a', title: 'From Alice', columnId: 'todo' }, 0);
+    bob.addCard({ id: 'b', title: 'From Bob', columnId: 'todo' }, 0);
+    aliceReplica.commit();
+    bobReplica.commit();
+    network.deliver();
+
+    expect(alice.getCards('todo').map((card) => card.id)).toEqual(['a', 'b', 1, 2]);
+    expect(view(alice)).toEqual(view(bob));
+  });
+
+  it('should converge regardless of delivery order', () => {
+    const network = new MemoryNetwork({ manual: true });
+    const managers = [1, 2, 3].map(() => new StateManager(initialState, { ordering: 'fractional' }));
+    const replicas = managers.map(
+      (manager, index) => new Replica(manager, network.connect(), { replicaId: `r${index}` })
+    );
+    network.deliver();
+
+    managers[0]?.moveCard(1, 'done');
+    replicas[0]?.commit();
+    managers[1]?.removeCard(1);
+    replicas[1]?.commit();
+    network.deliver();
+    managers[2]?.updateCard(2, { title: 'Late edit' });
+    managers[0]?.moveCard(2, 'done', undefined, 0);
+    replicas[2]?.commit();
+    replicas[0]?.commit();
+    network.deliver();
+
+    const [first, ...rest] = managers.map((manager) => view(manager));
+    rest.forEach((other) => expect(other).toEqual(first));
+    expect(managers[2]?.getCard(1)).toBeNull();
+  });
+
+  it('should catch up a replica that joins later', () => {
+    const { network, alice, aliceReplica } = createReplicas();
+
+    alice.removeCard(2);
+    aliceReplica.commit();
+    network.deliver();
+
+    const carol = new StateManager(initialState, { ordering: 'fractional' });
+    new Replica(carol, network.connect(), { replicaId: 'carol' });
+    network.deliver();
+
+    expect(view(carol)).toEqual(view(alice));
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Unit tests for RestSyncQueue
+ */
+
+import { RestSyncQueue, collapseOperation } from '../../src/core/rest';
+import type { KanbanOperation, RestSyncOptions } from '../../src/core/types';
+
+describe('collapseOperation', () => {
+  const collapse = (operations: KanbanOperation[]) =>
+    operations.reduce<KanbanOperation[]>(collapseOperation, []);
+
+  it('should keep only the last of repeated moves', () => {
+    const queue = collapse([
+      { type: 'card:move', cardId: 1, to: { columnId: 'doing' } },
+      { type: 'card:update', cardId: 1, patch: { title: 'Renamed' } },
+      { type: 'card:move', cardId: 1, to: { columnId: 'review' } },
+      { type: 'card:move', cardId: 1, to: { columnId: 'done', index: 0 } },
+    ]);
+
+    expect(queue).toEqual([
+      { type: 'card:update', cardId: 1, patch: { title: 'Renamed' } },
+      { type: 'card:move', cardId: 1, to: { columnId: 'done', index: 0 } },
+    ]);
+  });
+
+  it('should fold changes into a queued add', () => {
+    const queue = collapse([
+      { type: 'card:add', card: { id: 5, title: 'New', columnId: 'todo' } },
+      { type: 'card:update', cardId: 5, patch: { title: 'Renamed' } },
+      { type: 'card:move', cardId: 5, to: { columnId: 'done', index: 2 } },
+    ]);
+
+    expect(queue).toEqual([
+      { type: 'card:add', card: { id: 5, title: 'Renamed', columnId: 'done' }, index: 2 },
+    ]);
+  });
+
+  it('should not fold changes ahead of operations queued after the add', () => {
+    const queue = collapse([
+      { type: 'card:add', card: { id: 5, title: 'New', columnId: 'todo' } },
+      { type: 'column:add', column: { id: 'review', title: 'Review' } },
+      { type: 'card:move', cardId: 5, to: { columnId: 'review' } },
+    ]);
+
+    expect(queue).toEqual([
+      { type: 'card:add', card: { id: 5, title: 'New', columnId: 'todo' } },
+      { type: 'column:add', column: { id: 'review', title: 'Review' } },
+      { type: 'card:move', cardId: 5, to: { columnId: 'review' } },
+    ]);
+  });
+
+  it('should drop work on removed entities', () => {
+    const queue = collapse([
+      { type: 'card:add', card: { id: 5, title: 'New', columnId: 'todo' } },
+      { type: 'card:update', cardId: 1, patch: { title: 'A' } },
+      { type: 'card:update', cardId: 1, patch: { description: 'B' } },
+      { type: 'card:remove', cardId: 5 },
+      { type: 'column:update', columnId: 'todo', patch: { title: 'Backlog' } },
+      { type: 'column:remove', columnId: 'todo' },
+    ]);
+
+    expect(queue).toEqual([
+      { type: 'card:update', cardId: 1, patch: { title: 'A', description: 'B' } },
+      { type: 'column:remove', columnId: 'todo' },
+    ]);
+  });
+});
+
+describe('RestSyncQueue', () => {
+  const endpoints: RestSyncOptions['endpoints'] = {
+    'card:update': ({ cardId, patch }) => ({
+      method: 'PATCH',
+      url: `/cards/${cardId}`,
+      body: patch,
+    }),
+    'card:move': ({ cardId, to }) => ({ method: 'POST', url: `/cards/${cardId}/move`, body: to }),
+    'column:remove': ({ columnId }) => ({ method: 'DELETE', url: `/columns/${columnId}` }),
+  };
+
+  const createQueue = (
+    statuses: Array<number | 'network'>,
+    retry: RestSyncOptions['retry'] = { delay: 1, maxAttempts: 3 }
+  ) => {
+    const requests: Array<{ url: string; method?: string; body?: unknown }> = [];
+    const events: Array<[string, unknown]> = [];
+
+    const fetchMock = (url: string, init: RequestInit) => {
+      requests.push({
+        url,
+        method: init.method,
+        body: init.body === undefined ? undefined : JSON.parse(String(init.body)),
+      });
+      const status = statuses.shift() ?? 200;
+      if (status === 'network') return Promise.reject(new TypeError('Failed to fetch'));
+      return Promise.resolve({ ok: status < 300, status } as Response);
+    };
+
+    const queue = new RestSyncQueue(
+      {
+        baseUrl: 'https://api.test',
+        endpoints,
+        retry,
+        fetch: fetchMock as typeof fetch,
+      },
+      ((event: string, data: unknown) => events.push([event, data])) as never
+    );
+
+    return { queue, requests, events };
+  };
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it('should send mapped operations in order', async () => {
+    const { queue, requests, events } = createQueue([]);
+
+    queue.enqueue([
+      { type: 'card:update', cardId: 1, patch: { title: 'Renamed' } },
+      { type: 'card:remove', cardId: 1 }, // No endpoint
+      { type: 'column:remove', columnId: 'todo' },
+    ]);
+    await queue.flush();
+
+    expect(requests).toEqual([
+      { url: 'https://api.test/cards/1', method: 'PATCH', body: { title: 'Renamed' } },
+      { url: 'https://api.test/columns/todo', method: 'DELETE', body: undefined },
+    ]);
+    expect(events.filter(([event]) => event === 'rest:sent')).toHaveLength(2);
+    expect(events.filter(([event]) => event === 'rest:error')).toEqual([
+      [
+        'rest:error',
+        expect.objectContaining({
+          operation: { type: 'card:remove', cardId: 1 },
+          request: null,
+          attempt: 0,
+          willRetry: false,
+        }),
+      ],
+    ]);
+    expect(queue.getStatus()).toBe('idle');
+  });
+
+  it('should retry failed requests and collapse what was queued meanwhile', async () => {
+    const { queue, requests, events } = createQueue(['network', 503]);
+
+    queue.enqueue([{ type: 'card:move', cardId: 1, to: { columnId: 'doing' } }]);
+    await queue.flush();
+
+    expect(queue.getStatus()).toBe('offline');
+
+    queue.enqueue([{ type: 'card:move', cardId: 1, to: { columnId: 'done' } }]);
+    await wait(20);
+
+    expect(requests.map((request) => request.body)).toEqual([
+      { columnId: 'doing' },
+      { columnId: 'done' },
+      { columnId: 'done' },
+    ]);
+    expect(events.filter(([event]) => event === 'rest:error')).toHaveLength(2);
+    expect(queue.pending).toBe(0);
+    expect(queue.getStatus()).toBe('idle');
+  });
+
+  it('should drop operations the server rejects or after the last attempt', async () => {
+    const { queue, events } = createQueue([400, 500, 500, 500]);
+
+    queue.enqueue([
+      { type: 'card:update', cardId: 1, patch: { title: 'Invalid' } },
+      { type: 'column:remove', columnId: 'todo' },
+    ]);
+    await wait(50);
+
+    const errors = events
+      .filter(([event]) => event === 'rest:error')
+      .map(([, data]) => data as { attempt: number; willRetry: boolean });
+    expect(errors.map(({ attempt, willRetry }) => [attempt, willRetry])).toEqual([
+      [1, false],
+      [1, true],
+      [2, true],
+      [3, false],
+    ]);
+    expect(queue.pending).toBe(0);
+  });
+
+  it('should keep operations that failed on the network queued', async () => {
+    const { queue, requests, events } = createQueue(['network', 'network', 'network', 'network']);
+
+    queue.enqueue([{ type: 'card:move', cardId: 1, to: { columnId: 'doing' } }]);
+    await wait(100);
+
+    const errors = events
+      .filter(([event]) => event === 'rest:error')
+      .map(([, data]) => (data as { willRetry: boolean }).willRetry);
+    expect(errors).toEqual([true, true, true, true]);
+    expect(requests).toHaveLength(5);
+    expect(queue.pending).toBe(0);
+    expect(queue.getStatus()).toBe('idle');
+  });
+
+  it('should not send new operations before a pending retry', async () => {
+    const { queue, requests } = createQueue([503], { delay: 1000 });
+
+    queue.enqueue([{ type: 'card:move', cardId: 1, to: { columnId: 'doing' } }]);
+    await wait(0);
+    queue.enqueue([{ type: 'card:update', cardId: 2, patch: { title: 'Renamed' } }]);
+    await wait(0);
+
+    expect(requests).toHaveLength(1);
+    expect(queue.getStatus()).toBe('retrying');
+
+    await queue.flush();
+    expect(requests.map((request) => request.url)).toEqual([
+      'https://api.test/cards/1/move',
+      'https://api.test/cards/1/move',
+      'https://api.test/cards/2',
+    ]);
+  });
+});
@@ -78,6 +78,72 @@ describe('StateManager', () => {
       expect(success).toBe(true);
       expect(card?.columnId).toBe('done');
     });
+
+    it('should reorder a card within its column', () => {
+      const manager = new StateManager({
+        columns: [{ id: 'todo', title: 'To Do' }],
+        cards: [
+          { id: 1, title: 'Card 1', columnId: 'todo' },
+          { id: 2, title: 'Card 2', columnId: 'todo' },
+          { id: 3, title: 'Card 3', columnId: 'todo' }
+        ]
+      });
+
+      manager.moveCard(1, 'todo', undefined, 2);
+
+      expect(manager.getCards('todo').map((c) => c.id)).toEqual([2, 3, 1]);
+    });
+
+    it('should insert a moved card at the target index', () => {
+      const manager = new StateManager({
+        columns: [
+          { id: 'todo', title: 'To Do' },
+          { id: 'done', title: 'Done' }
+        ],
+        cards: [
+          { id: 1, title: 'Card 1', columnId: 'todo' },
+          { id: 2, title: 'Card 2', columnId: 'done' },
+          { id: 3, title: 'Card 3', columnId: 'done' }
+        ]
+      });
+
+      manager.moveCard(1, 'done', undefined, 1);
+
+      expect(manager.getCards('done').map((c) => c.id)).toEqual([2, 1, 3]);
+      expect(manager.getCardIndex(1)).toBe(1);
+    });
+
+    it('should append a card moved to another column without an index', () => {
+      const manager = new StateManager({
+        columns: [
+          { id: 'todo', title: 'To Do' },
+          { id: 'done', title: 'Done' }
+        ],
+        cards: [
+          { id: 1, title: 'Card 1', columnId: 'done' },
+          { id: 2, title: 'Card 2', columnId: 'done' },
+          { id: 3, title: 'Card 3', columnId: 'todo' }
+        ]
+      });
+
+      manager.moveCard(3, 'done');
+
+      expect(manager.getCards('done').map((c) => c.id)).toEqual([1, 2, 3]);
+    });
+
+    it('should add a card at a specific index', () => {
+      const manager = new StateManager({
+        columns: [{ id: 'todo', title: 'To Do' }],
+        cards: [
+          { id: 1, title: 'Card 1', columnId: 'todo' },
+          { id: 2, title: 'Card 2', columnId: 'todo' }
+        ]
+      });
+
+      manager.addCard({ id: 3, title: 'Card 3', columnId: 'todo' }, 0);
+
+      expect(manager.getCards('todo').map((c) => c.id)).toEqual([3, 1, 2]);
+    });
   });
 
   describe('Column Operations', () => {
@@ -109,6 +175,109 @@ describe('StateManager', () => {
     });
   });
 
+  describe('Removal Policies', () => {
+    const createManager = () =>
+      new StateManager({
+        lanes: [
+          { id: 'team1', title: 'Team 1' },
+          { id: 'team2', title: 'Team 2' }
+        ],
+        columns: [
+          { id: 'todo', title: 'To Do', laneId: 'team1' },
+          { id: 'done', title: 'Done', laneId: 'team1' },
+          { id: 'backlog', title: 'Backlog', laneId: 'team2' }
+        ],
+        cards: [
+          { id: 1, title: 'Card 1', columnId: 'todo', laneId: 'team1' },
+          { id: 2, title: 'Card 2', columnId: 'todo', laneId: 'team1' },
+          { id: 3, title: 'Card 3', columnId: 'backlog', laneId: 'team2' }
+        ]
+      });
+
+    it('should remove a column together with its cards by default', () => {
+      const manager = createManager();
+
+      expect(manager.removeColumn('todo')).toBe(true);
+      expect(manager.getCards().map((c) => c.id)).toEqual([3]);
+    });
+
+    it('should move cards to another column', () => {
+      const manager = createManager();
+
+      expect(manager.removeColumn('todo', { moveTo: 'backlog' })).toBe(true);
+      expect(manager.getCards('backlog').map((c) => [c.id, c.laneId])).toEqual([
+        [3, 'team2'],
+        [1, 'team2'],
+        [2, 'team2']
+      ]);
+    });
+
+    it('should keep non-empty columns with reject-if-not-empty', () => {
+      const manager = createManager();
+
+      expect(manager.removeColumn('todo', 'reject-if-not-empty')).toBe(false);
+      expect(manager.removeColumn('done', 'reject-if-not-empty')).toBe(true);
+      expect(manager.getColumn('todo')).toBeDefined();
+    });
+
+    it('should refuse to move cards to a missing column', () => {
+      const manager = createManager();
+
+      expect(manager.removeColumn('todo', { moveTo: 'missing' })).toBe(false);
+      expect(manager.getCards('todo')).toHaveLength(2);
+    });
+
+    it('should cascade lane removal to its columns and cards', () => {
+      const manager = createManager();
+
+      expect(manager.getLaneDependents('team1')).toEqual({ columnIds: ['todo', 'done'], cardIds: [1, 2] });
+      expect(manager.removeLane('team1')).toBe(true);
+      expect(manager.getColumns().map((c) => c.id)).toEqual(['backlog']);
+      expect(manager.getCards().map((c) => c.id)).toEqual([3]);
+    });
+
+    it('should move lane contents to another lane or detach them', () => {
+      const manager = createManager();
+
+      expect(manager.removeLane('team1', { moveTo: 'team2' })).toBe(true);
+      expect(manager.getColumns('team2')).toHaveLength(3);
+      expect(manager.getCards(undefined, 'team2')).toHaveLength(3);
+
+      expect(manager.removeLane('team2', { moveTo: null })).toBe(true);
+      expect(manager.getColumns().every((c) => c.laneId === undefined)).toBe(true);
+    });
+
+    it('should move cards out of their lane when the target column has none', () => {
+      const manager = createManager();
+      manager.addColumn({ id: 'inbox', title: 'Inbox' });
+      manager.addCard({ id: 4, title: 'Card 4', columnId: 'inbox' });
+
+      expect(manager.removeColumn('todo', { moveTo: 'inbox' })).toBe(true);
+      expect(manager.getCards('inbox').map((c) => [c.id, c.order, 'laneId' in c])).toEqual([
+        [4, 0, false],
+        [1, 1, false],
+        [2, 2, false]
+      ]);
+    });
+
+    it('should append moved lane cards after those already in the target lane', () => {
+      const manager = createManager();
+      manager.addColumn({ id: 'shared', title: 'Shared' });
+      manager.addCard({ id: 4, title: 'Card 4', columnId: 'shared', laneId: 'team2' });
+      manager.addCard({ id: 5, title: 'Card 5', columnId: 'shared', laneId: 'team1' });
+
+      expect(manager.removeLane('team1', { moveTo: 'team2' })).toBe(true);
+      expect(manager.getCards('shared', 'team2').map((c) => [c.id, c.order])).toEqual([
+        [4, 0],
+        [5, 1]
+      ]);
+      expect(manager.getCards('todo', 'team2').map((c) => [c.id, c.order])).toEqual([
+        [1, 0],
+        [2, 1]
+      ]);
+    });
+  });
+
   describe('State Validation', () => {
     it('should return a deep copy of state', () => {
       const manager = new StateManager({
@@ -123,4 +292,72 @@ describe('StateManager', () => {
       expect(state1.cards[0]).not.toBe(state2.cards[0]); // Deep copy
     });
   });
+
+  describe('Snapshots', () => {
+    const createManager = () =>
+      new StateManager({
+        columns: [
+          { id: 'todo', title: 'To Do' },
+          { id: 'done', title: 'Done' }
+        ],
+        cards: [
+          { id: 1, title: 'Card 1', columnId: 'todo', meta: { tags: ['a'] } },
+          { id: 2, title: 'Card 2', columnId: 'todo' },
+          { id: 3, title: 'Card 3', columnId: 'done' }
+        ]
+      });
+
+    it('should share unchanged entities between snapshots', () => {
+      const manager = createManager();
+      const before = manager.getSnapshot();
+
+      expect(manager.getSnapshot()).toBe(before);
+
+      manager.updateCard(2, { title: 'Renamed' });
+      const after = manager.getSnapshot();
+
+      expect(after).not.toBe(before);
+      expect(after.columns).toBe(before.columns);
+      expect(after.cards[0]).toBe(before.cards[0]);
+      expect(after.cards[1]?.title).toBe('Renamed');
+      expect(before.cards[1]?.title).toBe('Card 2');
+    });
+
+    it('should freeze snapshots deeply', () => {
+      const manager = createManager();
+      const snapshot = manager.getSnapshot();
+
+      expect(Object.isFrozen(snapshot)).toBe(true);
+      expect(Object.isFrozen(snapshot.cards)).toBe(true);
+      expect(Object.isFrozen(snapshot.cards[0]?.meta?.tags)).toBe(true);
+      expect(Object.isFrozen(manager.getState().cards[0])).toBe(false);
+    });
+
+    it('should not be affected by later changes to the input', () => {
+      const card: Card = { id: 4, title: 'Card 4', columnId: 'done', meta: { priority: 1 } };
+      const manager = createManager();
+
+      manager.addCard(card);
+      card.meta!.priority = 2;
+
+      expect(manager.getCard(4)?.meta?.priority).toBe(1);
+    });
+
+    it('should keep buckets in sync across moves and restores', () => {
+      const manager = createManager();
+      const snapshot = manager.getSnapshot();
+
+      manager.moveCard(1, 'done', undefined, 1);
+      expect(manager.getCards('todo').map((c) => c.id)).toEqual([2]);
+      expect(manager.getCards('done').map((c) => [c.id, c.order])).toEqual([
+        [3, 0],
+        [1, 1]
+      ]);
+      expect(manager.getCardIndex(1)).toBe(1);
+
+      manager.setState(snapshot);
+      expect(manager.getCards('todo').map((c) => c.id)).toEqual([1, 2]);
+      expect(manager.getCard(1)).toBe(snapshot.cards[0]);
+    });
+  });
 });
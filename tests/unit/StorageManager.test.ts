@@ -3,6 +3,7 @@
  */
 
 import { StorageManager } from '../../src/core/storage';
+import { MemoryStorageAdapter } from '../../src/core/adapters';
 import type { KanbanState } from '../../src/core/types';
 
 // Mock localStorage
@@ -30,56 +31,86 @@ describe('StorageManager', () => {
     localStorage.clear();
   });
 
-  it('should save state to localStorage', () => {
+  it('should save state to localStorage', async () => {
     const manager = new StorageManager('test-key');
     const state: KanbanState = {
       columns: [{ id: 'todo', title: 'To Do' }],
       cards: []
     };
 
-    const success = manager.save(state);
+    const success = await manager.save(state);
 
     expect(success).toBe(true);
     expect(localStorage.getItem('test-key')).toBeTruthy();
   });
 
-  it('should load state from localStorage', () => {
+  it('should load state from localStorage', async () => {
     const manager = new StorageManager('test-key');
     const state: KanbanState = {
       columns: [{ id: 'todo', title: 'To Do' }],
       cards: [{ id: 1, title: 'Card 1', columnId: 'todo' }]
     };
 
-    manager.save(state);
-    const loaded = manager.load();
+    await manager.save(state);
+    const loaded = await manager.load();
 
     expect(loaded).toBeDefined();
     expect(loaded?.columns).toHaveLength(1);
     expect(loaded?.cards).toHaveLength(1);
   });
 
-  it('should return null for invalid state format', () => {
+  it('should return null for invalid state format', async () => {
     const manager = new StorageManager('test-key');
     
     // Save malformed data
     localStorage.setItem('test-key', '{"invalid": "data"}');
     
-    const loaded = manager.load();
+    const loaded = await manager.load();
 
     expect(loaded).toBeNull();
   });
 
-  it('should clear saved state', () => {
+  it('should clear saved state', async () => {
     const manager = new StorageManager('test-key');
     const state: KanbanState = {
       columns: [{ id: 'todo', title: 'To Do' }],
       cards: []
     };
 
-    manager.save(state);
-    const success = manager.clear();
+    await manager.save(state);
+    const success = await manager.clear();
 
     expect(success).toBe(true);
     expect(localStorage.getItem('test-key')).toBeNull();
   });
+
+  it('should persist through a custom adapter', async () => {
+    const adapter = new MemoryStorageAdapter();
+    const manager = new StorageManager(adapter);
+    const state: KanbanState = {
+      columns: [{ id: 'todo', title: 'To Do' }],
+      cards: [{ id: 1, title: 'Card 1', columnId: 'todo' }]
+    };
+
+    await manager.save(state);
+    state.cards = [];
+
+    const loaded = await manager.load();
+    expect(loaded?.cards).toHaveLength(1);
+    expect(localStorage.getItem('test-key')).toBeNull();
+  });
+
+  it('should return false when the adapter fails to save', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const manager = new StorageManager({
+      load: () => Promise.resolve(null),
+      save: () => Promise.reject(new Error('quota exceeded')),
+      clear: () => Promise.resolve()
+    });
+
+    const success = await manager.save({ columns: [], cards: [] });
+
+    expect(success).toBe(false);
+    errorSpy.mockRestore();
+  });
 });
@@ -0,0 +1,267 @@
+/**
+ * Unit tests for WebSocketSync
+ */
+
+import { WebSocketSync } from '../../src/core/websocket';
+import { KanbanModel } from '../../src/core/model';
+import type {
+  KanbanOperation,
+  KanbanState,
+  RemotePresence,
+  WebSocketConstructor,
+} from '../../src/core/types';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: Array<Record<string, unknown>> = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data) as Record<string, unknown>);
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  // Test helpers
+  open(): void {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  receive(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+describe('WebSocketSync', () => {
+  const state: KanbanState = {
+    columns: [{ id: 'todo', title: 'To Do' }],
+    cards: [{ id: 1, title: 'Card 1', columnId: 'todo' }],
+  };
+
+  const removeCard: KanbanOperation = { type: 'card:remove', cardId: 1 };
+  const renameCard: KanbanOperation = { type: 'card:update', cardId: 1, patch: { title: 'New' } };
+
+  const createClient = () => {
+    const applied: Array<[string, KanbanOperation[]]> = [];
+    const presence: Array<[RemotePresence, boolean]> = [];
+    const client = new WebSocketSync(
+      {
+        url: 'ws://example.test',
+        clientId: 'alice',
+        user: { name: 'Alice' },
+        reconnect: false,
+        WebSocket: FakeWebSocket as unknown as WebSocketConstructor,
+      },
+      {
+        getState: () => state,
+        apply: (operations, origin) => applied.push([origin, operations]),
+        reapply: (operations) => applied.push(['local', operations]),
+        onPresence: (peer, left) => presence.push([peer, left]),
+      }
+    );
+    client.connect();
+    const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1] as FakeWebSocket;
+    socket.open();
+
+    return { client, socket, applied, presence };
+  };
+
+  const welcome = (version: number, batches: unknown[] = [], peers: unknown[] = []) => ({
+    type: 'welcome',
+    epoch: 'run-1',
+    version,
+    batches,
+    peers,
+  });
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+  });
+
+  it('should seed a server without history with the board state', () => {
+    const { socket } = createClient();
+
+    expect(socket.sent[0]).toMatchObject({ type: 'hello', clientId: 'alice', version: 0 });
+
+    socket.receive(welcome(0));
+
+    expect(socket.sent[1]).toMatchObject({
+      type: 'ops',
+      operations: [{ type: 'state:load', state }],
+    });
+  });
+
+  it('should apply remote batches and send local operations', () => {
+    const { client, socket, applied } = createClient();
+    socket.receive(welcome(1, [{ version: 1, clientId: 'bob', id: 'bob:1', operations: [] }]));
+
+    socket.receive({
+      type: 'ops',
+      version: 2,
+      clientId: 'bob',
+      id: 'bob:2',
+      operations: [renameCard],
+    });
+    client.send([removeCard]);
+    socket.receive({ type: 'ack', id: 'alice:1', version: 3 });
+
+    expect(applied.map(([origin]) => origin)).toEqual(['bob', 'bob']);
+    expect(applied[1]?.[1]).toEqual([renameCard]);
+    expect(socket.sent[1]).toMatchObject({ type: 'ops', id: 'alice:1', operations: [removeCard] });
+    expect(client.getVersion()).toBe(3);
+  });
+
+  it('should put unacknowledged local operations back on top of remote ones', () => {
+    const { client, socket, applied } = createClient();
+    socket.receive(welcome(1));
+
+    client.send([removeCard]);
+    socket.receive({
+      type: 'ops',
+      version: 2,
+      clientId: 'bob',
+      id: 'bob:1',
+      operations: [renameCard],
+    });
+
+    expect(applied).toEqual([
+      ['bob', [renameCard]],
+      ['local', [removeCard]],
+    ]);
+  });
+
+  it('should resync from the last version after reconnecting', () => {
+    const { client, socket, applied } = createClient();
+    socket.receive(welcome(4));
+    socket.close();
+
+    // Made while offline
+    client.send([removeCard]);
+    client.connect();
+    const next = FakeWebSocket.instances[1] as FakeWebSocket;
+    next.open();
+
+    expect(next.sent[0]).toMatchObject({ type: 'hello', epoch: 'run-1', version: 4 });
+
+    next.receive(
+      welcome(5, [{ version: 5, clientId: 'bob', id: 'bob:1', operations: [renameCard] }])
+    );
+
+    expect(applied).toEqual([
+      ['bob', [renameCard]],
+      ['local', [removeCard]],
+    ]);
+    expect(next.sent[1]).toMatchObject({ type: 'ops', id: 'alice:1', operations: [removeCard] });
+    expect(client.getVersion()).toBe(5);
+  });
+
+  it('should share and report presence', () => {
+    const { client, socket, presence } = createClient();
+    client.setPresence({ cardId: 1, mode: 'focus' });
+
+    socket.receive(welcome(1, [], [{ clientId: 'bob', user: { name: 'Bob' }, presence: null }]));
+    socket.receive({
+      type: 'presence',
+      clientId: 'bob',
+      user: { name: 'Bob' },
+      presence: { cardId: 1, mode: 'drag' },
+    });
+
+    expect(socket.sent[1]).toEqual({ type: 'presence', presence: { cardId: 1, mode: 'focus' } });
+    expect(client.getPeers()).toEqual([
+      { clientId: 'bob', user: { name: 'Bob' }, presence: { cardId: 1, mode: 'drag' } },
+    ]);
+
+    socket.receive({ type: 'leave', clientId: 'bob' });
+
+    expect(client.getPeers()).toEqual([]);
+    expect(presence.map(([peer, left]) => [peer.clientId, left])).toEqual([
+      ['bob', false],
+      ['bob', false],
+      ['bob', true],
+    ]);
+  });
+
+  it('should re-apply own operations on a board as local, unrecorded changes', async () => {
+    const remoteChanges: string[] = [];
+    const model = new KanbanModel({
+      ...state,
+      operationLog: true,
+      websocket: {
+        url: 'ws://example.test',
+        clientId: 'alice',
+        reconnect: false,
+        WebSocket: FakeWebSocket as unknown as WebSocketConstructor,
+      },
+      on: { 'sync:remote-change': ({ origin }) => remoteChanges.push(origin) },
+    });
+    await model.whenLoaded();
+    const socket = FakeWebSocket.instances[0] as FakeWebSocket;
+    socket.open();
+    socket.receive(welcome(1));
+
+    model.updateCard(1, { title: 'Mine' });
+    socket.receive({
+      type: 'ops',
+      version: 2,
+      clientId: 'bob',
+      id: 'bob:1',
+      operations: [renameCard],
+    });
+
+    expect(model.getStateManager().getCard(1)?.title).toBe('Mine');
+    expect(remoteChanges).toEqual(['bob']);
+    expect(
+      model
+        .getOperationLog()
+        ?.getEntries()
+        .map((entry) => entry.origin)
+    ).toEqual([undefined, 'bob']);
+
+    // Undo only reverts the local edit, on top of the remote one
+    model.undo();
+    expect(model.getStateManager().getCard(1)?.title).toBe('New');
+    model.destroy();
+  });
+
+  it('should report a connection that cannot be opened instead of throwing', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const events: string[] = [];
+    const model = new KanbanModel({
+      ...state,
+      websocket: {
+        url: 'ws://example.test',
+        reconnect: false,
+        WebSocket: class {
+          constructor() {
+            throw new Error('unavailable');
+          }
+        } as unknown as WebSocketConstructor,
+      },
+      on: {
+        'sync:status': ({ status }) => events.push(status),
+        'sync:error': ({ error }) => events.push((error as Error).message),
+      },
+    });
+    await model.whenLoaded();
+    await Promise.resolve();
+
+    expect(events).toEqual(['unavailable']);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+    model.destroy();
+  });
+});
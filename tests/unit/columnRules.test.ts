@@ -0,0 +1,60 @@
+/**
+ * Unit tests for column rule enforcement
+ */
+
+import { checkColumnRules } from '../../src/core/rules';
+import type { Card } from '../../src/core/types';
+
+describe('checkColumnRules', () => {
+  const cards: Card[] = [
+    { id: 1, title: 'Card 1', columnId: 'todo' },
+    { id: 2, title: 'Card 2', columnId: 'doing' },
+    { id: 3, title: 'Card 3', columnId: 'doing' }
+  ];
+
+  it('should allow moves when no rule is declared', () => {
+    expect(checkColumnRules(cards[0] as Card, 'doing', cards, {})).toBeNull();
+    expect(checkColumnRules(cards[0] as Card, 'doing', cards)).toBeNull();
+  });
+
+  it('should reject moves into a full column', () => {
+    const rules = { doing: { maxCards: 2 } };
+
+    expect(checkColumnRules(cards[0] as Card, 'doing', cards, rules)).toBe('max-cards');
+  });
+
+  it('should allow reordering inside a full column', () => {
+    const rules = { doing: { maxCards: 2 } };
+
+    expect(checkColumnRules(cards[1] as Card, 'doing', cards, rules)).toBeNull();
+  });
+
+  it('should reject columns that do not accept cards', () => {
+    const rules = { done: { acceptsCards: false } };
+
+    expect(checkColumnRules(cards[0] as Card, 'done', cards, rules)).toBe('not-accepting');
+  });
+
+  it('should apply custom validators', () => {
+    const rules = { done: { customValidator: (card: Card) => card.labels?.includes('qa') ?? false } };
+
+    expect(checkColumnRules(cards[0] as Card, 'done', cards, rules)).toBe('custom-validator');
+    expect(
+      checkColumnRules({ ...(cards[0] as Card), labels: ['qa'] }, 'done', cards, rules)
+    ).toBeNull();
+  });
+
+  it('should treat a throwing validator as a rejection', () => {
+    const rules = {
+      done: {
+        customValidator: () => {
+          throw new Error('boom');
+        }
+      }
+    };
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(checkColumnRules(cards[0] as Card, 'done', cards, rules)).toBe('custom-validator');
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for CSV import/export
+ */
+
+import { exportCSV, importCSV, parseCSV, detectDelimiter } from '../../src/io/csv';
+import type { KanbanState } from '../../src/core/types';
+
+describe('CSV', () => {
+  const state: KanbanState = {
+    lanes: [{ id: 'web', title: 'Web', order: 0 }],
+    columns: [
+      { id: 'done', title: 'Done', order: 1 },
+      { id: 'todo', title: 'To Do', order: 0 },
+    ],
+    cards: [
+      { id: 3, title: 'Ship it', columnId: 'done', order: 0 },
+      {
+        id: 1,
+        title: 'Write "spec"',
+        columnId: 'todo',
+        laneId: 'web',
+        order: 0,
+        description: 'First line\nSecond line, with a comma',
+        labels: ['docs', 'urgent'],
+        meta: { points: 3, owner: 'ana' },
+      },
+    ],
+  };
+
+  describe('parseCSV', () => {
+    it('should handle quoted fields with delimiters, quotes and line breaks', () => {
+      const rows = parseCSV('a,b\r\n"x, y","say ""hi""\nthere"\n\nlast,\n');
+
+      expect(rows).toEqual([
+        ['a', 'b'],
+        ['x, y', 'say "hi"\nthere'],
+        ['last', ''],
+      ]);
+    });
+
+    it('should reject unterminated quotes', () => {
+      expect(() => parseCSV('a,b\n"open,1\n')).toThrow();
+    });
+
+    it('should detect the delimiter from the header row', () => {
+      expect(detectDelimiter('title;status;"a,b"\nx;y;z')).toBe(';');
+      expect(detectDelimiter('title\tstatus\n')).toBe('\t');
+      expect(detectDelimiter('title')).toBe(',');
+    });
+  });
+
+  describe('exportCSV', () => {
+    it('should write one row per card in board order', () => {
+      const lines = exportCSV(state).split('\r\n');
+
+      expect(lines[0]).toBe('id,title,description,status,lane,labels,points,owner');
+      expect(lines[1]).toBe(
+        '1,"Write ""spec""","First line\nSecond line, with a comma",To Do,Web,"docs,urgent",3,ana'
+      );
+      expect(lines[2]).toBe('3,Ship it,,Done,,,,');
+    });
+  });
+
+  describe('importCSV', () => {
+    it('should round-trip exported cards', () => {
+      const { state: imported, report } = importCSV(exportCSV(state));
+
+      expect(report.cards).toBe(2);
+      expect(imported.columns.map((column) => column.title)).toEqual(['To Do', 'Done']);
+      expect(imported.lanes?.map((lane) => lane.title)).toEqual(['Web']);
+      expect(imported.columns.map((column) => column.laneId)).toEqual(['web', undefined]);
+      expect(imported.cards[0]).toEqual({
+        id: 1,
+        title: 'Write "spec"',
+        columnId: 'to-do',
+        laneId: 'web',
+        description: 'First line\nSecond line, with a comma',
+        labels: ['docs', 'urgent'],
+        meta: { points: 3, owner: 'ana' },
+        order: 0,
+      });
+    });
+
+    it('should map custom headers and match existing columns', () => {
+      const csv =
+        'Key;Summary;State;Estimate\nA-1;Login page;todo;5\nA-2;Logout;In Review;2\nA-3;;done;1';
+      const { state: imported, report } = importCSV(csv, {
+        id: 'Key',
+        title: 'Summary',
+        status: 'State',
+        columns: state.columns,
+      });
+
+      expect(report.delimiter).toBe(';');
+      expect(report.unmappedHeaders).toEqual([]);
+      expect(report.unknownColumns).toEqual(['In Review']);
+      expect(report.skipped).toEqual([{ row: 3, reason: 'missing title' }]);
+      expect(imported.columns.map((column) => column.id)).toEqual(['done', 'todo', 'in-review']);
+      expect(imported.cards.map((card) => [card.id, card.columnId])).toEqual([
+        ['A-1', 'todo'],
+        ['A-2', 'in-review'],
+      ]);
+      expect(imported.cards[0]?.meta).toEqual({ Estimate: 5 });
+
+      const mapped = importCSV(csv, { title: 'Summary', status: 'State', meta: {} });
+      expect(mapped.report.unmappedHeaders).toEqual(['Key', 'Estimate']);
+    });
+
+    it('should report unknown columns in a dry run instead of throwing', () => {
+      const csv = 'title,status\nOne,Backlog\nTwo,To Do';
+      const options = { columns: state.columns, unknownColumns: 'error' as const };
+
+      expect(() => importCSV(csv, options)).toThrow();
+
+      const { report } = importCSV(csv, { ...options, dryRun: true });
+      expect(report.dryRun).toBe(true);
+      expect(report.unknownColumns).toEqual(['Backlog']);
+      expect(report.skipped).toEqual([{ row: 1, reason: 'unknown column "Backlog"' }]);
+    });
+  });
+});
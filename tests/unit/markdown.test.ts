@@ -0,0 +1,232 @@
+/**
+ * Unit tests for Markdown import/export
+ */
+
+import { exportMarkdown, importMarkdown } from '../../src/io/markdown';
+import type { KanbanState } from '../../src/core/types';
+
+describe('importMarkdown', () => {
+  it('should read an Obsidian Kanban board', () => {
+    const state = importMarkdown(
+      [
+        '---',
+        '',
+        'kanban-plugin: basic',
+        '',
+        '---',
+        '',
+        '## To Do',
+        '',
+        '- [ ] Write docs #docs #v2',
+        '- [ ] Fix login [priority:: high] [points:: 3]',
+        '\tSteps to reproduce:',
+        '\t',
+        '\t1. Open the app',
+        '',
+        '## Done',
+        '',
+        '- [x] Ship it',
+        '',
+        '%% kanban:settings',
+        '```',
+        '{"kanban-plugin":"basic"}',
+        '```',
+        '%%',
+      ].join('\n')
+    );
+
+    expect(state.lanes).toBeUndefined();
+    expect(state.columns).toEqual([
+      { id: 'to-do', title: 'To Do', order: 0 },
+      { id: 'done', title: 'Done', order: 1 },
+    ]);
+    expect(state.cards).toEqual([
+      { id: 'card-1', title: 'Write docs', columnId: 'to-do', order: 0, labels: ['docs', 'v2'] },
+      {
+        id: 'card-2',
+        title: 'Fix login',
+        columnId: 'to-do',
+        order: 1,
+        meta: { priority: 'high', points: 3 },
+        description: 'Steps to reproduce:\n\n1. Open the app',
+      },
+      { id: 'card-3', title: 'Ship it', columnId: 'done', order: 0, meta: { checked: true } },
+    ]);
+  });
+
+  it('should read lanes and IDs', () => {
+    const state = importMarkdown(
+      [
+        '# Team A',
+        '## To Do',
+        '- [ ] One [id:: 1]',
+        '# Team B [id:: b]',
+        '## To Do',
+        '- [ ] Two [id:: 2]',
+      ].join('\n')
+    );
+
+    expect(state.lanes).toEqual([
+      { id: 'team-a', title: 'Team A', order: 0 },
+      { id: 'b', title: 'Team B', order: 1 },
+    ]);
+    expect(state.columns.map((column) => [column.id, column.laneId])).toEqual([
+      ['to-do', 'team-a'],
+      ['to-do-2', 'b'],
+    ]);
+    expect(state.cards.map((card) => [card.id, card.columnId, card.laneId])).toEqual([
+      [1, 'to-do', 'team-a'],
+      [2, 'to-do-2', 'b'],
+    ]);
+  });
+});
+
+describe('exportMarkdown', () => {
+  const state: KanbanState = {
+    lanes: [
+      { id: 'b', title: 'Team B', order: 1 },
+      { id: 'team-a', title: 'Team A', order: 0 },
+    ],
+    columns: [
+      { id: 'todo', title: 'To Do', laneId: 'team-a', order: 0 },
+      { id: 'todo-b', title: 'To Do', laneId: 'b', order: 0 },
+    ],
+    cards: [
+      {
+        id: 1,
+        title: 'Fix login',
+        columnId: 'todo',
+        laneId: 'team-a',
+        order: 1,
+        labels: ['bug', 'needs review'],
+        description: 'First line\n\nSecond [line]',
+        meta: { points: 3, owner: 'Ana', tags: ['a]', 'b'], version: '2', checked: true },
+      },
+      { id: 'two', title: 'Plan', columnId: 'todo', laneId: 'team-a', order: 0 },
+      { id: 3, title: 'Other lane', columnId: 'todo-b', laneId: 'b', order: 0 },
+    ],
+  };
+
+  it('should write Obsidian Kanban Markdown', () => {
+    const markdown = exportMarkdown(state, { obsidian: false });
+
+    expect(markdown).toBe(
+      [
+        '# Team A',
+        '',
+        '## To Do [id:: todo]',
+        '',
+        '- [ ] Plan [id:: two]',
+        '',
+        '- [x] Fix login #bug #needs-review [id:: 1] [points:: 3] [owner:: Ana] [tags:: ["a]","b"]] [version:: "2"]',
+        '    First line',
+        '',
+        '    Second [line]',
+        '',
+        '# Team B [id:: b]',
+        '',
+        '## To Do [id:: todo-b]',
+        '',
+        '- [ ] Other lane [id:: 3]',
+        '',
+      ].join('\n')
+    );
+    expect(exportMarkdown(state).startsWith('---\n\nkanban-plugin: basic\n\n---\n\n# Team A')).toBe(
+      true
+    );
+  });
+
+  it('should round-trip titles with # and meta keys that are not words', () => {
+    const card = {
+      id: 1,
+      title: '#1 Fix #12 bug in C#',
+      columnId: 'todo',
+      order: 0,
+      labels: ['bug'],
+      meta: { 'due date': '2026-01-31', 'a"b': 1 },
+    };
+    const markdown = exportMarkdown({ columns: [{ id: 'todo', title: 'Todo' }], cards: [card] });
+
+    expect(markdown).toContain(
+      '- [ ] \\#1 Fix \\#12 bug in C# #bug [id:: 1] ["due date":: 2026-01-31] ["a\\"b":: 1]'
+    );
+    expect(importMarkdown(markdown).cards).toEqual([card]);
+    expect(importMarkdown('## Todo\n- [ ] Plan [due date:: friday]').cards[0]?.meta).toEqual({
+      'due date': 'friday',
+    });
+  });
+
+  it('should round-trip headings that end with #', () => {
+    const markdown = exportMarkdown({
+      lanes: [{ id: 'lane', title: 'Lane C#' }],
+      columns: [{ id: 'c', title: 'C#', laneId: 'lane' }],
+      cards: [],
+    });
+    const imported = importMarkdown(markdown);
+
+    expect(imported.lanes?.map((lane) => lane.title)).toEqual(['Lane C#']);
+    expect(imported.columns.map((column) => column.title)).toEqual(['C#']);
+    expect(importMarkdown('## Done ##').columns[0]?.title).toBe('Done');
+  });
+
+  it('should write columns outside every lane before the first lane', () => {
+    const markdown = exportMarkdown(
+      {
+        lanes: [{ id: 'lane', title: 'Lane' }],
+        columns: [
+          { id: 'lane-todo', title: 'Todo', laneId: 'lane', order: 0 },
+          { id: 'backlog', title: 'Backlog', order: 1 },
+        ],
+        cards: [
+          { id: 1, title: 'Idea', columnId: 'backlog' },
+          { id: 2, title: 'Task', columnId: 'lane-todo', laneId: 'lane' },
+        ],
+      },
+      { obsidian: false }
+    );
+
+    expect(markdown).toBe(
+      [
+        '## Backlog',
+        '',
+        '- [ ] Idea [id:: 1]',
+        '',
+        '# Lane',
+        '',
+        '## Todo [id:: lane-todo]',
+        '',
+        '- [ ] Task [id:: 2]',
+        '',
+      ].join('\n')
+    );
+    const imported = importMarkdown(markdown);
+    expect(imported.columns.map((column) => [column.id, column.laneId])).toEqual([
+      ['backlog', undefined],
+      ['lane-todo', 'lane'],
+    ]);
+    expect(imported.cards.map((card) => [card.id, card.columnId])).toEqual([
+      [1, 'backlog'],
+      [2, 'lane-todo'],
+    ]);
+  });
+
+  it('should round-trip through importMarkdown', () => {
+    const imported = importMarkdown(exportMarkdown(state));
+    const card = imported.cards.find((item) => item.id === 1);
+
+    expect(imported.lanes?.map((lane) => lane.id)).toEqual(['team-a', 'b']);
+    expect(imported.columns.map((column) => [column.id, column.laneId])).toEqual([
+      ['todo', 'team-a'],
+      ['todo-b', 'b'],
+    ]);
+    expect(imported.cards.map((item) => [item.id, item.order])).toEqual([
+      ['two', 0],
+      [1, 1],
+      [3, 0],
+    ]);
+    expect(card?.title).toBe('Fix login');
+    expect(card?.labels).toEqual(['bug', 'needs-review']);
+    expect(card?.description).toBe('First line\n\nSecond [line]');
+    expect(card?.meta).toEqual(state.cards[0]?.meta);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for applyOperation
+ */
+
+import { StateManager } from '../../src/core/state';
+import { applyOperation, applyOperations } from '../../src/core/operations';
+
+describe('applyOperation', () => {
+  let stateManager: StateManager;
+
+  beforeEach(() => {
+    stateManager = new StateManager({
+      columns: [
+        { id: 'todo', title: 'To Do', order: 0 },
+        { id: 'done', title: 'Done', order: 1 }
+      ],
+      cards: [
+        { id: 1, title: 'Card 1', columnId: 'todo', order: 0 },
+        { id: 2, title: 'Card 2', columnId: 'todo', order: 1 }
+      ]
+    });
+  });
+
+  it('should apply card operations', () => {
+    applyOperation(stateManager, {
+      type: 'card:add',
+      card: { id: 3, title: 'Card 3', columnId: 'todo' },
+      index: 0
+    });
+    applyOperation(stateManager, { type: 'card:update', cardId: 1, patch: { title: 'Renamed' } });
+    applyOperation(stateManager, { type: 'card:move', cardId: 2, to: { columnId: 'done' } });
+
+    expect(stateManager.getCards('todo').map((c) => c.id)).toEqual([3, 1]);
+    expect(stateManager.getCard(1)?.title).toBe('Renamed');
+    expect(stateManager.getCard(2)?.columnId).toBe('done');
+  });
+
+  it('should reject operations that do not fit the state', () => {
+    expect(
+      applyOperation(stateManager, {
+        type: 'card:add',
+        card: { id: 1, title: 'Duplicate', columnId: 'todo' }
+      })
+    ).toBe(false);
+    expect(
+      applyOperation(stateManager, { type: 'card:move', cardId: 1, to: { columnId: 'missing' } })
+    ).toBe(false);
+    expect(applyOperation(stateManager, { type: 'card:remove', cardId: 99 })).toBe(false);
+    expect(stateManager.getCards()).toHaveLength(2);
+  });
+
+  it('should return only the applied operations', () => {
+    const applied = applyOperations(stateManager, [
+      { type: 'card:remove', cardId: 1 },
+      { type: 'card:remove', cardId: 1 },
+      { type: 'column:update', columnId: 'done', patch: { title: 'Finished' } }
+    ]);
+
+    expect(applied.map((op) => op.type)).toEqual(['card:remove', 'column:update']);
+    expect(stateManager.getColumn('done')?.title).toBe('Finished');
+  });
+});
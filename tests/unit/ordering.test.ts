@@ -0,0 +1,146 @@
+/**
+ * Unit tests for card ordering helpers and fractional ordering
+ * Run with: npm test (requires test framework setup)
+ */
+
+import {
+  compareOrder,
+  convertCardOrders,
+  generateKeyBetween,
+  generateNKeysBetween,
+  isOrderKey,
+} from '../../src/core/ordering';
+import { StateManager } from '../../src/core/state';
+import type { Card } from '../../src/core/types';
+
+describe('Fractional order keys', () => {
+  it('should generate keys between two keys', () => {
+    const first = generateKeyBetween(null, null);
+    const last = generateKeyBetween(first, null);
+    const middle = generateKeyBetween(first, last);
+    const before = generateKeyBetween(null, first);
+
+    expect([before, first, middle, last].every(isOrderKey)).toBe(true);
+    expect(before < first && first < middle && middle < last).toBe(true);
+  });
+
+  it('should keep keys short when repeatedly inserting at the same place', () => {
+    let low = generateKeyBetween(null, null);
+    const high = generateKeyBetween(low, null);
+
+    for (let i = 0; i < 50; i++) {
+      const key = generateKeyBetween(low, high);
+      expect(low < key && key < high).toBe(true);
+      low = key;
+    }
+    expect(low.length).toBeLessThan(20);
+  });
+
+  it('should generate sorted, evenly spread batches', () => {
+    const keys = generateNKeysBetween(null, null, 100);
+
+    expect(keys).toHaveLength(100);
+    expect([...keys].sort()).toEqual(keys);
+    expect(new Set(keys).size).toBe(100);
+  });
+
+  it('should reject malformed keys', () => {
+    expect(isOrderKey('a0')).toBe(true);
+    expect(isOrderKey('a00')).toBe(false);
+    expect(isOrderKey('b1')).toBe(false);
+    expect(isOrderKey(3)).toBe(false);
+    expect(() => generateKeyBetween('a1', 'a0')).toThrow();
+  });
+
+  it('should compare numeric orders before keys', () => {
+    expect(compareOrder(1, 2)).toBeLessThan(0);
+    expect(compareOrder('a1', 'a0')).toBeGreaterThan(0);
+    expect(compareOrder(5, 'a0')).toBeLessThan(0);
+    expect(compareOrder(undefined, 0)).toBe(0);
+  });
+});
+
+describe('convertCardOrders', () => {
+  const cards: Card[] = [
+    { id: 1, title: 'A', columnId: 'todo', order: 1 },
+    { id: 2, title: 'B', columnId: 'todo', order: 0 },
+    { id: 3, title: 'C', columnId: 'done', order: 'a0' },
+  ];
+
+  it('should convert numeric orders to keys, keeping the relative order', () => {
+    const converted = convertCardOrders(cards, 'fractional');
+    const [a, b, c] = converted;
+
+    expect(typeof a?.order).toBe('string');
+    expect(compareOrder(b?.order, a?.order)).toBeLessThan(0);
+    expect(c).toBe(cards[2]); // Already fits
+    expect(convertCardOrders(converted, 'fractional')).toBe(converted);
+  });
+
+  it('should convert keys back to indexes', () => {
+    const converted = convertCardOrders(cards, 'index');
+
+    expect(converted[0]).toBe(cards[0]);
+    expect(converted[2]?.order).toBe(0);
+  });
+});
+
+describe('StateManager with fractional ordering', () => {
+  const createManager = () =>
+    new StateManager(
+      {
+        columns: [
+          { id: 'todo', title: 'To Do' },
+          { id: 'done', title: 'Done' },
+        ],
+        cards: [
+          { id: 1, title: 'Card 1', columnId: 'todo' },
+          { id: 2, title: 'Card 2', columnId: 'todo' },
+          { id: 3, title: 'Card 3', columnId: 'todo' },
+          { id: 4, title: 'Card 4', columnId: 'done' },
+        ],
+      },
+      { ordering: 'fractional' }
+    );
+
+  it('should migrate integer orders to keys on load', () => {
+    const manager = createManager();
+
+    expect(manager.getCards().every((card) => isOrderKey(card.order))).toBe(true);
+    expect(manager.getCards('todo').map((c) => c.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should only change the moved card', () => {
+    const manager = createManager();
+    const before = manager.getSnapshot();
+
+    manager.moveCard(3, 'todo', undefined, 0);
+    const after = manager.getSnapshot();
+
+    expect(manager.getCards('todo').map((c) => c.id)).toEqual([3, 1, 2]);
+    expect(after.cards.filter((card, i) => card !== before.cards[i]).map((c) => c.id)).toEqual([3]);
+  });
+
+  it('should insert between neighbours without renumbering', () => {
+    const manager = createManager();
+    const siblings = manager.getCards('todo');
+
+    manager.addCard({ id: 5, title: 'Card 5', columnId: 'todo' }, 1);
+
+    expect(manager.getCards('todo').map((c) => c.id)).toEqual([1, 5, 2, 3]);
+    expect(manager.getCard(1)).toBe(siblings[0]);
+    expect(manager.getCard(2)).toBe(siblings[1]);
+    expect(manager.getCardIndex(5)).toBe(1);
+  });
+
+  it('should leave other cards alone when a card is removed or moved away', () => {
+    const manager = createManager();
+    const card2 = manager.getCard(2);
+
+    manager.removeCard(1);
+    manager.moveCard(3, 'done');
+
+    expect(manager.getCard(2)).toBe(card2);
+    expect(manager.getCards('done').map((c) => c.id)).toEqual([4, 3]);
+  });
+});
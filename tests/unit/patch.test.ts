@@ -0,0 +1,105 @@
+/**
+ * Unit tests for JSON Patch diffs
+ */
+
+import { StateManager } from '../../src/core/state';
+import { applyOperations } from '../../src/core/operations';
+import { diffStates, operationsBetween, patchState } from '../../src/core/patch';
+import type { KanbanState } from '../../src/core/types';
+
+describe('JSON Patch', () => {
+  let stateManager: StateManager;
+
+  beforeEach(() => {
+    stateManager = new StateManager({
+      columns: [
+        { id: 'todo', title: 'To Do' },
+        { id: 'done', title: 'Done' },
+      ],
+      cards: [
+        { id: 1, title: 'Card 1', columnId: 'todo', meta: { tags: ['a'] } },
+        { id: 2, title: 'Card 2', columnId: 'todo' },
+        { id: 'a/b', title: 'Card 3', columnId: 'done' },
+      ],
+    });
+  });
+
+  it('should address entities by ID', () => {
+    const before = stateManager.getSnapshot();
+    stateManager.updateCard(1, { title: 'Renamed', meta: { tags: ['a', 'b'] } });
+    stateManager.removeCard('a/b');
+    stateManager.addColumn({ id: 'review', title: 'Review' });
+
+    expect(diffStates(before, stateManager.getSnapshot())).toEqual([
+      { op: 'add', path: '/columns/review', value: { id: 'review', title: 'Review', order: 2 } },
+      { op: 'remove', path: '/cards/a~1b' },
+      { op: 'replace', path: '/cards/1/title', value: 'Renamed' },
+      { op: 'replace', path: '/cards/1/meta/tags', value: ['a', 'b'] },
+    ]);
+  });
+
+  it('should round-trip a diff', () => {
+    const before = stateManager.getSnapshot();
+    stateManager.moveCard(2, 'done', undefined, 0);
+    stateManager.updateCard(1, { description: 'New' });
+    const after = stateManager.getSnapshot();
+
+    const patched = patchState(before, diffStates(before, after));
+
+    expect(diffStates(patched, after)).toEqual([]);
+    expect(patched.columns[0]).toBe(before.columns[0]);
+  });
+
+  it('should not modify the input state', () => {
+    const state: KanbanState = stateManager.getState();
+    const patched = patchState(state, [
+      { op: 'add', path: '/cards/1/meta/tags/-', value: 'b' },
+      { op: 'copy', from: '/cards/1/title', path: '/cards/2/description' },
+      { op: 'move', from: '/cards/a~1b/title', path: '/cards/a~1b/description' },
+    ]);
+
+    expect(state.cards[0]?.meta?.tags).toEqual(['a']);
+    expect(patched.cards[0]?.meta?.tags).toEqual(['a', 'b']);
+    expect(patched.cards[1]?.description).toBe('Card 1');
+    expect(patched.cards[2]?.title).toBeUndefined();
+    expect(patched.cards[2]?.description).toBe('Card 3');
+  });
+
+  it('should apply patches atomically', () => {
+    const state = stateManager.getSnapshot();
+
+    expect(() =>
+      patchState(state, [
+        { op: 'replace', path: '/cards/1/title', value: 'Changed' },
+        { op: 'test', path: '/cards/2/title', value: 'Something else' },
+      ])
+    ).toThrow('[Saharos] Cannot apply patch operation 1');
+    expect(() => patchState(state, [{ op: 'remove', path: '/cards/9' }])).toThrow();
+    expect(() => patchState(state, [{ op: 'replace', path: '/cards', value: [] }])).toThrow();
+    expect(() =>
+      patchState(state, [{ op: 'replace', path: '/cards/1/id', value: 5 }])
+    ).toThrow('matching id');
+    expect(stateManager.getCard(1)?.title).toBe('Card 1');
+  });
+
+  it('should describe an applied patch as replayable operations', () => {
+    const before = stateManager.getSnapshot();
+    const replay = new StateManager(before);
+
+    stateManager.setState(
+      patchState(before, [
+        { op: 'remove', path: '/cards/1' },
+        { op: 'replace', path: '/cards/2/columnId', value: 'done' },
+        { op: 'replace', path: '/cards/2/order', value: -1 },
+        { op: 'add', path: '/cards/4', value: { id: 4, title: 'Card 4', columnId: 'todo' } },
+      ])
+    );
+    const operations = operationsBetween(before, stateManager);
+
+    expect(operations.map((op) => op.type)).toEqual(['card:remove', 'card:add', 'card:move']);
+
+    applyOperations(replay, operations);
+    expect(replay.getCards('done').map((c) => c.id)).toEqual([2, 'a/b']);
+    expect(replay.getCards('todo').map((c) => c.id)).toEqual([4]);
+  });
+});
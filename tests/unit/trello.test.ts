@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the Trello importer
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { importTrello } from '../../src/io/trello';
+
+const fixture = readFileSync(join(__dirname, '../fixtures/trello-board.json'), 'utf8');
+
+describe('importTrello', () => {
+  it('should convert lists and cards in position order', () => {
+    const { state, report } = importTrello(fixture);
+
+    expect(state.columns).toEqual([
+      { id: 'list-todo', title: 'To Do', order: 0 },
+      { id: 'list-doing', title: 'Doing', order: 1 },
+      { id: 'list-done', title: 'Done', order: 2 },
+    ]);
+    expect(state.cards.map((card) => [card.id, card.columnId, card.order])).toEqual([
+      ['card-search', 'list-todo', 0],
+      ['card-login', 'list-todo', 1],
+      ['card-cache', 'list-doing', 0],
+    ]);
+    expect(report.board).toBe('Platform Team');
+    expect(report.columns).toBe(3);
+    expect(report.cards).toBe(3);
+  });
+
+  it('should map labels, checklists, dates and members', () => {
+    const { state, report } = importTrello(fixture);
+    const login = state.cards.find((card) => card.id === 'card-login');
+    const cache = state.cards.find((card) => card.id === 'card-cache');
+
+    expect(login).toEqual({
+      id: 'card-login',
+      title: 'Fix login redirect',
+      columnId: 'list-todo',
+      order: 1,
+      description: 'Users land on a blank page after signing in.',
+      labels: ['Bug'],
+      meta: {
+        due: '2024-03-01T17:00:00.000Z',
+        dueComplete: false,
+        checklists: [
+          {
+            name: 'Steps',
+            items: [
+              { title: 'Reproduce', checked: true },
+              { title: 'Add regression test', checked: false },
+            ],
+          },
+        ],
+        members: ['Ana Lima', 'bo'],
+        attachments: [
+          {
+            name: 'screenshot.png',
+            url: 'https://trello.com/1/cards/card-login/attachments/a1/download/screenshot.png',
+          },
+        ],
+        url: 'https://trello.com/c/Xy12Ab34',
+      },
+    });
+    expect(cache?.meta?.checklists).toEqual([
+      { name: 'Design', items: [] },
+      { name: 'Rollout', items: [{ title: 'Staging', checked: true }] },
+    ]);
+    expect(state.cards.find((card) => card.id === 'card-search')?.labels).toEqual([
+      'Feature',
+      'blue',
+    ]);
+
+    expect(report.checklists).toBe(3);
+    expect(report.labels).toEqual([
+      { name: 'Bug', color: 'red' },
+      { name: 'Feature', color: 'green' },
+      { name: 'blue', color: 'blue' },
+    ]);
+  });
+
+  it('should report what was skipped or converted lossily', () => {
+    const { report } = importTrello(fixture);
+
+    expect(report.skipped).toEqual([
+      { type: 'list', id: 'list-old', name: 'Icebox', reason: 'archived' },
+      { type: 'card', id: 'card-legacy', name: 'Remove legacy endpoints', reason: 'archived' },
+      { type: 'card', id: 'card-idea', name: 'Dark mode', reason: 'list archived' },
+    ]);
+    expect(report.lossy.map(({ type, id, reason }) => [type, id, reason])).toEqual([
+      ['label', 'lbl-bug-2', 'merged with the red label of the same name'],
+      ['label', 'lbl-blue', 'label has no name; named after its color'],
+      ['board', '6501a0c1e4b0a1b2c3d4e5f0', '2 actions (comments and activity) not imported'],
+    ]);
+  });
+
+  it('should include archived lists and cards on request', () => {
+    const { state, report } = importTrello(JSON.parse(fixture), {
+      archived: 'include',
+      unnamedLabels: 'skip',
+    });
+
+    expect(state.columns.find((column) => column.id === 'list-old')?.meta).toEqual({
+      archived: true,
+    });
+    expect(state.cards.find((card) => card.id === 'card-legacy')?.meta).toEqual({
+      archived: true,
+    });
+    expect(state.cards.find((card) => card.id === 'card-search')?.labels).toEqual(['Feature']);
+    expect(report.skipped).toEqual([
+      { type: 'label', id: 'lbl-blue', name: '', reason: 'label has no name' },
+    ]);
+  });
+
+  it('should reject other JSON', () => {
+    expect(() => importTrello('{"name":"Not a board"}')).toThrow('Not a Trello board export');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for validateState and repairState
+ */
+
+import { validateState, repairState } from '../../src/core/validation';
+import type { KanbanState } from '../../src/core/types';
+
+describe('validateState', () => {
+  it('should accept a consistent state', () => {
+    const report = validateState({
+      lanes: [{ id: 'lane-1', title: 'Lane 1' }],
+      columns: [{ id: 'todo', title: 'To Do', laneId: 'lane-1' }],
+      cards: [{ id: 1, title: 'Card 1', columnId: 'todo', laneId: 'lane-1' }]
+    });
+
+    expect(report).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('should reject non-object state and missing arrays', () => {
+    expect(validateState(null).errors[0]?.code).toBe('invalid-state');
+    expect(validateState({ columns: [] }).errors.map((e) => e.path)).toEqual(['cards']);
+  });
+
+  it('should report duplicate ids, bad titles and broken references', () => {
+    const report = validateState({
+      columns: [
+        { id: 'todo', title: 'To Do', laneId: 'gone' },
+        { id: 'todo', title: 42 }
+      ],
+      cards: [
+        { id: 1, title: 'Card 1', columnId: 'deleted' },
+        { id: 2, title: 'Card 2', columnId: 'todo', order: 'first' }
+      ]
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.errors.map((e) => [e.code, e.path])).toEqual([
+      ['duplicate-id', 'columns[1].id'],
+      ['invalid-title', 'columns[1].title'],
+      ['missing-lane', 'columns[0].laneId'],
+      ['missing-column', 'cards[0].columnId']
+    ]);
+    expect(report.warnings.map((w) => [w.code, w.id])).toEqual([['invalid-order', 2]]);
+  });
+});
+
+describe('repairState', () => {
+  const broken = (): unknown => ({
+    columns: [
+      { id: 'todo', title: 'To Do', laneId: 'gone' },
+      { id: 'todo', title: 'Duplicate' },
+      'not a column'
+    ],
+    cards: [
+      { id: 1, title: 7, columnId: 'todo' },
+      { id: 2, title: 'Orphan', columnId: 'deleted', order: 0 },
+      { title: 'No id', columnId: 'todo' }
+    ]
+  });
+
+  it('should produce a state that passes validation', () => {
+    const repaired = repairState(broken());
+
+    expect(validateState(repaired).valid).toBe(true);
+    expect(repaired.columns).toEqual([{ id: 'todo', title: 'To Do' }]);
+    expect(repaired.cards.map((c) => [c.id, c.title, c.columnId])).toEqual([
+      [1, '7', 'todo'],
+      [2, 'Orphan', 'todo']
+    ]);
+  });
+
+  it('should move orphaned cards into a provided fallback column', () => {
+    const repaired = repairState(broken(), {
+      fallbackColumn: { id: 'inbox', title: 'Inbox' }
+    });
+
+    expect(repaired.columns.map((c) => c.id)).toEqual(['todo', 'inbox']);
+    expect(repaired.cards.find((c) => c.id === 2)?.columnId).toBe('inbox');
+  });
+
+  it('should append orphaned cards after the cards of the fallback column', () => {
+    const state: KanbanState = {
+      columns: [{ id: 'todo', title: 'To Do' }],
+      cards: [
+        { id: 1, title: 'Orphan 1', columnId: 'deleted', order: 0 },
+        { id: 2, title: 'Card 2', columnId: 'todo', order: 4 },
+        { id: 3, title: 'Orphan 3', columnId: 'deleted', order: 1 },
+        { id: 4, title: 'Card 4', columnId: 'todo', order: 2 }
+      ]
+    };
+
+    expect(repairState(state).cards.map((c) => [c.id, c.order])).toEqual([
+      [1, 5],
+      [2, 4],
+      [3, 6],
+      [4, 2]
+    ]);
+  });
+
+  it('should drop orphaned cards when there is no column to move them to', () => {
+    const state: KanbanState = {
+      columns: [],
+      cards: [{ id: 1, title: 'Orphan', columnId: 'deleted' }]
+    };
+
+    expect(repairState(state).cards).toEqual([]);
+  });
+});
@@ -2,7 +2,22 @@ import { defineConfig } from 'vite';
 import { resolve } from 'path';
 import dts from 'vite-plugin-dts';
 
-export default defineConfig({
+// `vite build --mode core` builds the DOM-free entry (saharos-kanban/core) next to
+// the main bundle; UMD cannot hold two entries, so it is a separate build
+const coreConfig = defineConfig({
+  build: {
+    emptyOutDir: false,
+    lib: {
+      entry: resolve(__dirname, 'src/core/index.ts'),
+      formats: ['es', 'cjs'],
+      fileName: (format) => `saharos-kanban-core.${format === 'es' ? 'esm.js' : 'cjs'}`,
+    },
+    sourcemap: true,
+    minify: 'terser',
+  },
+});
+
+const mainConfig = defineConfig({
   plugins: [
     dts({
       insertTypesEntry: true,
@@ -42,3 +57,5 @@ export default defineConfig({
     open: '/examples/basic.html',
   },
 });
+
+export default defineConfig(({ mode }) => (mode === 'core' ? coreConfig : mainConfig));